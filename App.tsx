@@ -1,79 +1,104 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { fetchDeribitOptions, fetchDeribitSpot, fetchPolymarketData } from './services/api';
-import { ArbitrageOpportunity, DeribitOption, PolyEvent } from './types';
-import { convertIsoToDeribitDate } from './utils/helpers';
+import { fetchOpportunities } from './services/opportunities';
+import {
+  loadAlertRules, loadAlertSettings, loadCostSettings, loadLlmSettings, loadRecorderSettings, loadScannerSettings, loadVenueSettings,
+  saveAlertRules, saveAlertSettings, saveCostSettings, saveLlmSettings, saveRecorderSettings, saveScannerSettings, saveVenueSettings
+} from './services/settings';
+import { pruneSnapshots, recordScanRows } from './services/snapshotStore';
+import { AlertRule, AlertSettings, ArbitrageOpportunity, CostSettings, LlmSettings, RecorderSettings, ScannerSettings, VenueSettings } from './types';
+import { scanOpportunity } from './utils/scanner';
+import { useScanner } from './hooks/useScanner';
+import { useAlerts } from './hooks/useAlerts';
 import MarketCard from './components/MarketCard';
-import { Search, RefreshCw, Layers, BrainCircuit, Github } from 'lucide-react';
+import CostSettingsPanel from './components/CostSettingsPanel';
+import RecorderSettingsPanel from './components/RecorderSettingsPanel';
+import VenueSettingsPanel from './components/VenueSettingsPanel';
+import LlmSettingsPanel from './components/LlmSettingsPanel';
+import ScannerView from './components/ScannerView';
+import AlertsPanel from './components/AlertsPanel';
+import BacktestView from './components/BacktestView';
+import PositionsView from './components/PositionsView';
+import CrossVenueView from './components/CrossVenueView';
+import DataQualityPanel from './components/DataQualityPanel';
+import { Search, RefreshCw, Layers, BrainCircuit, Github, Radio, Settings, Radar, Bell, FlaskConical, Briefcase, ArrowLeftRight } from 'lucide-react';
 
 export default function App() {
   const [query, setQuery] = useState('bitcoin price');
   const [loading, setLoading] = useState(false);
   const [opportunities, setOpportunities] = useState<ArbitrageOpportunity[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState(false);
+  const [costSettings, setCostSettings] = useState<CostSettings>(loadCostSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [view, setView] = useState<'search' | 'scanner' | 'cross-venue' | 'alerts' | 'backtest' | 'positions'>('search');
+  const [scannerSettings, setScannerSettings] = useState<ScannerSettings>(loadScannerSettings);
+  const [venueSettings, setVenueSettings] = useState<VenueSettings>(loadVenueSettings);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const scanner = useScanner(scannerSettings, costSettings, venueSettings.optionsVenue);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const alerts = useAlerts(scanner.rows, scanner.lastRun, alertRules, alertSettings);
+  const [recorderSettings, setRecorderSettings] = useState<RecorderSettings>(loadRecorderSettings);
+
+  const updateRecorderSettings = (settings: RecorderSettings) => {
+    setRecorderSettings(settings);
+    saveRecorderSettings(settings);
+  };
+
+  // Record every scanner pass
+  useEffect(() => {
+    if (scanner.lastRun !== null) recordScanRows(scanner.rows, recorderSettings);
+  }, [scanner.lastRun]);
+
+  // Apply retention on load and whenever it changes
+  useEffect(() => {
+    pruneSnapshots(recorderSettings.retentionDays).catch(e => console.warn('[Recorder] Prune failed', e));
+  }, [recorderSettings.retentionDays]);
+
+  const updateAlertRules = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
+
+  const updateAlertSettings = (settings: AlertSettings) => {
+    setAlertSettings(settings);
+    saveAlertSettings(settings);
+  };
+
+  const updateScannerSettings = (settings: ScannerSettings) => {
+    setScannerSettings(settings);
+    saveScannerSettings(settings);
+  };
+
+  const updateVenueSettings = (settings: VenueSettings) => {
+    setVenueSettings(settings);
+    saveVenueSettings(settings);
+  };
+
+  const updateLlmSettings = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    saveLlmSettings(settings);
+  };
+
+  const updateCostSettings = (settings: CostSettings) => {
+    setCostSettings(settings);
+    saveCostSettings(settings);
+  };
 
   const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      // 1. Fetch Polymarket Events first (lightweight)
-      const polyData = await fetchPolymarketData(query);
-      
-      if (!polyData.events || polyData.events.length === 0) {
-          setOpportunities([]);
-          setLoading(false);
-          return;
-      }
-
-      const polyEvents: PolyEvent[] = polyData.events.map((e: any) => ({
-        id: e.id,
-        ticker: e.ticker,
-        title: e.title,
-        description: e.description,
-        startDate: e.startDate,
-        endDate: e.endDate,
-        volume: e.volume || 0,
-        markets: e.markets.map((m: any) => ({
-            id: m.id,
-            question: m.question,
-            outcomes: m.outcomes,
-            outcomePrices: m.outcomePrices,
-            bestBid: m.bestBid,
-            bestAsk: m.bestAsk,
-            volume: m.volume,
-            endDate: m.endDate
-        })),
-        image: e.image
-      }));
-
-      // 2. Only if we have events, Fetch Deribit Data (Heavy)
-      const spotPrice = await fetchDeribitSpot('btc_usdc');
-      const deribitOptions = await fetchDeribitOptions('BTC');
-
-      // 3. Match Logic: Polymarket Event Date -> Deribit Expiry
-      const matchedData: ArbitrageOpportunity[] = polyEvents.map((polyEvent) => {
-         const targetDateCode = convertIsoToDeribitDate(polyEvent.endDate); // e.g., 27DEC24
-         
-         // Filter Deribit options containing this date code in instrument_name
-         const relevantOptions = deribitOptions.filter((opt: DeribitOption) => 
-            opt.instrument_name.includes(targetDateCode)
-         );
-
-         return {
-            polyEvent,
-            matchedOptions: relevantOptions,
-            spotPrice
-         };
-      });
-
+      const matchedData = await fetchOpportunities(query, venueSettings.optionsVenue);
       setOpportunities(matchedData);
-
+      recordScanRows(matchedData.flatMap(opp => scanOpportunity(opp, query, costSettings)), recorderSettings);
     } catch (err: any) {
       console.error(err);
       setError(err.message || "Failed to fetch market data. Ensure CORS proxy is working or try again.");
     } finally {
       setLoading(false);
     }
-  }, [query]);
+  }, [query, costSettings, recorderSettings, venueSettings.optionsVenue]);
 
   // Initial load
   useEffect(() => {
@@ -99,6 +124,44 @@ export default function App() {
                 </h1>
             </div>
             <div className="flex items-center gap-4">
+                <button
+                    onClick={() => setStreaming(!streaming)}
+                    title="Stream live Deribit spot and option quotes into open analysis panels"
+                    className={`flex items-center gap-1.5 text-xs font-bold px-2.5 py-1 rounded border transition-colors ${streaming ? 'bg-green-600/20 border-green-500/50 text-green-400' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                >
+                    <Radio size={14} />
+                    {streaming ? 'Live' : 'Snapshot'}
+                </button>
+                <div className="relative">
+                    <button
+                        onClick={() => setShowSettings(!showSettings)}
+                        title="Cost model settings"
+                        className={`transition-colors ${showSettings ? 'text-white' : 'text-slate-500 hover:text-white'}`}
+                    >
+                        <Settings size={20} />
+                    </button>
+                    {showSettings && (
+                        <div className="absolute right-0 top-10">
+                            <CostSettingsPanel
+                                settings={costSettings}
+                                onChange={updateCostSettings}
+                                onClose={() => setShowSettings(false)}
+                            />
+                            <VenueSettingsPanel
+                                settings={venueSettings}
+                                onChange={updateVenueSettings}
+                            />
+                            <LlmSettingsPanel
+                                settings={llmSettings}
+                                onChange={updateLlmSettings}
+                            />
+                            <RecorderSettingsPanel
+                                settings={recorderSettings}
+                                onChange={updateRecorderSettings}
+                            />
+                        </div>
+                    )}
+                </div>
                 <a href="#" className="text-slate-500 hover:text-white transition-colors">
                     <Github size={20} />
                 </a>
@@ -108,7 +171,81 @@ export default function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        
+
+        {/* View Tabs */}
+        <div className="flex justify-center gap-2 mb-8">
+            <button
+                onClick={() => setView('search')}
+                className={`flex items-center gap-2 text-sm px-4 py-1.5 rounded-full border transition-colors ${view === 'search' ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+                <Search size={14} /> Search
+            </button>
+            <button
+                onClick={() => setView('scanner')}
+                className={`flex items-center gap-2 text-sm px-4 py-1.5 rounded-full border transition-colors ${view === 'scanner' ? 'bg-cyan-600 border-cyan-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+                <Radar size={14} /> Scanner
+                {scanner.running && <RefreshCw size={12} className="animate-spin" />}
+            </button>
+            <button
+                onClick={() => setView('cross-venue')}
+                className={`flex items-center gap-2 text-sm px-4 py-1.5 rounded-full border transition-colors ${view === 'cross-venue' ? 'bg-teal-600 border-teal-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+                <ArrowLeftRight size={14} /> Cross-Venue
+            </button>
+            <button
+                onClick={() => setView('alerts')}
+                className={`flex items-center gap-2 text-sm px-4 py-1.5 rounded-full border transition-colors ${view === 'alerts' ? 'bg-amber-600 border-amber-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+                <Bell size={14} /> Alerts
+                {alerts.history.length > 0 && <span className="text-[10px] bg-slate-900/50 px-1.5 rounded-full">{alerts.history.length}</span>}
+            </button>
+            <button
+                onClick={() => setView('backtest')}
+                className={`flex items-center gap-2 text-sm px-4 py-1.5 rounded-full border transition-colors ${view === 'backtest' ? 'bg-emerald-600 border-emerald-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+                <FlaskConical size={14} /> Backtest
+            </button>
+            <button
+                onClick={() => setView('positions')}
+                className={`flex items-center gap-2 text-sm px-4 py-1.5 rounded-full border transition-colors ${view === 'positions' ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+                <Briefcase size={14} /> Positions
+            </button>
+        </div>
+
+        {view === 'positions' ? (
+            <PositionsView />
+        ) : view === 'cross-venue' ? (
+            <CrossVenueView costSettings={costSettings} optionsVenue={venueSettings.optionsVenue} />
+        ) : view === 'backtest' ? (
+            <BacktestView />
+        ) : view === 'alerts' ? (
+            <AlertsPanel
+                rules={alertRules}
+                onRulesChange={updateAlertRules}
+                settings={alertSettings}
+                onSettingsChange={updateAlertSettings}
+                history={alerts.history}
+                onClearHistory={alerts.clearHistory}
+                savedQueries={scannerSettings.queries}
+                scannerEnabled={scannerSettings.enabled}
+            />
+        ) : view === 'scanner' ? (
+            <ScannerView
+                settings={scannerSettings}
+                onSettingsChange={updateScannerSettings}
+                rows={scanner.rows}
+                running={scanner.running}
+                lastRun={scanner.lastRun}
+                errors={scanner.errors}
+                onRunNow={scanner.runNow}
+                costSettings={costSettings}
+                streaming={streaming}
+                llmProvider={llmSettings.provider}
+            />
+        ) : (
+        <>
         {/* Search & Control Header */}
         <div className="mb-10">
             <div className="text-center mb-8">
@@ -143,13 +280,15 @@ export default function App() {
                     </div>
                 </div>
                 <p className="text-center text-xs text-slate-500 mt-3">
-                    Powered by Gamma API & Deribit v2 Public API via Secure Proxy
+                    Powered by Gamma API, Deribit v2 & OKX v5 Public APIs via Secure Proxy
                 </p>
             </form>
         </div>
 
         {/* Results Grid */}
         <div className="space-y-6">
+            {!loading && <DataQualityPanel opportunities={opportunities} />}
+
             {error && (
                 <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-lg text-center">
                     {error}
@@ -164,9 +303,11 @@ export default function App() {
             )}
 
             {opportunities.map((opp) => (
-                <MarketCard key={opp.polyEvent.id} data={opp} />
+                <MarketCard key={opp.polyEvent.id} data={opp} streaming={streaming} costSettings={costSettings} llmProvider={llmSettings.provider} />
             ))}
         </div>
+        </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertRule, AlertSettings, FiredAlert } from '../types';
+import { ALERT_METRIC_LABELS } from '../utils/alerts';
+import { SUPPORTED_ASSETS } from '../utils/assets';
+import { requestNotificationPermission } from '../services/notifications';
+import { Bell, BellRing, Plus, Trash2, X } from 'lucide-react';
+
+interface Props {
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  settings: AlertSettings;
+  onSettingsChange: (settings: AlertSettings) => void;
+  history: FiredAlert[];
+  onClearHistory: () => void;
+  savedQueries: string[];
+  scannerEnabled: boolean;
+}
+
+const EMPTY_CONDITION: AlertCondition = { metric: 'edge', op: '>', value: 6 };
+
+const newRule = (): AlertRule => ({
+  id: `rule-${Date.now()}`,
+  name: '',
+  conditions: [{ ...EMPTY_CONDITION }],
+  asset: null,
+  query: null,
+  channels: { browser: true, webhook: false },
+  cooldownMinutes: 30,
+  enabled: true
+});
+
+const describeCondition = (c: AlertCondition) =>
+  `${ALERT_METRIC_LABELS[c.metric]} ${c.op} ${c.value}${c.metric === 'modelProbChange' ? ` in ${c.windowMinutes || 10}m` : ''}`;
+
+/**
+ * Alert rule editor, notification channels and fired-alert history.
+ */
+const AlertsPanel: React.FC<Props> = ({ rules, onRulesChange, settings, onSettingsChange, history, onClearHistory, savedQueries, scannerEnabled }) => {
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+  const [permission, setPermission] = useState<string>(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  const updateCondition = (idx: number, patch: Partial<AlertCondition>) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.map((c, i) => (i === idx ? { ...c, ...patch } : c)) });
+  };
+
+  const saveDraft = () => {
+    if (!draft || draft.conditions.length === 0) return;
+    const rule = { ...draft, name: draft.name.trim() || draft.conditions.map(describeCondition).join(' and ') };
+    onRulesChange([...rules.filter(r => r.id !== rule.id), rule]);
+    setDraft(null);
+  };
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs';
+
+  return (
+    <div className="space-y-4">
+      {!scannerEnabled && (
+        <div className="bg-amber-500/10 border border-amber-500/20 text-amber-400 text-xs p-3 rounded-lg">
+          Alerts are evaluated on each scanner refresh. Enable auto-refresh in the Scanner tab to run them in the background.
+        </div>
+      )}
+
+      {/* Channels */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 flex flex-wrap items-center gap-4 text-xs">
+        <Bell size={16} className="text-amber-400" />
+        <span className="text-slate-400">
+          Browser notifications: <span className="font-mono text-slate-200">{permission}</span>
+        </span>
+        {permission === 'default' && (
+          <button
+            onClick={async () => setPermission(await requestNotificationPermission())}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Enable
+          </button>
+        )}
+        <label className="flex items-center gap-2 text-slate-400 ml-auto">
+          Webhook URL
+          <input
+            type="url"
+            placeholder="https://hooks.slack.com/services/..."
+            value={settings.webhookUrl}
+            onChange={(e) => onSettingsChange({ ...settings, webhookUrl: e.target.value })}
+            className={`${inputClass} w-80`}
+          />
+        </label>
+      </div>
+
+      {/* Rules */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-bold text-slate-200 text-sm">Alert Rules</h3>
+          <button onClick={() => setDraft(newRule())} className="ml-auto flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300">
+            <Plus size={14} /> New Rule
+          </button>
+        </div>
+
+        {rules.length === 0 && !draft && <p className="text-xs text-slate-500">No rules yet.</p>}
+
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center gap-3 text-xs bg-slate-900/50 rounded p-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => onRulesChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+              />
+              <div className="flex-1">
+                <div className="text-slate-200">{rule.name}</div>
+                <div className="text-[10px] text-slate-500">
+                  {rule.conditions.map(describeCondition).join(' AND ')} · {rule.asset || 'any asset'} · {rule.query || 'any query'}
+                  {' '}· {[rule.channels.browser && 'browser', rule.channels.webhook && 'webhook'].filter(Boolean).join(' + ') || 'history only'}
+                </div>
+              </div>
+              <button onClick={() => setDraft(rule)} className="text-slate-400 hover:text-white">Edit</button>
+              <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="text-slate-500 hover:text-red-400">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {draft && (
+          <div className="mt-4 border border-slate-700 rounded-lg p-3 space-y-3 text-xs">
+            <div className="flex flex-wrap gap-2 items-center">
+              <input type="text" placeholder="Rule name (optional)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} w-56`} />
+              <select value={draft.asset || ''} onChange={(e) => setDraft({ ...draft, asset: e.target.value || null })} className={inputClass}>
+                <option value="">Any asset</option>
+                {Object.keys(SUPPORTED_ASSETS).map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+              <select value={draft.query || ''} onChange={(e) => setDraft({ ...draft, query: e.target.value || null })} className={inputClass}>
+                <option value="">Any saved query</option>
+                {savedQueries.map(q => <option key={q} value={q}>{q}</option>)}
+              </select>
+            </div>
+
+            {draft.conditions.map((c, idx) => (
+              <div key={idx} className="flex flex-wrap gap-2 items-center">
+                <span className="text-slate-500 w-8">{idx === 0 ? 'When' : 'and'}</span>
+                <select value={c.metric} onChange={(e) => updateCondition(idx, { metric: e.target.value as AlertCondition['metric'] })} className={inputClass}>
+                  {Object.entries(ALERT_METRIC_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+                </select>
+                <select value={c.op} onChange={(e) => updateCondition(idx, { op: e.target.value as AlertCondition['op'] })} className={inputClass}>
+                  <option value=">">&gt;</option>
+                  <option value="<">&lt;</option>
+                </select>
+                <input type="number" value={c.value} onChange={(e) => updateCondition(idx, { value: parseFloat(e.target.value) || 0 })} className={`${inputClass} w-24 font-mono`} />
+                {c.metric === 'modelProbChange' && (
+                  <>
+                    <span className="text-slate-500">within</span>
+                    <input type="number" min="1" value={c.windowMinutes || 10} onChange={(e) => updateCondition(idx, { windowMinutes: parseInt(e.target.value) || 10 })} className={`${inputClass} w-16 font-mono`} />
+                    <span className="text-slate-500">min</span>
+                  </>
+                )}
+                <button onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== idx) })} className="text-slate-500 hover:text-red-400">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, { ...EMPTY_CONDITION }] })} className="text-blue-400 hover:text-blue-300">
+              + Add condition
+            </button>
+
+            <div className="flex flex-wrap gap-4 items-center">
+              <label className="flex items-center gap-1 text-slate-400">
+                <input type="checkbox" checked={draft.channels.browser} onChange={(e) => setDraft({ ...draft, channels: { ...draft.channels, browser: e.target.checked } })} />
+                Browser
+              </label>
+              <label className="flex items-center gap-1 text-slate-400">
+                <input type="checkbox" checked={draft.channels.webhook} onChange={(e) => setDraft({ ...draft, channels: { ...draft.channels, webhook: e.target.checked } })} />
+                Webhook
+              </label>
+              <label className="flex items-center gap-1 text-slate-400">
+                Cooldown
+                <input type="number" min="0" value={draft.cooldownMinutes} onChange={(e) => setDraft({ ...draft, cooldownMinutes: parseInt(e.target.value) || 0 })} className={`${inputClass} w-16 font-mono`} />
+                min
+              </label>
+              <div className="ml-auto flex gap-2">
+                <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-white px-3 py-1">Cancel</button>
+                <button onClick={saveDraft} className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded font-bold">Save Rule</button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <BellRing size={14} className="text-amber-400" />
+          <h3 className="font-bold text-slate-200 text-sm">Fired Alerts</h3>
+          {history.length > 0 && (
+            <button onClick={onClearHistory} className="ml-auto text-xs text-slate-500 hover:text-white">Clear</button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-slate-500">Nothing fired yet.</p>
+        ) : (
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {history.map(a => (
+              <div key={a.id} className="text-xs border-b border-slate-700/50 pb-1">
+                <div className="flex justify-between">
+                  <span className="text-amber-400 font-semibold">{a.ruleName}</span>
+                  <span className="text-slate-500 font-mono">{new Date(a.firedAt).toLocaleString()}</span>
+                </div>
+                <div className="text-slate-300">{a.question}</div>
+                <div className="text-slate-500 font-mono">{a.message}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
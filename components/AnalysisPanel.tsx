@@ -1,56 +1,212 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { DeribitOption, PolyMarket } from '../types';
-import { 
-  calculateBlackScholesProb, 
-  runMonteCarloSimulation, 
-  extractStrikePrice, 
-  calculateSpread 
-} from '../utils/math';
-import { Calculator, AlertTriangle, TrendingUp, Info } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ContractSpec, CostSettings, ExpiryBracket, LlmProviderId, ModelCalibrations, MonteCarloResult, OptionQuote, PolyMarket } from '../types';
+import { StreamStatus } from '../services/deribitStream';
+import { MC_CANCELLED, MonteCarloTask, runContractMonteCarlo } from '../services/monteCarloPool';
+import { runModelJob } from '../services/modelWorker';
+import { DEFAULT_LLM_PROVIDER, getLlmProvider, interpretContract } from '../services/llm';
+import { calculateSpread, DEFAULT_MC_SEED } from '../utils/math';
+import { computeNetEdge, DEFAULT_COST_SETTINGS } from '../utils/costs';
+import { createIvLookup, priceContract, priceContractFromCallSpreads } from '../utils/pricing';
+import { parseContract, getContractStrike, getMonitoringMinutes } from '../utils/contractParser';
+import { fitVolSmile } from '../utils/smile';
+import { AltModel, priceContractWithModel } from '../utils/models';
+import { getUpperExpiryWeight } from '../utils/termStructure';
+import SmileChart from './SmileChart';
+import ExecutionPanel from './ExecutionPanel';
+import HedgeBuilder from './HedgeBuilder';
+import GreeksPanel from './GreeksPanel';
+import ModelComparison from './ModelComparison';
+import BarrierCrossCheck from './BarrierCrossCheck';
+import TradeRationale from './TradeRationale';
+import { Calculator, AlertTriangle, TrendingUp, Info, Sparkles } from 'lucide-react';
 
 interface Props {
   spotPrice: number;
   market: PolyMarket;
   polyEventTitle: string;
-  matchedOptions: DeribitOption[];
+  polyEventDescription?: string;
+  polyEventStartDate?: string;
+  matchedOptions: OptionQuote[];
+  expiryBracket?: ExpiryBracket | null;
+  venueName?: string; // Options venue the chain came from
+  streamStatus?: StreamStatus; // Set when live streaming is enabled
+  costSettings?: CostSettings;
+  llmProvider?: LlmProviderId; // Reads the rules and explains flagged edges
 }
 
-const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, matchedOptions }) => {
-  const [modelType, setModelType] = useState<'BS' | 'MC'>('BS');
+const CONTRACT_TYPE_LABELS: Record<ContractSpec['type'], string> = {
+  'close': 'Close',
+  'touch-up': 'Touch ↑',
+  'touch-down': 'Touch ↓',
+  'range': 'Range'
+};
+
+type ModelType = 'BS' | 'MC' | 'SPREAD' | 'MERTON' | 'HESTON' | 'BARRIER' | 'DENSITY';
+
+// While streaming, a running path simulation restarts only once spot has moved
+// this much (fractional) since it started, so a long touch run can finish
+const SIM_RESTART_SPOT_MOVE = 0.0025;
+
+const MODEL_NAMES: Record<ModelType, string> = {
+  BS: 'Black-Scholes',
+  MC: 'Monte Carlo',
+  SPREAD: 'call spread replication',
+  MERTON: 'Merton jump-diffusion',
+  HESTON: 'Heston stochastic vol',
+  BARRIER: 'closed-form barrier',
+  DENSITY: 'risk-neutral density'
+};
+
+const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, polyEventDescription, polyEventStartDate, matchedOptions, expiryBracket, venueName = 'Deribit', streamStatus, costSettings = DEFAULT_COST_SETTINGS, llmProvider = DEFAULT_LLM_PROVIDER }) => {
+  const [modelType, setModelType] = useState<ModelType>('BS');
   const [volMultiplier, setVolMultiplier] = useState<number>(1.0);
   const [manualStrike, setManualStrike] = useState<string>('');
   const [calculating, setCalculating] = useState(false);
   const [resultProb, setResultProb] = useState<number | null>(null);
+  const [mcResult, setMcResult] = useState<MonteCarloResult | null>(null);
+  const [mcSeed, setMcSeed] = useState<number>(DEFAULT_MC_SEED);
+  const [antithetic, setAntithetic] = useState(true);
+  const [controlVariate, setControlVariate] = useState(true);
+  const [showHedge, setShowHedge] = useState(false);
+  const [showGreeks, setShowGreeks] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [calibrations, setCalibrations] = useState<ModelCalibrations | null>(null);
+  const [llmSpec, setLlmSpec] = useState<ContractSpec | null>(null);
+  const [reading, setReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const llmName = getLlmProvider(llmProvider).name;
+
+  useEffect(() => {
+    setLlmSpec(null);
+    setReadError(null);
+  }, [market.id, llmProvider]);
+
+  // 1a. Optionally have the LLM read the rules; the regex parse stays the default
+  const readWithLlm = async () => {
+    setReading(true);
+    setReadError(null);
+    try {
+      setLlmSpec(await interpretContract(llmProvider, {
+        question: market.question,
+        description: polyEventDescription,
+        eventTitle: polyEventTitle,
+        startDate: polyEventStartDate,
+        endDate: market.endDate,
+        spotPrice
+      }));
+    } catch (err: any) {
+      setReadError(err.message || 'Failed to read the contract');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  // Neutral "reach/hit" wording is read against the spot when the panel opened,
+  // so live ticks don't re-parse the contract
+  const [parseSpot, setParseSpot] = useState(spotPrice);
+  useEffect(() => {
+    if (!parseSpot && spotPrice) setParseSpot(spotPrice);
+  }, [parseSpot, spotPrice]);
+
+  // 1. Parse the contract (type, bounds, window, source)
+  const contractSpec = useMemo((): ContractSpec => {
+    const parsed = llmSpec ?? parseContract({
+      question: market.question,
+      description: polyEventDescription,
+      eventTitle: polyEventTitle,
+      startDate: polyEventStartDate,
+      endDate: market.endDate,
+      spotPrice: parseSpot
+    });
+    if (getContractStrike(parsed) !== null) return parsed;
 
-  // 1. Determine Strike Price
-  const strikePrice = useMemo(() => {
-    // Try to extract from specific market question first, then event title
-    const s1 = extractStrikePrice(market.question);
-    if (s1) return s1;
-    const s2 = extractStrikePrice(polyEventTitle);
-    if (s2) return s2;
     // Try manual input if parsing fails
-    return parseFloat(manualStrike) || 0;
-  }, [market.question, polyEventTitle, manualStrike]);
+    const manual = parseFloat(manualStrike);
+    if (!manual) return parsed;
+    return {
+      ...parsed,
+      direction: 'above',
+      type: 'close',
+      lowerBound: manual,
+      upperBound: null,
+      confidence: 1,
+      explanation: ['Manual strike override: Yes if price is above the strike at resolution.']
+    };
+  }, [market.question, market.endDate, polyEventTitle, polyEventDescription, polyEventStartDate, parseSpot, manualStrike, llmSpec]);
+
+  const strikePrice = getContractStrike(contractSpec) || 0;
+  const isTouchContract = contractSpec.type === 'touch-up' || contractSpec.type === 'touch-down';
 
-  // 2. Find Relevant Deribit Volatility (Skew Logic)
+  // Touch monitoring follows the resolution source's candles; 1m when unstated
+  const sourceMonitoringMinutes = useMemo(() => getMonitoringMinutes(contractSpec), [contractSpec]);
+  const monitoringMinutes = sourceMonitoringMinutes ?? 1;
+
+  // 2. Find Relevant Listed Volatility (Skew Logic)
   // We want the option with strike closest to our target strike
   const relevantOption = useMemo(() => {
     if (!strikePrice || matchedOptions.length === 0) return null;
     
     // Sort by distance to strike
-    const sorted = [...matchedOptions].sort((a, b) => {
-      const strikeA = parseFloat(a.instrument_name.split('-')[2]);
-      const strikeB = parseFloat(b.instrument_name.split('-')[2]);
-      return Math.abs(strikeA - strikePrice) - Math.abs(strikeB - strikePrice);
-    });
+    const sorted = [...matchedOptions].sort((a, b) => Math.abs(a.strike - strikePrice) - Math.abs(b.strike - strikePrice));
     
     return sorted[0];
   }, [matchedOptions, strikePrice]);
 
+  // 2a. Fit the expiry's smile and read IV at the exact strike.
+  // Falls back to the nearest-strike mark IV if the chain is too thin to fit.
+  const smile = useMemo(() => fitVolSmile(matchedOptions, spotPrice), [matchedOptions, spotPrice]);
+
+  // 2c. Resolution between two listed expiries: interpolate total variance in time
+  const resolutionTimestamp = useMemo(() => new Date(market.endDate).getTime(), [market.endDate]);
+  const isInterpolated = !!expiryBracket && expiryBracket.lower !== expiryBracket.upper;
+  const upperWeight = expiryBracket ? getUpperExpiryWeight(expiryBracket, resolutionTimestamp) : 1;
+
+  // IV (percent) at any strike; range contracts need one per bound
+  const ivAt = useMemo(
+    () => createIvLookup(matchedOptions, expiryBracket, spotPrice, resolutionTimestamp),
+    [matchedOptions, expiryBracket, spotPrice, resolutionTimestamp]
+  );
+
+  const impliedVol = strikePrice ? ivAt(strikePrice) : null;
+
+  // Path simulations read a copy of the live inputs, refreshed on every change
+  // when not streaming and on SIM_RESTART_SPOT_MOVE moves when streaming
+  const [simInputs, setSimInputs] = useState({ spot: spotPrice, ivAt });
+  useEffect(() => {
+    setSimInputs(prev =>
+      !streamStatus || Math.abs(spotPrice / prev.spot - 1) >= SIM_RESTART_SPOT_MOVE ? { spot: spotPrice, ivAt } : prev
+    );
+  }, [spotPrice, ivAt, streamStatus]);
+
+  // 2b. Model-free replication: tight call spread(s) around each bound
+  const spreadPricing = useMemo(() => {
+    if (!strikePrice || matchedOptions.length === 0) return null;
+    return priceContractFromCallSpreads(contractSpec, matchedOptions);
+  }, [matchedOptions, contractSpec, strikePrice]);
+
+  // 2d. Jump and stochastic-vol models, calibrated once to the matched expiry on demand,
+  // in a worker: Heston calibration takes about a second. Reads the chain at start
+  // through a ref, so live ticks don't restart it.
+  const needsCalibration = modelType === 'MERTON' || modelType === 'HESTON' || showComparison;
+  const chainRef = useRef({ options: matchedOptions, spot: spotPrice });
+  chainRef.current = { options: matchedOptions, spot: spotPrice };
+  const hasChain = matchedOptions.length > 0;
+  useEffect(() => {
+    if (!needsCalibration || calibrations || !hasChain) return;
+    const { options, spot } = chainRef.current;
+    const task = runModelJob({ kind: 'calibrate', options, spot, now: Date.now() });
+    task.promise.then(setCalibrations).catch(err => {
+      if (err.message === MC_CANCELLED) return;
+      console.error(err);
+      setCalibrations({ merton: null, heston: null });
+    });
+    return () => task.cancel();
+  }, [needsCalibration, calibrations, hasChain]);
+
   // 3. Prepare Parameters
   const polyYesPrice = market.bestAsk || 0; // Buying "Yes" means paying the Ask
-  const polyNoPrice = market.bestBid || 0;
+  // Buying "No" is selling "Yes": pay 1 - best Yes bid (full No book in ExecutionPanel)
+  const polyNoPrice = market.bestBid ? 1 - market.bestBid : 0;
   
   const timeToExpiry = useMemo(() => {
     const end = new Date(market.endDate).getTime();
@@ -59,44 +215,126 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
     return Math.max(0, diffMs / (1000 * 60 * 60 * 24 * 365)); // Years
   }, [market.endDate]);
 
-  // 4. Calculate Logic
+  // Touch contracts are path-dependent: simulated unless priced analytically
+  const isSimulated = modelType === 'MC' || (isTouchContract && modelType !== 'BARRIER' && modelType !== 'SPREAD');
+
+  // 4. Calculate Logic (closed forms; simulations in 4b)
   useEffect(() => {
-    if (!strikePrice || !relevantOption) {
+    if (isSimulated) return;
+    setMcResult(null);
+    if (!strikePrice || !relevantOption || impliedVol === null) {
       setResultProb(null);
+      setCalculating(false);
       return;
     }
 
-    setCalculating(true);
-    
-    // Use a timeout to allow UI to update to "calculating" state for heavy MC
-    const timer = setTimeout(() => {
-      const sigma = (relevantOption.mark_iv || 0) / 100;
-      let prob = 0;
-
-      if (modelType === 'BS') {
-        prob = calculateBlackScholesProb(spotPrice, strikePrice, timeToExpiry, sigma);
-      } else {
-        // Monte Carlo
-        // Check if market implies "Touch" or "Close". Defaulting to Close for generic, 
-        // but user can infer based on multiplier.
-        // Assuming "Close" for now unless text says "Touch".
-        const isTouch = market.question.toLowerCase().includes('touch') || market.question.toLowerCase().includes('hit');
-        prob = runMonteCarloSimulation(spotPrice, strikePrice, timeToExpiry, sigma, 0.04, 50000, volMultiplier, isTouch);
+    if (modelType === 'SPREAD') {
+      setResultProb(spreadPricing ? spreadPricing.midProb : null);
+      setCalculating(false);
+      return;
+    }
+
+    if (modelType === 'MERTON' || modelType === 'HESTON') {
+      const calibration = modelType === 'MERTON' ? calibrations?.merton : calibrations?.heston;
+      if (!calibrations) {
+        setCalculating(true);
+        return;
+      }
+      if (!calibration) {
+        setResultProb(null);
+        setCalculating(false);
+        return;
       }
-      
-      setResultProb(prob);
+      // Close/range only here: closed forms, cheap enough for every tick
+      const model: AltModel = modelType === 'MERTON'
+        ? { type: 'MERTON', params: calibrations.merton!.params }
+        : { type: 'HESTON', params: calibrations.heston!.params };
+      setResultProb(priceContractWithModel(contractSpec, model, spotPrice, timeToExpiry));
       setCalculating(false);
-    }, 100);
+      return;
+    }
 
-    return () => clearTimeout(timer);
-  }, [spotPrice, strikePrice, timeToExpiry, relevantOption, modelType, volMultiplier]);
+    const params = {
+      spot: spotPrice,
+      T: timeToExpiry,
+      ivAt: (K: number) => ivAt(K) ?? 0,
+      model: modelType,
+      monitoringMinutes,
+      volMultiplier
+    };
+
+    setResultProb(priceContract(contractSpec, params));
+    setCalculating(false);
+  }, [isSimulated, spotPrice, strikePrice, timeToExpiry, relevantOption, impliedVol, ivAt, contractSpec, spreadPricing, modelType, monitoringMinutes, volMultiplier, calibrations]);
+
+  // 4b. Simulate off the main thread; a newer input cancels the running job
+  useEffect(() => {
+    if (!isSimulated) return;
+    setMcResult(null);
+    const strike = getContractStrike(contractSpec);
+    if (!strike || simInputs.ivAt(strike) === null) {
+      setResultProb(null);
+      setCalculating(false);
+      return;
+    }
+
+    setCalculating(true);
+    const onError = (err: Error) => {
+      if (err.message !== MC_CANCELLED) {
+        console.error(err);
+        setCalculating(false);
+      }
+    };
+
+    let task: MonteCarloTask<unknown>;
+    if (modelType === 'MERTON' || modelType === 'HESTON') {
+      // Jump / stochastic-vol touch paths, in the model worker
+      if (!calibrations) return;
+      const calibration = modelType === 'MERTON' ? calibrations.merton : calibrations.heston;
+      if (!calibration) {
+        setResultProb(null);
+        setCalculating(false);
+        return;
+      }
+      const model = { type: modelType, params: calibration.params } as AltModel;
+      const job = runModelJob({ kind: 'price', spec: contractSpec, model, spot: simInputs.spot, T: timeToExpiry });
+      job.promise.then(prob => {
+        setResultProb(prob);
+        setCalculating(false);
+      }).catch(onError);
+      task = job;
+    } else {
+      const params = {
+        spot: simInputs.spot,
+        T: timeToExpiry,
+        ivAt: (K: number) => simInputs.ivAt(K) ?? 0,
+        model: 'MC' as const,
+        volMultiplier
+      };
+      const run = runContractMonteCarlo(contractSpec, params, { seed: mcSeed, antithetic, controlVariate });
+      run.promise.then(result => {
+        setResultProb(result ? result.prob : null);
+        setMcResult(result);
+        setCalculating(false);
+      }).catch(onError);
+      task = run;
+    }
+
+    return () => task.cancel();
+  }, [isSimulated, contractSpec, simInputs, timeToExpiry, modelType, calibrations, volMultiplier, mcSeed, antithetic, controlVariate]);
 
   // Spread Check
   const spread = calculateSpread(market.bestBid, market.bestAsk);
   const isLiquidityLow = spread > 5.0; // Warning if spread > 5%
 
   const edge = resultProb !== null ? (resultProb * 100) - (polyYesPrice * 100) : null;
-  const isGoodOpp = edge !== null && edge > 5.0; // >5% edge
+
+  // Net of fees, hedge costs and capital locked until resolution
+  const netEdge = useMemo(() => {
+    if (resultProb === null || !polyYesPrice) return null;
+    return computeNetEdge(resultProb, polyYesPrice, timeToExpiry, costSettings, spreadPricing ? spreadPricing.legs : null);
+  }, [resultProb, polyYesPrice, timeToExpiry, costSettings, spreadPricing]);
+  const isGoodOpp = netEdge !== null && netEdge.netEdge * 100 > costSettings.minNetEdgePct;
 
   if (!relevantOption && !manualStrike) {
     return (
@@ -105,7 +343,7 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
            <AlertTriangle size={16} />
            <span>Auto-analysis unavailable</span>
         </div>
-        <p className="mb-2">Could not automatically extract a valid Strike Price or find matching Deribit Options.</p>
+        <p className="mb-2">Could not automatically extract a valid Strike Price or find matching {venueName} Options.</p>
         <div className="flex flex-col gap-1">
             <label className="text-xs">Manual Strike Override:</label>
             <input 
@@ -116,6 +354,17 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
                 onChange={(e) => setManualStrike(e.target.value)}
             />
         </div>
+        {!llmSpec && (
+            <button
+                onClick={readWithLlm}
+                disabled={reading}
+                className="mt-3 flex items-center gap-1 text-xs text-violet-400 hover:text-violet-300 disabled:opacity-50"
+            >
+                <Sparkles size={12} />
+                {reading ? 'Reading the rules...' : `Read the rules with ${llmName}`}
+            </button>
+        )}
+        {readError && <p className="text-xs text-red-400 mt-1">{readError}</p>}
       </div>
     );
   }
@@ -125,11 +374,48 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
       <div className="flex items-center gap-2 mb-4 border-b border-slate-800 pb-2">
         <Calculator size={18} className="text-blue-400" />
         <h3 className="font-bold text-slate-200">Probability Engine</h3>
+        {streamStatus && (
+            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded flex items-center gap-1 ${streamStatus === 'open' ? 'bg-green-500/20 text-green-400' : 'bg-amber-500/20 text-amber-400'}`}>
+                <span className={`w-1.5 h-1.5 rounded-full ${streamStatus === 'open' ? 'bg-green-400 animate-pulse' : 'bg-amber-400'}`} />
+                {streamStatus === 'open' ? 'LIVE' : streamStatus.toUpperCase()}
+            </span>
+        )}
         <span className="text-xs bg-slate-800 px-2 py-0.5 rounded text-slate-400 ml-auto">
-            Target: ${strikePrice?.toLocaleString()}
+            {CONTRACT_TYPE_LABELS[contractSpec.type]}
+            {contractSpec.type === 'close' && contractSpec.direction ? ` ${contractSpec.direction}` : ''}:{' '}
+            {contractSpec.type === 'range'
+              ? `$${contractSpec.lowerBound?.toLocaleString()} – $${contractSpec.upperBound?.toLocaleString()}`
+              : `$${strikePrice?.toLocaleString()}`}
         </span>
       </div>
 
+      {/* Parsed Contract */}
+      <div className="mb-4 text-xs bg-slate-950/50 border border-slate-800 rounded p-2 flex gap-2">
+        <Info size={14} className="text-slate-500 shrink-0 mt-0.5" />
+        <div className="flex-1">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-400">
+                <span>Asset: <span className="text-slate-200 font-mono">{contractSpec.asset || '?'}</span></span>
+                <span>Source: <span className="text-slate-200">{contractSpec.resolutionSource || 'Unknown'}</span></span>
+                <span className="ml-auto">
+                    Parse confidence:{' '}
+                    <span className={`font-mono ${contractSpec.confidence >= 0.8 ? 'text-green-400' : contractSpec.confidence >= 0.5 ? 'text-amber-400' : 'text-red-400'}`}>
+                        {(contractSpec.confidence * 100).toFixed(0)}%
+                    </span>
+                </span>
+            </div>
+            <p className="text-slate-500 mt-1">{contractSpec.explanation.join(' ')}</p>
+            {readError && <p className="text-red-400 mt-1">{readError}. Using the regex parse.</p>}
+            <button
+                onClick={() => (llmSpec ? setLlmSpec(null) : readWithLlm())}
+                disabled={reading}
+                className="mt-1 flex items-center gap-1 text-violet-400 hover:text-violet-300 disabled:opacity-50"
+            >
+                <Sparkles size={12} />
+                {reading ? 'Reading the rules...' : llmSpec ? 'Back to the regex parse' : `Read the rules with ${llmName}`}
+            </button>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         
         {/* Column 1: Inputs */}
@@ -149,9 +435,52 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
                     >
                         Monte Carlo
                     </button>
+                    <button 
+                        onClick={() => setModelType('SPREAD')}
+                        className={`flex-1 text-xs py-1.5 rounded transition-colors ${modelType === 'SPREAD' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Call Spread
+                    </button>
+                    <button 
+                        onClick={() => setModelType('DENSITY')}
+                        className={`flex-1 text-xs py-1.5 rounded transition-colors ${modelType === 'DENSITY' ? 'bg-teal-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Density (RND)
+                    </button>
+                </div>
+                <div className="flex bg-slate-800 rounded p-1 mt-1">
+                    <button 
+                        onClick={() => setModelType('MERTON')}
+                        className={`flex-1 text-xs py-1.5 rounded transition-colors ${modelType === 'MERTON' ? 'bg-rose-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Jumps (Merton)
+                    </button>
+                    <button 
+                        onClick={() => setModelType('HESTON')}
+                        className={`flex-1 text-xs py-1.5 rounded transition-colors ${modelType === 'HESTON' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Stoch Vol (Heston)
+                    </button>
+                    <button 
+                        onClick={() => setModelType('BARRIER')}
+                        className={`flex-1 text-xs py-1.5 rounded transition-colors ${modelType === 'BARRIER' ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        Touch (Analytic)
+                    </button>
                 </div>
                 <p className="text-[10px] text-slate-600 mt-1">
-                    {modelType === 'BS' ? 'Standard Black-Scholes for Close price.' : 'Simulated paths. Handles barrier/touch events.'}
+                    {modelType === 'BS' && 'Standard Black-Scholes for Close price.'}
+                    {modelType === 'MC' && 'Simulated paths. Handles barrier/touch events.'}
+                    {modelType === 'BS' && isTouchContract && ' Touch contracts are still simulated.'}
+                    {modelType === 'DENSITY' && 'Integrates the risk-neutral density implied by the whole smile (Breeden-Litzenberger).'}
+                    {modelType === 'DENSITY' && isTouchContract && ' Touch contracts are still simulated.'}
+                    {modelType === 'SPREAD' && `Model-free. Replicates the binary with ${venueName} call spread quotes.`}
+                    {modelType === 'MERTON' && `Lognormal jumps calibrated to the matched ${venueName} expiry.`}
+                    {modelType === 'HESTON' && `Stochastic variance calibrated to the matched ${venueName} expiry.`}
+                    {(modelType === 'MERTON' || modelType === 'HESTON') && isTouchContract && ' Touch contracts are simulated.'}
+                    {modelType === 'BARRIER' && (isTouchContract
+                        ? `Closed-form one-touch, corrected for ${monitoringMinutes}m monitoring${sourceMonitoringMinutes === null ? ' (assumed)' : ''}.`
+                        : 'Closed-form one-touch for touch markets. Close/range contracts use Black-Scholes.')}
                 </p>
             </div>
 
@@ -169,6 +498,70 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
                     />
                 </div>
             )}
+
+            {(modelType === 'MC' || ((modelType === 'BS' || modelType === 'DENSITY') && isTouchContract)) && (
+                <div className="space-y-2 text-xs">
+                    <div className="flex items-center justify-between gap-2">
+                        <label className="text-slate-500">Seed</label>
+                        <input
+                            type="number"
+                            value={mcSeed}
+                            onChange={(e) => setMcSeed(parseInt(e.target.value) || 0)}
+                            className="bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-white w-28 font-mono text-right"
+                        />
+                    </div>
+                    <div className="flex gap-4 text-slate-400">
+                        <label className="flex items-center gap-1">
+                            <input type="checkbox" checked={antithetic} onChange={(e) => setAntithetic(e.target.checked)} />
+                            Antithetic
+                        </label>
+                        <label className="flex items-center gap-1">
+                            <input type="checkbox" checked={controlVariate} onChange={(e) => setControlVariate(e.target.checked)} />
+                            Control variate
+                        </label>
+                    </div>
+                </div>
+            )}
+
+            {modelType === 'BARRIER' && isTouchContract && (
+                <BarrierCrossCheck
+                    spec={contractSpec}
+                    spotPrice={spotPrice}
+                    timeToExpiry={timeToExpiry}
+                    ivAt={ivAt}
+                    monitoringMinutes={monitoringMinutes}
+                    monitoringAssumed={sourceMonitoringMinutes === null}
+                    simSpotPrice={simInputs.spot}
+                    simIvAt={simInputs.ivAt}
+                />
+            )}
+
+            {modelType === 'SPREAD' && (
+                <div className="text-xs space-y-1">
+                    {spreadPricing ? (
+                        spreadPricing.legs.map(leg => (
+                            <div key={leg.lowerCall.instrument} className="space-y-1 pb-1 border-b border-slate-800 last:border-0">
+                                <div className="flex justify-between">
+                                    <span className="text-slate-500">Long Call</span>
+                                    <span className="text-green-400 font-mono">{leg.lowerCall.instrument}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-slate-500">Short Call</span>
+                                    <span className="text-red-400 font-mono">{leg.upperCall.instrument}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-slate-500">Width</span>
+                                    <span className="text-slate-300 font-mono">${(leg.upperStrike - leg.lowerStrike).toLocaleString()}</span>
+                                </div>
+                            </div>
+                        ))
+                    ) : (
+                        <p className="text-amber-400">
+                            {isTouchContract ? 'Touch contracts cannot be replicated with a static call spread.' : `No ${venueName} calls bracket this strike.`}
+                        </p>
+                    )}
+                </div>
+            )}
         </div>
 
         {/* Column 2: Market Data */}
@@ -178,11 +571,19 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
                 <span className="text-slate-200 font-mono">${spotPrice.toLocaleString()}</span>
              </div>
              <div className="flex justify-between">
-                <span className="text-slate-500">Deribit IV</span>
+                <span className="text-slate-500">{isInterpolated ? 'Interp. IV' : smile ? 'Smile IV' : `${venueName} IV`}</span>
                 <span className="text-orange-400 font-mono">
-                    {relevantOption?.mark_iv.toFixed(1)}%
+                    {impliedVol?.toFixed(1)}%
                 </span>
              </div>
+             {expiryBracket && isInterpolated && (
+                <div className="flex justify-between">
+                    <span className="text-slate-500">Expiries</span>
+                    <span className="text-slate-300 font-mono text-xs">
+                        {expiryBracket.lower.code} ({((1 - upperWeight) * 100).toFixed(0)}%) / {expiryBracket.upper.code} ({(upperWeight * 100).toFixed(0)}%)
+                    </span>
+                </div>
+             )}
              <div className="flex justify-between items-center">
                 <span className="text-slate-500">Spread Risk</span>
                 <span className={`font-mono text-xs px-1.5 py-0.5 rounded ${isLiquidityLow ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>
@@ -195,6 +596,12 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
                     {(polyYesPrice * 100).toFixed(1)}%
                 </span>
              </div>
+             <div className="flex justify-between">
+                <span className="text-slate-500">Poly Price (No)</span>
+                <span className="text-slate-300 font-mono">
+                    {(polyNoPrice * 100).toFixed(1)}%
+                </span>
+             </div>
         </div>
 
         {/* Column 3: The Edge */}
@@ -208,16 +615,140 @@ const AnalysisPanel: React.FC<Props> = ({ spotPrice, market, polyEventTitle, mat
                         {resultProb ? (resultProb * 100).toFixed(1) : '-'}%
                     </span>
                     
+                    {mcResult && (
+                        <span className="text-xs text-slate-400 font-mono">
+                            ±{(mcResult.stdError * 100).toFixed(2)}% SE · 95% CI {(mcResult.ci95Low * 100).toFixed(1)}–{(mcResult.ci95High * 100).toFixed(1)}%
+                            <span className="block text-[10px] text-slate-600">{mcResult.paths > 0 ? `${mcResult.paths.toLocaleString()} paths` : 'Exact (expired or already touched)'}</span>
+                        </span>
+                    )}
+
+                    {modelType === 'SPREAD' && spreadPricing && (
+                        <span className="text-xs text-slate-400 font-mono">
+                            Sell {spreadPricing.bidProb !== null ? (spreadPricing.bidProb * 100).toFixed(1) : '-'}% / Buy {spreadPricing.askProb !== null ? (spreadPricing.askProb * 100).toFixed(1) : '-'}%
+                        </span>
+                    )}
+
                     {edge !== null && (
                         <div className={`w-full py-1 mt-2 rounded flex items-center justify-center gap-1 ${isGoodOpp ? 'bg-green-600/20 text-green-400' : 'bg-slate-800 text-slate-400'}`}>
                             <TrendingUp size={14} />
                             <span className="font-bold">Edge: {edge > 0 ? '+' : ''}{edge.toFixed(1)}%</span>
                         </div>
                     )}
+
+                    {netEdge && (
+                        <div className="w-full mt-2 text-[11px] font-mono space-y-0.5 text-left">
+                            <div className="flex justify-between text-slate-500">
+                                <span>Fees + hedge</span>
+                                <span>-{((netEdge.polyFee + (netEdge.hedgeFee || 0) + (netEdge.hedgeSlippage || 0)) * 100).toFixed(2)}%</span>
+                            </div>
+                            <div className="flex justify-between text-slate-500">
+                                <span>Capital cost</span>
+                                <span>-{(netEdge.capitalCost * 100).toFixed(2)}%</span>
+                            </div>
+                            <div className={`flex justify-between font-bold ${netEdge.netEdge > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                <span>Net edge</span>
+                                <span>{netEdge.netEdge > 0 ? '+' : ''}{(netEdge.netEdge * 100).toFixed(2)}%</span>
+                            </div>
+                            <div className="flex justify-between text-slate-400">
+                                <span>Return on capital</span>
+                                <span>{(netEdge.returnOnCapital * 100).toFixed(1)}%</span>
+                            </div>
+                            <div className="flex justify-between text-slate-400">
+                                <span>Annualized (simple)</span>
+                                <span>
+                                    {netEdge.annualizedReturn === null ? '-' : `${(netEdge.annualizedReturn * 100).toFixed(1)}%`}
+                                </span>
+                            </div>
+                            {netEdge.hedgeFee === null && (
+                                <p className="text-[10px] text-slate-600">No static hedge; {venueName} costs excluded.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {isGoodOpp && resultProb !== null && netEdge && (
+                        <TradeRationale
+                            provider={llmProvider}
+                            input={{
+                                question: market.question,
+                                spec: contractSpec,
+                                polyYesPrice,
+                                modelProb: resultProb,
+                                modelName: MODEL_NAMES[modelType],
+                                netEdge: netEdge.netEdge,
+                                daysToExpiry: timeToExpiry * 365,
+                                impliedVol,
+                                venueName
+                            }}
+                        />
+                    )}
                 </>
             )}
         </div>
       </div>
+
+      <div className="mt-4 pt-3 border-t border-slate-800">
+        <ExecutionPanel market={market} modelProb={calculating ? null : resultProb} />
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-slate-800">
+        {showGreeks ? (
+            <GreeksPanel
+                spec={contractSpec}
+                spotPrice={isSimulated ? simInputs.spot : spotPrice}
+                timeToExpiry={timeToExpiry}
+                ivAt={isSimulated ? simInputs.ivAt : ivAt}
+                model={modelType === 'MC' || modelType === 'BARRIER' || modelType === 'DENSITY' ? modelType : 'BS'}
+                monitoringMinutes={monitoringMinutes}
+                volMultiplier={volMultiplier}
+                polyYesPrice={polyYesPrice}
+            />
+        ) : (
+            <button onClick={() => setShowGreeks(true)} className="text-xs text-blue-400 hover:text-blue-300">
+                + Show Greeks & sensitivity grid
+            </button>
+        )}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-slate-800">
+        {showComparison ? (
+            <ModelComparison
+                spec={contractSpec}
+                spotPrice={simInputs.spot}
+                timeToExpiry={timeToExpiry}
+                ivAt={simInputs.ivAt}
+                calibrations={calibrations}
+                spreadProb={spreadPricing ? spreadPricing.midProb : null}
+                polyYesPrice={polyYesPrice}
+                onRecalibrate={() => setCalibrations(null)}
+            />
+        ) : (
+            <button onClick={() => setShowComparison(true)} className="text-xs text-blue-400 hover:text-blue-300">
+                + Compare models (BS, density, MC, Merton, Heston, call spread)
+            </button>
+        )}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-slate-800">
+        {showHedge ? (
+            <HedgeBuilder spec={contractSpec} options={matchedOptions} spotPrice={spotPrice} polyYesPrice={polyYesPrice} polyNoPrice={polyNoPrice} venueName={venueName} />
+        ) : (
+            <button onClick={() => setShowHedge(true)} className="text-xs text-emerald-400 hover:text-emerald-300">
+                + Build {venueName} hedge for a position
+            </button>
+        )}
+      </div>
+
+      {smile && (
+        <div className="mt-4 pt-3 border-t border-slate-800">
+            <div className="flex justify-between items-baseline mb-2">
+                <span className="text-xs text-slate-500 uppercase tracking-wider">Volatility Smile</span>
+                <span className="text-[10px] text-slate-600 font-mono">
+                    {smile.points.length} pts · Fwd ${smile.forward.toLocaleString()}
+                </span>
+            </div>
+            <SmileChart smile={smile} targetStrike={strikePrice || undefined} />
+        </div>
+      )}
     </div>
   );
 };
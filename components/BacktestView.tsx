@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { BacktestDataset, BacktestResult, BacktestRules } from '../types';
+import { DEFAULT_BACKTEST_RULES, runBacktest } from '../utils/backtest';
+import { getAllSnapshots } from '../services/snapshotStore';
+import { priceContractOffMainThread } from '../services/monteCarloPool';
+import { DEFAULT_MC_SEED } from '../utils/math';
+import { Database, FileJson, FlaskConical, Play, RefreshCw } from 'lucide-react';
+
+const WIDTH = 640;
+const HEIGHT = 140;
+const PAD = 28;
+
+const signedUsd = (v: number) => `${v >= 0 ? '+' : '-'}$${Math.abs(v).toFixed(2)}`;
+
+const RULE_FIELDS: { key: 'entryEdgePct' | 'exitEdgePct' | 'stakeUsd' | 'feePct'; label: string; step: number }[] = [
+  { key: 'entryEdgePct', label: 'Enter at edge ≥ (pts)', step: 0.5 },
+  { key: 'exitEdgePct', label: 'Exit at edge ≤ (pts)', step: 0.5 },
+  { key: 'stakeUsd', label: 'Stake per trade ($)', step: 10 },
+  { key: 'feePct', label: 'Fee per fill (%)', step: 0.1 }
+];
+
+/**
+ * Replays recorded snapshots (or a fixture file) through the entry/exit rules
+ * and settles on the resolved outcomes.
+ */
+const BacktestView: React.FC = () => {
+  const [dataset, setDataset] = useState<BacktestDataset | null>(null);
+  const [rules, setRules] = useState<BacktestRules>(DEFAULT_BACKTEST_RULES);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const marketCount = useMemo(() => new Set(dataset?.snapshots.map(s => s.marketKey)).size, [dataset]);
+
+  const questions = useMemo(() => {
+    const map: Record<string, string> = {};
+    dataset?.snapshots.forEach(s => { map[s.marketKey] = s.question; });
+    return map;
+  }, [dataset]);
+
+  const loadRecorded = async () => {
+    setError(null);
+    try {
+      const snapshots = await getAllSnapshots();
+      setDataset({ name: 'Recorded snapshots', snapshots, resolutions: {} });
+      setResult(null);
+    } catch (e: any) {
+      setError(e.message || 'Failed to read snapshots');
+    }
+  };
+
+  const loadFixture = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!Array.isArray(parsed.snapshots)) throw new Error('Fixture has no "snapshots" array');
+      setDataset({ name: parsed.name || file.name, snapshots: parsed.snapshots, resolutions: parsed.resolutions || {} });
+      setResult(null);
+    } catch (e: any) {
+      setError(`Could not load ${file.name}: ${e.message}`);
+    }
+  };
+
+  const run = async () => {
+    if (!dataset) return;
+    setRunning(true);
+    try {
+      // Simulated reprices run on the Monte Carlo pool, so the UI stays responsive
+      setResult(await runBacktest(dataset, rules, (spec, params) =>
+        priceContractOffMainThread(spec, params, { seed: DEFAULT_MC_SEED, antithetic: true, controlVariate: true }).promise
+      ));
+    } catch (e: any) {
+      setError(`Backtest failed: ${e.message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const setResolution = (marketKey: string, outcome: string) => {
+    if (!dataset) return;
+    const resolutions = { ...dataset.resolutions };
+    if (outcome === 'YES' || outcome === 'NO') resolutions[marketKey] = outcome;
+    else delete resolutions[marketKey];
+    setDataset({ ...dataset, resolutions });
+  };
+
+  const curve = useMemo(() => {
+    if (!result || result.equityCurve.length === 0) return null;
+    const points = [{ t: result.trades[0].entryTime, equity: 0 }, ...result.equityCurve];
+    const minT = points[0].t;
+    const maxT = points[points.length - 1].t;
+    const values = points.map(p => p.equity);
+    const minE = Math.min(0, ...values);
+    const maxE = Math.max(0, ...values);
+    const x = (t: number) => PAD + ((t - minT) / (maxT - minT || 1)) * (WIDTH - 2 * PAD);
+    const y = (e: number) => HEIGHT - PAD - ((e - minE) / (maxE - minE || 1)) * (HEIGHT - 2 * PAD);
+    return {
+      path: points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.t).toFixed(1)},${y(p.equity).toFixed(1)}`).join(' '),
+      zeroY: y(0),
+      minE, maxE
+    };
+  }, [result]);
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs font-mono';
+
+  return (
+    <div className="space-y-4">
+      {/* Data source */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 flex flex-wrap items-center gap-3 text-xs">
+        <FlaskConical size={16} className="text-emerald-400" />
+        <button onClick={loadRecorded} className="flex items-center gap-1 border border-slate-600 rounded px-3 py-1.5 text-slate-300 hover:text-white hover:border-emerald-500">
+          <Database size={12} /> Use Recorded Snapshots
+        </button>
+        <label className="flex items-center gap-1 border border-slate-600 rounded px-3 py-1.5 text-slate-300 hover:text-white hover:border-emerald-500 cursor-pointer">
+          <FileJson size={12} /> Load Fixture File
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => e.target.files?.[0] && loadFixture(e.target.files[0])} />
+        </label>
+        {dataset && (
+          <span className="text-slate-400">
+            <span className="text-slate-200">{dataset.name}</span>: {dataset.snapshots.length} snapshots, {marketCount} markets
+          </span>
+        )}
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+
+      {/* Rules */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 text-xs">
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-slate-400">
+            Model
+            <select value={rules.model} onChange={(e) => setRules({ ...rules, model: e.target.value as BacktestRules['model'] })} className={inputClass}>
+              <option value="BS">Black-Scholes</option>
+              <option value="MC">Monte Carlo</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Exit
+            <select value={rules.exitMode} onChange={(e) => setRules({ ...rules, exitMode: e.target.value as BacktestRules['exitMode'] })} className={inputClass}>
+              <option value="convergence">At convergence</option>
+              <option value="expiry">Hold to resolution</option>
+            </select>
+          </label>
+          {RULE_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="flex flex-col gap-1 text-slate-400">
+              {label}
+              <input
+                type="number"
+                step={step}
+                disabled={key === 'exitEdgePct' && rules.exitMode !== 'convergence'}
+                value={rules[key]}
+                onChange={(e) => setRules({ ...rules, [key]: parseFloat(e.target.value) || 0 })}
+                className={`${inputClass} w-24 disabled:opacity-40`}
+              />
+            </label>
+          ))}
+          <label className="flex items-center gap-1 text-slate-400 pb-1">
+            <input type="checkbox" checked={rules.allowNo} onChange={(e) => setRules({ ...rules, allowNo: e.target.checked })} />
+            Trade "No" side
+          </label>
+          <button
+            onClick={run}
+            disabled={!dataset || running}
+            className="ml-auto flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-4 py-1.5 rounded disabled:opacity-50"
+          >
+            {running ? <RefreshCw size={12} className="animate-spin" /> : <Play size={12} />} Run Backtest
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {[
+              { label: 'Total P&L', value: signedUsd(result.totalPnl), color: result.totalPnl >= 0 ? 'text-green-400' : 'text-red-400' },
+              { label: 'Return on Stake', value: result.totalStaked > 0 ? `${((result.totalPnl / result.totalStaked) * 100).toFixed(1)}%` : '-', color: 'text-white' },
+              { label: 'Trades', value: result.trades.length.toString(), color: 'text-white' },
+              { label: 'Hit Rate', value: result.hitRate !== null ? `${(result.hitRate * 100).toFixed(0)}%` : '-', color: 'text-white' },
+              { label: 'Max Drawdown', value: `$${result.maxDrawdown.toFixed(2)}`, color: 'text-amber-400' }
+            ].map(stat => (
+              <div key={stat.label} className="bg-slate-800 border border-slate-700 rounded-lg p-3">
+                <div className="text-[10px] text-slate-500 uppercase">{stat.label}</div>
+                <div className={`text-lg font-mono font-bold ${stat.color}`}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {result.skippedSnapshots > 0 && (
+            <p className="text-xs text-slate-500">{result.skippedSnapshots} snapshots skipped (no IV, no quote or unparseable strike).</p>
+          )}
+
+          {/* Unresolved markets */}
+          {result.unresolvedMarkets.length > 0 && (
+            <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 text-xs space-y-1">
+              <div className="text-amber-400">No resolution for {result.unresolvedMarkets.length} markets. Open positions there are marked at the last bid and excluded from the hit rate.</div>
+              {result.unresolvedMarkets.map(key => (
+                <div key={key} className="flex items-center gap-2 text-slate-300">
+                  <select value={dataset?.resolutions[key] || ''} onChange={(e) => setResolution(key, e.target.value)} className={inputClass}>
+                    <option value="">Unresolved</option>
+                    <option value="YES">Resolved Yes</option>
+                    <option value="NO">Resolved No</option>
+                  </select>
+                  {questions[key] || key}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Equity curve */}
+          {curve && (
+            <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                <line x1={PAD} y1={curve.zeroY} x2={WIDTH - PAD} y2={curve.zeroY} stroke="#334155" strokeDasharray="3 3" />
+                <path d={curve.path} fill="none" stroke="#34d399" strokeWidth={1.5} />
+                <text x={2} y={PAD} fontSize={9} fill="#64748b">{signedUsd(curve.maxE)}</text>
+                <text x={2} y={HEIGHT - PAD} fontSize={9} fill="#64748b">{signedUsd(curve.minE)}</text>
+              </svg>
+              <div className="text-[10px] text-slate-500 mt-1">Cumulative P&L by exit time</div>
+            </div>
+          )}
+
+          {/* Trade log */}
+          <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 border-b border-slate-700 text-left">
+                  <th className="p-2">Market</th>
+                  <th className="p-2">Side</th>
+                  <th className="p-2">Entry</th>
+                  <th className="p-2 text-right">Price</th>
+                  <th className="p-2 text-right">Model</th>
+                  <th className="p-2 text-right">Edge</th>
+                  <th className="p-2">Exit</th>
+                  <th className="p-2 text-right">Price</th>
+                  <th className="p-2 text-right">Fees</th>
+                  <th className="p-2 text-right">P&L</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {result.trades.map((t, i) => (
+                  <tr key={i} className="border-b border-slate-700/50">
+                    <td className="p-2 font-sans text-slate-300 max-w-xs truncate" title={t.question}>{t.question}</td>
+                    <td className={`p-2 ${t.side === 'YES' ? 'text-green-400' : 'text-red-400'}`}>{t.side}</td>
+                    <td className="p-2 text-slate-400">{new Date(t.entryTime).toLocaleString()}</td>
+                    <td className="p-2 text-right">{(t.entryPrice * 100).toFixed(1)}¢</td>
+                    <td className="p-2 text-right text-orange-400">{(t.entryModelProb * 100).toFixed(1)}%</td>
+                    <td className="p-2 text-right">+{t.entryEdge.toFixed(1)}</td>
+                    <td className="p-2 text-slate-400">
+                      {new Date(t.exitTime).toLocaleString()} <span className="text-slate-500">({t.exitReason})</span>
+                    </td>
+                    <td className="p-2 text-right">{(t.exitPrice * 100).toFixed(1)}¢</td>
+                    <td className="p-2 text-right text-slate-500">${t.fees.toFixed(2)}</td>
+                    <td className={`p-2 text-right font-bold ${t.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>{signedUsd(t.pnl)}</td>
+                  </tr>
+                ))}
+                {result.trades.length === 0 && (
+                  <tr><td colSpan={10} className="p-4 text-center text-slate-500 font-sans">No trades met the entry rule.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestView;
@@ -0,0 +1,96 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ContractSpec, MonteCarloResult } from '../types';
+import { MC_CANCELLED, runContractMonteCarlo } from '../services/monteCarloPool';
+import { DEFAULT_MC_SEED } from '../utils/math';
+import { priceContract } from '../utils/pricing';
+
+interface Props {
+  spec: ContractSpec;
+  spotPrice: number;
+  timeToExpiry: number; // Years
+  ivAt: (strike: number) => number | null;
+  monitoringMinutes: number;
+  monitoringAssumed: boolean; // Resolution source didn't state a candle size
+  // Spot and IV for the Monte Carlo run, held steady between large spot moves
+  // so streaming ticks don't restart it
+  simSpotPrice: number;
+  simIvAt: (strike: number) => number | null;
+}
+
+const MINUTES_PER_DAY = 60 * 24;
+
+const pct = (v: number | null) => (v === null ? '—' : `${(v * 100).toFixed(2)}%`);
+
+/**
+ * Analytic one-touch probabilities at several monitoring frequencies next to
+ * the daily-step Monte Carlo, so the gap from missed intraday touches is visible.
+ */
+const BarrierCrossCheck: React.FC<Props> = ({ spec, spotPrice, timeToExpiry, ivAt, monitoringMinutes, monitoringAssumed, simSpotPrice, simIvAt }) => {
+  const [mcResult, setMcResult] = useState<MonteCarloResult | null>(null);
+  const [mcRunning, setMcRunning] = useState(false);
+
+  const analytic = useMemo(() => {
+    const params = { spot: spotPrice, T: timeToExpiry, ivAt: (K: number) => ivAt(K) ?? 0, model: 'BARRIER' as const };
+    return {
+      continuous: priceContract(spec, { ...params, monitoringMinutes: 0 }),
+      source: priceContract(spec, { ...params, monitoringMinutes }),
+      daily: priceContract(spec, { ...params, monitoringMinutes: MINUTES_PER_DAY })
+    };
+  }, [spec, spotPrice, timeToExpiry, ivAt, monitoringMinutes]);
+
+  useEffect(() => {
+    setMcResult(null);
+    setMcRunning(true);
+    const params = { spot: simSpotPrice, T: timeToExpiry, ivAt: (K: number) => simIvAt(K) ?? 0, model: 'MC' as const };
+    const task = runContractMonteCarlo(spec, params, { seed: DEFAULT_MC_SEED, antithetic: true, controlVariate: true });
+    task.promise.then(result => {
+      setMcResult(result);
+      setMcRunning(false);
+    }).catch(err => {
+      if (err.message !== MC_CANCELLED) {
+        console.error(err);
+        setMcRunning(false);
+      }
+    });
+    return () => task.cancel();
+  }, [spec, simSpotPrice, timeToExpiry, simIvAt]);
+
+  const missedByDaily = analytic.source !== null && analytic.daily !== null ? analytic.source - analytic.daily : null;
+  // MC should sit on the daily-monitoring line; flag anything beyond 3 SE
+  const mcMismatch = mcResult && analytic.daily !== null && mcResult.stdError > 0
+    ? Math.abs(mcResult.prob - analytic.daily) > 3 * mcResult.stdError
+    : false;
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex justify-between text-slate-500">
+        <span>Continuous</span>
+        <span className="font-mono">{pct(analytic.continuous)}</span>
+      </div>
+      <div className="flex justify-between text-white">
+        <span>{monitoringMinutes}m candles{monitoringAssumed ? ' (assumed)' : ''}</span>
+        <span className="font-mono">{pct(analytic.source)}</span>
+      </div>
+      <div className="flex justify-between text-slate-500">
+        <span>Daily closes</span>
+        <span className="font-mono">{pct(analytic.daily)}</span>
+      </div>
+      <div className="flex justify-between text-purple-300">
+        <span>Monte Carlo (daily steps)</span>
+        <span className="font-mono">
+          {mcRunning ? '…' : mcResult ? `${pct(mcResult.prob)} ± ${(mcResult.stdError * 100).toFixed(2)}` : '—'}
+        </span>
+      </div>
+      {missedByDaily !== null && (
+        <p className="text-[10px] text-slate-600 pt-1">
+          Daily stepping misses {(missedByDaily * 100).toFixed(1)} pts of touch probability at this monitoring frequency.
+        </p>
+      )}
+      {mcMismatch && (
+        <p className="text-[10px] text-amber-400">Monte Carlo is more than 3 SE from the daily analytic value.</p>
+      )}
+    </div>
+  );
+};
+
+export default BarrierCrossCheck;
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { PricedBucket } from '../types';
+import { formatBucketLabel } from '../utils/buckets';
+import { ArrowDownRight, ArrowUpRight } from 'lucide-react';
+
+interface Props {
+  buckets: PricedBucket[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD_X = 8;
+const PAD_TOP = 10;
+const PAD_BOTTOM = 28;
+
+/**
+ * Side-by-side histogram of Polymarket bucket prices vs the options-implied model distribution.
+ */
+const BucketDistribution: React.FC<Props> = ({ buckets }) => {
+  const { maxProb, polySum, modelSum, mostOver, mostUnder } = useMemo(() => {
+    const priced = buckets.filter(b => b.mispricing !== null);
+    const byMispricing = [...priced].sort((a, b) => b.mispricing! - a.mispricing!);
+    return {
+      maxProb: Math.max(0.01, ...buckets.map(b => Math.max(b.polyProb, b.modelProb || 0))),
+      polySum: buckets.reduce((sum, b) => sum + b.polyProb, 0),
+      modelSum: priced.reduce((sum, b) => sum + b.modelProb!, 0),
+      mostOver: byMispricing.length > 0 && byMispricing[0].mispricing! > 0 ? byMispricing[0] : null,
+      mostUnder: byMispricing.length > 0 && byMispricing[byMispricing.length - 1].mispricing! < 0 ? byMispricing[byMispricing.length - 1] : null
+    };
+  }, [buckets]);
+
+  const slot = (WIDTH - 2 * PAD_X) / buckets.length;
+  const barWidth = Math.max(2, slot * 0.35);
+  const plotHeight = HEIGHT - PAD_TOP - PAD_BOTTOM;
+  const barHeight = (p: number) => (p / maxProb) * plotHeight;
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <line x1={PAD_X} y1={HEIGHT - PAD_BOTTOM} x2={WIDTH - PAD_X} y2={HEIGHT - PAD_BOTTOM} stroke="#334155" />
+        {buckets.map((b, i) => {
+          const x = PAD_X + i * slot + slot / 2;
+          const polyH = barHeight(b.polyProb);
+          const modelH = barHeight(b.modelProb || 0);
+          return (
+            <g key={b.market.id}>
+              <rect x={x - barWidth} y={HEIGHT - PAD_BOTTOM - polyH} width={barWidth} height={polyH} fill="#3b82f6">
+                <title>{`${formatBucketLabel(b)} Poly: ${(b.polyProb * 100).toFixed(1)}%`}</title>
+              </rect>
+              <rect x={x} y={HEIGHT - PAD_BOTTOM - modelH} width={barWidth} height={modelH} fill="#fb923c">
+                <title>{`${formatBucketLabel(b)} Model: ${b.modelProb !== null ? (b.modelProb * 100).toFixed(1) + '%' : 'n/a'}`}</title>
+              </rect>
+              <text x={x} y={HEIGHT - PAD_BOTTOM + 12} fontSize={9} fill="#94a3b8" textAnchor="middle">
+                {formatBucketLabel(b)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-[10px] text-slate-500">
+        <span><span className="text-blue-500">■</span> Polymarket ({(polySum * 100).toFixed(1)}% total)</span>
+        <span><span className="text-orange-400">■</span> Options model ({(modelSum * 100).toFixed(1)}% total)</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+        <div className="bg-red-500/10 border border-red-500/20 rounded p-2">
+          <div className="flex items-center gap-1 text-red-400 font-semibold mb-1">
+            <ArrowUpRight size={14} /> Most Overpriced (sell Yes)
+          </div>
+          {mostOver ? (
+            <span className="font-mono text-slate-300">
+              {formatBucketLabel(mostOver)}: {(mostOver.polyProb * 100).toFixed(1)}% vs {(mostOver.modelProb! * 100).toFixed(1)}% (+{(mostOver.mispricing! * 100).toFixed(1)}pts)
+            </span>
+          ) : <span className="text-slate-500">None</span>}
+        </div>
+        <div className="bg-green-500/10 border border-green-500/20 rounded p-2">
+          <div className="flex items-center gap-1 text-green-400 font-semibold mb-1">
+            <ArrowDownRight size={14} /> Most Underpriced (buy Yes)
+          </div>
+          {mostUnder ? (
+            <span className="font-mono text-slate-300">
+              {formatBucketLabel(mostUnder)}: {(mostUnder.polyProb * 100).toFixed(1)}% vs {(mostUnder.modelProb! * 100).toFixed(1)}% ({(mostUnder.mispricing! * 100).toFixed(1)}pts)
+            </span>
+          ) : <span className="text-slate-500">None</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BucketDistribution;
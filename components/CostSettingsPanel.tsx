@@ -0,0 +1,58 @@
+import React from 'react';
+import { CostSettings } from '../types';
+import { DEFAULT_COST_SETTINGS } from '../utils/costs';
+import { Settings, X } from 'lucide-react';
+
+interface Props {
+  settings: CostSettings;
+  onChange: (settings: CostSettings) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof CostSettings; label: string; hint: string; step: number }[] = [
+  { key: 'polyTakerFeePct', label: 'Polymarket Taker Fee (%)', hint: 'Of trade notional', step: 0.1 },
+  { key: 'kalshiFeeRate', label: 'Kalshi Fee Rate', hint: '× P × (1 − P) per contract', step: 0.01 },
+  { key: 'deribitFeePct', label: 'Deribit Option Fee (%)', hint: 'Of underlying, per contract', step: 0.01 },
+  { key: 'deribitFeeCapPct', label: 'Deribit Fee Cap (%)', hint: 'Of option premium', step: 0.5 },
+  { key: 'hedgeSlippagePct', label: 'Hedge Slippage (%)', hint: 'Of hedge premium', step: 0.5 },
+  { key: 'capitalCostPct', label: 'Cost of Capital (% p.a.)', hint: 'Charged until resolution', step: 0.5 },
+  { key: 'minNetEdgePct', label: 'Good Opportunity Threshold (%)', hint: 'Minimum net edge', step: 0.5 }
+];
+
+const CostSettingsPanel: React.FC<Props> = ({ settings, onChange, onClose }) => (
+  <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 shadow-xl w-80">
+    <div className="flex items-center gap-2 mb-3 border-b border-slate-700 pb-2">
+      <Settings size={16} className="text-blue-400" />
+      <h3 className="font-bold text-sm text-slate-200">Cost Model</h3>
+      <button onClick={onClose} className="ml-auto text-slate-500 hover:text-white">
+        <X size={16} />
+      </button>
+    </div>
+    <div className="space-y-3">
+      {FIELDS.map(({ key, label, hint, step }) => (
+        <div key={key} className="flex items-center justify-between gap-3">
+          <div>
+            <label className="block text-xs text-slate-300">{label}</label>
+            <span className="text-[10px] text-slate-500">{hint}</span>
+          </div>
+          <input
+            type="number"
+            step={step}
+            min={0}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white w-20 text-xs font-mono text-right"
+            value={settings[key]}
+            onChange={(e) => onChange({ ...settings, [key]: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+      ))}
+    </div>
+    <button
+      onClick={() => onChange(DEFAULT_COST_SETTINGS)}
+      className="mt-4 text-xs text-slate-500 hover:text-white"
+    >
+      Reset to defaults
+    </button>
+  </div>
+);
+
+export default CostSettingsPanel;
@@ -0,0 +1,182 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { CostSettings, CrossVenueMatch, OptionsVenueId, PredictionVenueId } from '../types';
+import { fetchCrossVenueMatches } from '../services/crossVenue';
+import { getOptionsProvider } from '../services/venues';
+import { DEFAULT_MAX_RESOLUTION_GAP_MINUTES } from '../utils/crossVenue';
+import { AlertTriangle, ArrowLeftRight, ExternalLink, RefreshCw } from 'lucide-react';
+
+interface Props {
+  costSettings: CostSettings;
+  optionsVenue: OptionsVenueId;
+}
+
+const VENUE_LABELS: Record<PredictionVenueId, string> = {
+  polymarket: 'Polymarket',
+  kalshi: 'Kalshi'
+};
+
+const pct = (v: number | null | undefined) => (v === null || v === undefined ? '-' : `${(v * 100).toFixed(1)}%`);
+
+const describeSpec = ({ spec }: CrossVenueMatch) => {
+  const fmt = (v: number | null) => (v === null ? '?' : `$${v.toLocaleString()}`);
+  if (spec.type === 'range') return `${fmt(spec.lowerBound)} – ${fmt(spec.upperBound)}`;
+  return spec.direction === 'below' ? `Below ${fmt(spec.upperBound)}` : `Above ${fmt(spec.lowerBound)}`;
+};
+
+/**
+ * Polymarket markets paired with the equivalent Kalshi contract, priced side
+ * by side with the options-implied model. Flags pure cross-venue arbitrage:
+ * Yes on one venue plus No on the other for less than $1 after fees.
+ */
+const CrossVenueView: React.FC<Props> = ({ costSettings, optionsVenue }) => {
+  const [query, setQuery] = useState('bitcoin above');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<Awaited<ReturnType<typeof fetchCrossVenueMatches>> | null>(null);
+  const venueName = getOptionsProvider(optionsVenue).name;
+
+  const run = useCallback(async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await fetchCrossVenueMatches(query, optionsVenue, costSettings));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to fetch market data.');
+    } finally {
+      setLoading(false);
+    }
+  }, [query, optionsVenue, costSettings]);
+
+  // One card per Polymarket event, like the search results
+  const byEvent = useMemo(() => {
+    const groups: Record<string, CrossVenueMatch[]> = {};
+    (result?.matches || []).forEach(m => {
+      (groups[m.polyEvent.id] = groups[m.polyEvent.id] || []).push(m);
+    });
+    return Object.values(groups);
+  }, [result]);
+
+  const arbCount = result ? result.matches.filter(m => (m.boxes[0]?.profit ?? 0) > 0).length : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <ArrowLeftRight size={18} className="text-teal-400" />
+          <h3 className="font-bold text-slate-200">Cross-Venue: Polymarket vs Kalshi</h3>
+          <form onSubmit={run} className="flex items-center gap-2 ml-auto">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Polymarket query, e.g. 'bitcoin above'"
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs w-56"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center gap-1.5 bg-teal-600 hover:bg-teal-500 text-white text-xs font-bold px-3 py-1.5 rounded disabled:opacity-50"
+            >
+              <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+              Match
+            </button>
+          </form>
+        </div>
+        <p className="text-[10px] text-slate-500">
+          Contracts match on asset, strike, direction and a resolution time within {DEFAULT_MAX_RESOLUTION_GAP_MINUTES} minutes.
+          Box cost = Yes ask on one venue + No ask on the other + taker fees; below $1 pays out either way.
+          The venues settle on different price sources (Polymarket usually Binance, Kalshi the CF Benchmarks index), so a price exactly at the strike can resolve differently.
+        </p>
+        {result && (
+          <p className="text-[10px] text-slate-500">
+            {result.matches.length} matched of {result.polymarketCount} Polymarket markets and {result.kalshiCount} Kalshi contracts
+            {arbCount > 0 && <span className="text-green-400 font-bold"> · {arbCount} arbitrage</span>}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-lg text-center">{error}</div>
+      )}
+
+      {result && byEvent.length === 0 && !loading && (
+        <div className="text-center py-12 text-slate-500 border border-dashed border-slate-800 rounded-lg text-sm">
+          No equivalent Kalshi contracts found. Kalshi lists BTC and ETH price contracts only.
+        </div>
+      )}
+
+      {byEvent.map(matches => {
+        const { polyEvent } = matches[0];
+        return (
+          <div key={polyEvent.id} className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-lg">
+            <div className="p-6 bg-gradient-to-r from-slate-800 to-slate-900">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="bg-blue-600 text-white text-xs font-bold px-2 py-0.5 rounded">POLYMARKET</span>
+                <span className="bg-teal-600 text-white text-xs font-bold px-2 py-0.5 rounded">KALSHI</span>
+                <span className="text-slate-400 text-xs font-mono">{polyEvent.ticker}</span>
+              </div>
+              <h3 className="text-xl font-bold text-white">{polyEvent.title}</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-collapse text-xs">
+                <thead>
+                  <tr className="text-slate-500 border-b border-slate-700">
+                    <th className="p-2">Contract</th>
+                    <th className="p-2 text-right">Poly Yes (B / A)</th>
+                    <th className="p-2 text-right">Kalshi Yes (B / A)</th>
+                    <th className="p-2 text-right">{venueName} model</th>
+                    <th className="p-2 text-right">Gap</th>
+                    <th className="p-2 text-right">Best box</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {matches.map(m => {
+                    const box = m.boxes[0];
+                    const isArb = !!box && box.profit > 0;
+                    return (
+                      <tr key={m.key} className={`border-b border-slate-800/50 ${isArb ? 'bg-green-500/5' : ''}`}>
+                        <td className="p-2 font-sans">
+                          <div className="text-slate-200">{describeSpec(m)}</div>
+                          <div className="text-[10px] text-slate-500 flex items-center gap-1">
+                            {m.kalshi.id}
+                            {m.kalshi.url && (
+                              <a href={m.kalshi.url} target="_blank" rel="noreferrer" className="hover:text-white"><ExternalLink size={10} /></a>
+                            )}
+                          </div>
+                        </td>
+                        <td className="p-2 text-right text-slate-300">{pct(m.market.bestBid || null)} / {pct(m.market.bestAsk || null)}</td>
+                        <td className="p-2 text-right text-slate-300">{pct(m.kalshi.yesBid)} / {pct(m.kalshi.yesAsk)}</td>
+                        <td className="p-2 text-right text-orange-400">{pct(m.modelProb)}</td>
+                        <td className={`p-2 text-right ${Math.abs(m.resolutionGapMinutes) > 0 ? 'text-amber-400' : 'text-slate-500'}`}>
+                          {m.resolutionGapMinutes === 0 ? '0m' : `${m.resolutionGapMinutes > 0 ? '+' : ''}${m.resolutionGapMinutes.toFixed(0)}m`}
+                        </td>
+                        <td className="p-2 text-right">
+                          {box ? (
+                            <div className="flex flex-col items-end">
+                              <span className={isArb ? 'text-green-400 font-bold' : 'text-slate-300'}>
+                                ${box.cost.toFixed(3)} {isArb && <span className="text-[10px] bg-green-600 text-white px-1 rounded ml-1">ARB +{(box.profit * 100).toFixed(1)}¢</span>}
+                              </span>
+                              <span className="text-[10px] text-slate-500 font-sans">
+                                Yes {VENUE_LABELS[box.buyYesOn]} {pct(box.yesPrice)} + No {VENUE_LABELS[box.buyNoOn]} {pct(box.noPrice)} + fees {(box.fees * 100).toFixed(1)}¢
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-slate-600 flex items-center justify-end gap-1"><AlertTriangle size={10} /> No quotes</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CrossVenueView;
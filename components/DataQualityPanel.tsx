@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { ArbitrageOpportunity, DataQualityFlag, DataQualityKind } from '../types';
+import { clearValidationIssues, getValidationIssues } from '../services/validation';
+import { assessDataQuality } from '../utils/dataQuality';
+import { ChevronDown, ChevronUp, ShieldAlert } from 'lucide-react';
+
+interface Props {
+  opportunities: ArbitrageOpportunity[];
+}
+
+const KIND_LABELS: Record<DataQualityKind, string> = {
+  'stale-quote': 'Stale quotes',
+  'missing-bid': 'Missing bids',
+  'zero-volume': 'Zero volume',
+  'iv-outlier': 'IV outlier',
+  'crossed-book': 'Crossed book'
+};
+
+/**
+ * Records the API boundary repaired or dropped, and quality flags on the
+ * loaded opportunities, so bad inputs are visible before they reach the edge.
+ */
+const DataQualityPanel: React.FC<Props> = ({ opportunities }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [clearedAt, setClearedAt] = useState(0);
+
+  // Issues are recorded while fetching, so re-read them whenever results change
+  const issues = useMemo(() => getValidationIssues(), [opportunities, clearedAt]);
+  const flagged = useMemo(
+    () => opportunities
+      .map(opp => ({ title: opp.polyEvent.title, flags: assessDataQuality(opp) }))
+      .filter(e => e.flags.length > 0),
+    [opportunities]
+  );
+
+  const allFlags: DataQualityFlag[] = flagged.flatMap(e => e.flags);
+  const errors = allFlags.filter(f => f.severity === 'error').length;
+  const warnings = allFlags.length - errors;
+  const dropped = issues.filter(i => i.action === 'dropped').length;
+  const repaired = issues.length - dropped;
+
+  if (allFlags.length === 0 && issues.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800 border border-amber-900/40 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-4 py-3 text-left hover:bg-slate-900/50 transition-colors"
+      >
+        <ShieldAlert size={16} className={errors > 0 || dropped > 0 ? 'text-red-400' : 'text-amber-400'} />
+        <span className="font-bold text-sm text-slate-200">Data Quality</span>
+        <span className="text-xs text-slate-500">
+          {errors > 0 && <span className="text-red-400">{errors} errors · </span>}
+          {warnings} warnings · {repaired} records repaired · {dropped} dropped
+        </span>
+        <span className="ml-auto text-slate-400">{expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 text-xs animate-fadeIn">
+          {flagged.map(({ title, flags }) => (
+            <div key={title}>
+              <h4 className="text-slate-300 font-semibold mb-1">{title}</h4>
+              <ul className="space-y-0.5">
+                {flags.map((f, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className={`shrink-0 w-24 ${f.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>{KIND_LABELS[f.kind]}</span>
+                    <span className="text-slate-400 font-mono shrink-0 max-w-[40%] truncate" title={f.subject}>{f.subject}</span>
+                    <span className="text-slate-500">{f.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          {issues.length > 0 && (
+            <div>
+              <div className="flex items-center mb-1">
+                <h4 className="text-slate-300 font-semibold">Rejected or repaired at the API boundary</h4>
+                <button
+                  onClick={() => { clearValidationIssues(); setClearedAt(Date.now()); }}
+                  className="ml-auto text-slate-500 hover:text-white"
+                >
+                  Clear
+                </button>
+              </div>
+              <ul className="space-y-0.5">
+                {issues.map(issue => (
+                  <li key={`${issue.source}|${issue.path}|${issue.message}`} className="flex gap-2">
+                    <span className={`shrink-0 w-16 ${issue.action === 'dropped' ? 'text-red-400' : 'text-amber-400'}`}>{issue.action}</span>
+                    <span className="text-slate-500 shrink-0">{issue.source}</span>
+                    <span className="text-slate-400 font-mono shrink-0">{issue.path}</span>
+                    <span className="text-slate-500">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
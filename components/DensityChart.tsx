@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { ContractSpec, RiskNeutralDensity } from '../types';
+import { priceContractFromDensity } from '../utils/density';
+
+interface Props {
+  densities: RiskNeutralDensity[]; // One per matched expiry
+  spotPrice: number;
+  spec: ContractSpec | null; // Main contract, shaded where "Yes" wins
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PAD = 28;
+
+const COLORS = ['#fb923c', '#a78bfa', '#38bdf8'];
+
+const formatPrice = (v: number) => (v >= 1000 ? `${(v / 1000).toFixed(1)}k` : v.toFixed(0));
+
+/**
+ * Risk-neutral density of the price at each matched listed expiry,
+ * with the contract's "Yes" region shaded and its integrated probability.
+ */
+const DensityChart: React.FC<Props> = ({ densities, spotPrice, spec }) => {
+  const chart = useMemo(() => {
+    if (densities.length === 0) return null;
+    const minX = Math.min(...densities.map(d => d.strikes[0]));
+    const maxX = Math.max(...densities.map(d => d.strikes[d.strikes.length - 1]));
+    const maxY = Math.max(...densities.flatMap(d => d.density));
+    const x = (v: number) => PAD + ((v - minX) / (maxX - minX || 1)) * (WIDTH - 2 * PAD);
+    const y = (v: number) => HEIGHT - PAD - (v / (maxY || 1)) * (HEIGHT - 2 * PAD);
+
+    const curves = densities.map(d =>
+      d.strikes.map((k, i) => `${i === 0 ? 'M' : 'L'}${x(k).toFixed(1)},${y(d.density[i]).toFixed(1)}`).join(' ')
+    );
+
+    // "Yes" region of a close/range contract, clipped to the chart
+    let region: { x1: number; x2: number } | null = null;
+    if (spec && (spec.type === 'close' || spec.type === 'range')) {
+      const lower = spec.type === 'range' || spec.direction !== 'below' ? spec.lowerBound : null;
+      const upper = spec.type === 'range' || spec.direction === 'below' ? spec.upperBound : null;
+      if (lower !== null || upper !== null) {
+        region = {
+          x1: x(Math.max(minX, lower ?? minX)),
+          x2: x(Math.min(maxX, upper ?? maxX))
+        };
+      }
+    }
+
+    return { curves, region, spotX: spotPrice >= minX && spotPrice <= maxX ? x(spotPrice) : null, minX, maxX };
+  }, [densities, spotPrice, spec]);
+
+  if (!chart) {
+    return (
+      <p className="text-xs text-slate-500 text-center py-6 border border-dashed border-slate-800 rounded-lg">
+        Not enough strikes to extract a density.
+      </p>
+    );
+  }
+
+  const isPathDependent = spec?.type === 'touch-up' || spec?.type === 'touch-down';
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {chart.region && chart.region.x2 > chart.region.x1 && (
+          <rect x={chart.region.x1} y={PAD} width={chart.region.x2 - chart.region.x1} height={HEIGHT - 2 * PAD} fill="#4ade80" opacity={0.08} />
+        )}
+        <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} stroke="#334155" />
+        {chart.spotX !== null && (
+          <>
+            <line x1={chart.spotX} y1={PAD} x2={chart.spotX} y2={HEIGHT - PAD} stroke="#64748b" strokeDasharray="3 3" />
+            <text x={chart.spotX} y={PAD - 4} fontSize={9} fill="#94a3b8" textAnchor="middle">spot</text>
+          </>
+        )}
+        {chart.curves.map((d, i) => (
+          <path key={densities[i].label} d={d} fill="none" stroke={COLORS[i % COLORS.length]} strokeWidth={1.5} />
+        ))}
+        <text x={PAD} y={HEIGHT - 10} fontSize={9} fill="#64748b">${formatPrice(chart.minX)}</text>
+        <text x={WIDTH - PAD} y={HEIGHT - 10} fontSize={9} fill="#64748b" textAnchor="end">${formatPrice(chart.maxX)}</text>
+      </svg>
+      <div className="space-y-0.5 text-[10px] text-slate-500 mt-1">
+        {densities.map((d, i) => {
+          const prob = spec ? priceContractFromDensity(spec, d) : null;
+          return (
+            <div key={d.label} className="flex items-center gap-2">
+              <span style={{ color: COLORS[i % COLORS.length] }}>—</span>
+              <span className="font-mono text-slate-400">{d.label}</span>
+              <span>fwd ${d.forward.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+              {prob !== null && <span className="ml-auto text-green-400">P(Yes) {(prob * 100).toFixed(1)}%</span>}
+              {d.negativeMass > 0.005 && (
+                <span className="text-amber-400" title="Mass clipped where the smile implies a negative density">
+                  arb {(d.negativeMass * 100).toFixed(1)}%
+                </span>
+              )}
+            </div>
+          );
+        })}
+        {isPathDependent && <p>Touch contracts depend on the path, not only the price at expiry.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DensityChart;
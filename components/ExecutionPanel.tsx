@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PolyMarket, PolyOrderBook } from '../types';
+import { fetchPolymarketOrderBook } from '../services/api';
+import { parsePolymarketOutcomes } from '../utils/helpers';
+import { estimateBuyFill, getBookDepthUsd, parseClobTokenIds } from '../utils/orderBook';
+import { BookOpen, RefreshCw } from 'lucide-react';
+
+interface Props {
+  market: PolyMarket;
+  modelProb: number | null; // Model probability of "Yes" (0-1)
+}
+
+/**
+ * Size-aware execution: walks the Polymarket CLOB for both outcomes and
+ * shows the volume-weighted fill, slippage and the resulting edge.
+ */
+const ExecutionPanel: React.FC<Props> = ({ market, modelProb }) => {
+  const [tradeSize, setTradeSize] = useState<string>('1000');
+  const [books, setBooks] = useState<{ yes: PolyOrderBook | null; no: PolyOrderBook | null }>({ yes: null, no: null });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Token ids follow the outcomes order
+  const tokenIds = useMemo(() => {
+    const ids = parseClobTokenIds(market.clobTokenIds);
+    const names = parsePolymarketOutcomes(market.outcomes || "[]", market.outcomePrices || "[]").map((o: { name: string }) => o.name.toLowerCase());
+    const yesIdx = Math.max(0, names.indexOf('yes'));
+    const noIdx = names.indexOf('no') >= 0 ? names.indexOf('no') : 1 - yesIdx;
+    return { yes: ids[yesIdx] || null, no: ids[noIdx] || null };
+  }, [market.clobTokenIds, market.outcomes, market.outcomePrices]);
+
+  const loadBooks = async () => {
+    if (!tokenIds.yes || !tokenIds.no) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const yes = await fetchPolymarketOrderBook(tokenIds.yes);
+      const no = await fetchPolymarketOrderBook(tokenIds.no);
+      setBooks({ yes, no });
+    } catch (err: any) {
+      setError(err.message || 'Failed to load order books.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBooks();
+  }, [tokenIds.yes, tokenIds.no]);
+
+  const size = parseFloat(tradeSize) || 0;
+
+  const rows = useMemo(() => {
+    if (!books.yes || !books.no) return [];
+    return [
+      { label: 'Buy Yes', book: books.yes, fair: modelProb },
+      { label: 'Buy No', book: books.no, fair: modelProb !== null ? 1 - modelProb : null }
+    ].map(({ label, book, fair }) => {
+      const fill = estimateBuyFill(book.asks, size);
+      return {
+        label,
+        fill,
+        depthUsd: getBookDepthUsd(book.asks),
+        topEdge: fair !== null && fill.bestPrice !== null ? (fair - fill.bestPrice) * 100 : null,
+        edge: fair !== null && fill.avgPrice !== null ? (fair - fill.avgPrice) * 100 : null
+      };
+    });
+  }, [books, size, modelProb]);
+
+  if (!tokenIds.yes || !tokenIds.no) {
+    return (
+      <div className="text-xs text-slate-500">No CLOB token ids for this market; order book depth unavailable.</div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <BookOpen size={14} className="text-blue-400" />
+        <span className="text-xs text-slate-500 uppercase tracking-wider">Executable Edge (CLOB)</span>
+        <div className="ml-auto flex items-center gap-2">
+          <label className="text-xs text-slate-500">Size $</label>
+          <input
+            type="number"
+            min="0"
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-white w-24 text-xs font-mono"
+            value={tradeSize}
+            onChange={(e) => setTradeSize(e.target.value)}
+          />
+          <button onClick={loadBooks} disabled={loading} className="text-slate-500 hover:text-white disabled:opacity-50" title="Refresh order books">
+            <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-400 mb-2">{error}</div>}
+
+      {rows.length > 0 && (
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-800">
+              <th className="p-1 text-left font-normal">Side</th>
+              <th className="p-1 text-right font-normal">Best Ask</th>
+              <th className="p-1 text-right font-normal">VWAP</th>
+              <th className="p-1 text-right font-normal">Slippage</th>
+              <th className="p-1 text-right font-normal">Shares</th>
+              <th className="p-1 text-right font-normal">Top Edge</th>
+              <th className="p-1 text-right font-normal">Size Edge</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ label, fill, depthUsd, topEdge, edge }) => (
+              <tr key={label} className="border-b border-slate-800/50">
+                <td className="p-1 text-slate-300">{label}</td>
+                <td className="p-1 text-right text-slate-400">{fill.bestPrice !== null ? (fill.bestPrice * 100).toFixed(1) + '¢' : '-'}</td>
+                <td className="p-1 text-right text-slate-200">{fill.avgPrice !== null ? (fill.avgPrice * 100).toFixed(2) + '¢' : '-'}</td>
+                <td className="p-1 text-right text-amber-400">{fill.slippage !== null ? (fill.slippage * 100).toFixed(2) + '¢' : '-'}</td>
+                <td className="p-1 text-right text-slate-400">{fill.shares.toFixed(0)}</td>
+                <td className="p-1 text-right text-slate-400">{topEdge !== null ? `${topEdge > 0 ? '+' : ''}${topEdge.toFixed(1)}%` : '-'}</td>
+                <td className={`p-1 text-right font-bold ${edge !== null && edge > 0 ? 'text-green-400' : 'text-slate-400'}`}>
+                  {edge !== null ? `${edge > 0 ? '+' : ''}${edge.toFixed(1)}%` : '-'}
+                  {fill.unfilledUsd > 0.01 && (
+                    <span className="block text-[10px] font-normal text-red-400">
+                      ${fill.unfilledUsd.toFixed(0)} unfilled (depth ${depthUsd.toFixed(0)})
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionPanel;
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ContractGreeks, ContractSpec, MonteCarloResult, SensitivityCell } from '../types';
+import {
+  buildSensitivityGrid,
+  computeContractGreeks,
+  GreeksPricer,
+  simulateContractGreeks,
+  simulateSensitivityGrid,
+  withGridEdges
+} from '../utils/greeks';
+import { needsSimulation, PricingParams } from '../utils/pricing';
+import { DEFAULT_MC_SEED } from '../utils/math';
+import { MC_CANCELLED, MonteCarloTask, runContractMonteCarlo } from '../services/monteCarloPool';
+import { AlertTriangle, Grid3x3 } from 'lucide-react';
+
+interface Props {
+  spec: ContractSpec;
+  spotPrice: number;
+  timeToExpiry: number; // Years
+  ivAt: (strike: number) => number | null;
+  model: PricingParams['model'];
+  monitoringMinutes?: number | null; // Analytic touch monitoring interval
+  volMultiplier: number;
+  polyYesPrice: number;
+}
+
+// Gamma (cents of delta per 1% move, per 1% move) above which sizing needs care
+const HIGH_GAMMA_CENTS = 2;
+
+// Bump-and-reprice needs fewer paths per point than the headline probability
+const GREEKS_MC_ITERATIONS = 20000;
+const GRID_MC_ITERATIONS = 2000;
+// One seed for every bump and cell, so differences aren't simulation noise
+const MC_OPTIONS = { seed: DEFAULT_MC_SEED, antithetic: true, controlVariate: true };
+
+const cents = (v: number, digits = 2) => `${v > 0 ? '+' : ''}${(v * 100).toFixed(digits)}¢`;
+
+const cellColor = (cell: SensitivityCell, metric: 'prob' | 'edge') => {
+  if (metric === 'prob') {
+    if (cell.prob === null) return 'transparent';
+    return `rgba(96, 165, 250, ${(0.1 + cell.prob * 0.7).toFixed(2)})`;
+  }
+  if (cell.edge === null) return 'transparent';
+  const alpha = Math.min(0.8, 0.1 + Math.abs(cell.edge) / 40);
+  return cell.edge >= 0 ? `rgba(74, 222, 128, ${alpha.toFixed(2)})` : `rgba(248, 113, 113, ${alpha.toFixed(2)})`;
+};
+
+/**
+ * Greeks of the binary per $1 payout and a spot × IV sensitivity heatmap.
+ * Simulated models bump and reprice on the Monte Carlo pool.
+ */
+const GreeksPanel: React.FC<Props> = ({ spec, spotPrice, timeToExpiry, ivAt, model, monitoringMinutes, volMultiplier, polyYesPrice }) => {
+  const [metric, setMetric] = useState<'prob' | 'edge'>('edge');
+
+  const isSimulated = needsSimulation(spec, model);
+  const [simulated, setSimulated] = useState<{ greeks: ContractGreeks | null; grid: SensitivityCell[][] } | null>(null);
+
+  // Closed forms and quadrature are cheap enough to follow live ticks
+  const analytic = useMemo(() => {
+    if (isSimulated) return null;
+    const params = { spot: spotPrice, T: timeToExpiry, ivAt: (K: number) => ivAt(K) ?? 0, model, monitoringMinutes, volMultiplier };
+    return {
+      greeks: computeContractGreeks(spec, params),
+      grid: buildSensitivityGrid(spec, params, polyYesPrice)
+    };
+  }, [isSimulated, spec, spotPrice, timeToExpiry, ivAt, model, monitoringMinutes, volMultiplier, polyYesPrice]);
+
+  useEffect(() => {
+    if (!isSimulated) return;
+    setSimulated(null);
+    const params = { spot: spotPrice, T: timeToExpiry, ivAt: (K: number) => ivAt(K) ?? 0, model, volMultiplier };
+    const tasks: MonteCarloTask<MonteCarloResult | null>[] = [];
+    const price: GreeksPricer = (s, p) => {
+      const task = runContractMonteCarlo(s, p, MC_OPTIONS);
+      tasks.push(task);
+      return task.promise.then(result => (result ? result.prob : null));
+    };
+    Promise.all([
+      simulateContractGreeks(spec, { ...params, iterations: GREEKS_MC_ITERATIONS }, price),
+      simulateSensitivityGrid(spec, { ...params, iterations: GRID_MC_ITERATIONS }, price)
+    ]).then(([greeks, grid]) => setSimulated({ greeks, grid })).catch(err => {
+      if (err.message !== MC_CANCELLED) console.error(err);
+    });
+    return () => tasks.forEach(task => task.cancel());
+  }, [isSimulated, spec, spotPrice, timeToExpiry, ivAt, model, volMultiplier]);
+
+  const simulatedGrid = useMemo(() => (simulated ? withGridEdges(simulated.grid, polyYesPrice) : []), [simulated, polyYesPrice]);
+
+  if (isSimulated && !simulated) return <div className="animate-pulse text-slate-500 text-xs">Simulating sensitivities...</div>;
+
+  const greeks = analytic ? analytic.greeks : simulated?.greeks ?? null;
+  const grid = analytic ? analytic.grid : simulatedGrid;
+
+  const onePct = spotPrice * 0.01;
+  const gammaOnePct = greeks ? greeks.gamma * onePct * onePct : 0;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Greeks */}
+      <div className="text-xs space-y-2">
+        <div className="flex justify-between items-baseline">
+          <span className="text-slate-500 uppercase tracking-wider">Greeks (per $1 payout)</span>
+          {greeks && <span className="text-[10px] text-slate-600">{greeks.method === 'closed-form' ? 'Closed form' : 'Bump & reprice'}</span>}
+        </div>
+        {!greeks ? (
+          <p className="text-slate-500">Not available at or past expiry.</p>
+        ) : (
+          <div className="font-mono space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-500 font-sans">Delta</span>
+              <span className="text-slate-200" title={`$${greeks.delta.toExponential(3)} per $1 of spot`}>{cents(greeks.delta * onePct)} / 1% spot</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-500 font-sans">Gamma</span>
+              <span className={Math.abs(gammaOnePct * 100) > HIGH_GAMMA_CENTS ? 'text-amber-400' : 'text-slate-200'} title={`${greeks.gamma.toExponential(3)} per $1 of spot`}>
+                {cents(gammaOnePct)} Δ / 1% spot
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-500 font-sans">Vega</span>
+              <span className="text-slate-200">{cents(greeks.vega)} / vol pt</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-500 font-sans">Theta</span>
+              <span className="text-slate-200">{cents(greeks.theta)} / day</span>
+            </div>
+            {Math.abs(gammaOnePct * 100) > HIGH_GAMMA_CENTS && (
+              <p className="flex items-start gap-1 text-amber-400 font-sans pt-1">
+                <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                High gamma: a 1% spot move shifts delta by {Math.abs(gammaOnePct * 100).toFixed(1)}¢. Size down or hedge dynamically.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Heatmap */}
+      <div className="md:col-span-2 text-xs">
+        <div className="flex items-center gap-2 mb-2">
+          <Grid3x3 size={14} className="text-slate-500" />
+          <span className="text-slate-500 uppercase tracking-wider">Sensitivity</span>
+          <div className="flex bg-slate-800 rounded p-0.5 ml-auto">
+            {(['edge', 'prob'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-2 py-0.5 rounded ${metric === m ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {m === 'edge' ? 'Edge' : 'Probability'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full font-mono text-[10px] border-collapse">
+            <thead>
+              <tr>
+                <th className="p-1 text-slate-600 font-sans text-left">IV \ Spot</th>
+                {grid[0]?.map(c => (
+                  <th key={c.spotShiftPct} className="p-1 text-slate-500 font-normal">{c.spotShiftPct > 0 ? '+' : ''}{c.spotShiftPct}%</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {grid.map(row => (
+                <tr key={row[0].volShiftPts}>
+                  <td className="p-1 text-slate-500">{row[0].volShiftPts > 0 ? '+' : ''}{row[0].volShiftPts}</td>
+                  {row.map(cell => {
+                    const value = metric === 'prob' ? (cell.prob !== null ? cell.prob * 100 : null) : cell.edge;
+                    const isBase = cell.spotShiftPct === 0 && cell.volShiftPts === 0;
+                    return (
+                      <td
+                        key={cell.spotShiftPct}
+                        className={`p-1 text-center text-slate-100 ${isBase ? 'outline outline-1 outline-white' : ''}`}
+                        style={{ backgroundColor: cellColor(cell, metric) }}
+                      >
+                        {value === null ? '-' : `${metric === 'edge' && value > 0 ? '+' : ''}${value.toFixed(1)}`}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[10px] text-slate-600 mt-1">
+          {metric === 'edge' ? 'Model probability minus Polymarket ask (pts)' : 'Model probability (%)'} for spot shifts (columns) and IV shifts in vol points (rows).
+          {isSimulated && ` Monte Carlo: ${GREEKS_MC_ITERATIONS.toLocaleString()} paths per Greek bump, ${GRID_MC_ITERATIONS.toLocaleString()} per cell, one seed throughout.`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GreeksPanel;
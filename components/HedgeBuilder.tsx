@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { ContractSpec, HedgeProposal, OptionQuote, PolyPosition } from '../types';
+import { buildHedgeProposal, hedgePnlAtExpiry, positionPnlAtExpiry } from '../utils/hedge';
+import { AlertTriangle, Shield } from 'lucide-react';
+
+interface Props {
+  spec: ContractSpec;
+  options: OptionQuote[];
+  spotPrice: number;
+  polyYesPrice: number;
+  polyNoPrice: number;
+  venueName?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = 30;
+const SAMPLES = 120;
+
+/**
+ * Proposes an option spread hedge for a Polymarket position and charts the
+ * combined P&L at expiry, including the residual pin risk between strikes.
+ */
+const HedgeBuilder: React.FC<Props> = ({ spec, options, spotPrice, polyYesPrice, polyNoPrice, venueName = 'Deribit' }) => {
+  const [side, setSide] = useState<PolyPosition['side']>('YES');
+  const [shares, setShares] = useState<string>('1000');
+  const [entry, setEntry] = useState<string>((polyYesPrice * 100).toFixed(1));
+  const [structure, setStructure] = useState<HedgeProposal['structure']>('call-spread');
+
+  // Entry follows the side's current price until edited again
+  const selectSide = (next: PolyPosition['side']) => {
+    setSide(next);
+    setEntry(((next === 'YES' ? polyYesPrice : polyNoPrice) * 100).toFixed(1));
+  };
+
+  const position: PolyPosition = useMemo(() => ({
+    side,
+    shares: parseFloat(shares) || 0,
+    entryPrice: (parseFloat(entry) || 0) / 100
+  }), [side, shares, entry]);
+
+  const hedge = useMemo(
+    () => buildHedgeProposal(spec, position, options, structure),
+    [spec, position, options, structure]
+  );
+
+  const chart = useMemo(() => {
+    if (!hedge) return null;
+    const lo = Math.min(spotPrice, hedge.lowerStrike) * 0.85;
+    const hi = Math.max(spotPrice, hedge.upperStrike) * 1.15;
+    const points = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+      const s = lo + ((hi - lo) * i) / SAMPLES;
+      const poly = positionPnlAtExpiry(spec, position, s) ?? 0;
+      const opt = hedgePnlAtExpiry(hedge, s);
+      return { s, poly, opt, total: poly + opt };
+    });
+    const values = points.flatMap(p => [p.poly, p.opt, p.total]);
+    const minY = Math.min(0, ...values);
+    const maxY = Math.max(0, ...values);
+    const x = (s: number) => PAD + ((s - lo) / (hi - lo)) * (WIDTH - 2 * PAD);
+    const y = (v: number) => HEIGHT - PAD - ((v - minY) / (maxY - minY || 1)) * (HEIGHT - 2 * PAD);
+    const path = (key: 'poly' | 'opt' | 'total') =>
+      points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.s).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ');
+
+    const totals = points.map(p => p.total);
+    return {
+      polyPath: path('poly'),
+      optPath: path('opt'),
+      totalPath: path('total'),
+      x, y, lo, hi, minY, maxY,
+      worst: Math.min(...totals),
+      best: Math.max(...totals)
+    };
+  }, [hedge, spec, position, spotPrice]);
+
+  const header = (
+    <div className="flex items-center gap-2 mb-3">
+      <Shield size={14} className="text-emerald-400" />
+      <span className="text-xs text-slate-500 uppercase tracking-wider">Hedge Builder</span>
+    </div>
+  );
+
+  if (spec.type !== 'close') {
+    return (
+      <div>
+        {header}
+        <div className="flex items-center gap-2 text-[11px] text-amber-400">
+          <AlertTriangle size={12} />
+          Static spreads only hedge close contracts; this {spec.type} contract has no single-level payoff to offset.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {header}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 text-xs">
+        <div>
+          <label className="block text-slate-500 mb-1">Poly Side</label>
+          <div className="flex bg-slate-800 rounded p-0.5">
+            {(['YES', 'NO'] as const).map(s => (
+              <button
+                key={s}
+                onClick={() => selectSide(s)}
+                className={`flex-1 py-1 rounded ${side === s ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-slate-500 mb-1">Shares ($ payout)</label>
+          <input type="number" min="0" value={shares} onChange={(e) => setShares(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white font-mono" />
+        </div>
+        <div>
+          <label className="block text-slate-500 mb-1">Entry (¢)</label>
+          <input type="number" min="0" max="100" step="0.1" value={entry} onChange={(e) => setEntry(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white font-mono" />
+        </div>
+        <div>
+          <label className="block text-slate-500 mb-1">Structure</label>
+          <div className="flex bg-slate-800 rounded p-0.5">
+            <button onClick={() => setStructure('call-spread')}
+              className={`flex-1 py-1 rounded ${structure === 'call-spread' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+              Calls
+            </button>
+            <button onClick={() => setStructure('put-spread')}
+              className={`flex-1 py-1 rounded ${structure === 'put-spread' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+              Puts
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {!hedge ? (
+        <p className="text-xs text-amber-400">No listed strikes bracket the contract level for this structure.</p>
+      ) : (
+        <>
+          <table className="w-full text-xs font-mono mb-3">
+            <thead>
+              <tr className="text-slate-500 border-b border-slate-800">
+                <th className="p-1 text-left font-normal">Action</th>
+                <th className="p-1 text-left font-normal">Instrument</th>
+                <th className="p-1 text-right font-normal">Contracts</th>
+                <th className="p-1 text-right font-normal">Price</th>
+                <th className="p-1 text-right font-normal">Cash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hedge.legs.map(leg => (
+                <tr key={leg.option.instrument} className="border-b border-slate-800/50">
+                  <td className={`p-1 font-bold ${leg.direction === 'buy' ? 'text-green-400' : 'text-red-400'}`}>{leg.direction.toUpperCase()}</td>
+                  <td className="p-1 text-slate-300">{leg.option.instrument}</td>
+                  <td className="p-1 text-right text-slate-300">{leg.contracts.toFixed(1)}</td>
+                  <td className="p-1 text-right text-slate-400">${leg.priceUsd.toFixed(2)}</td>
+                  <td className="p-1 text-right text-slate-300">
+                    {leg.direction === 'buy' ? '-' : '+'}${(leg.priceUsd * leg.contracts).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs mb-2">
+            <span className="text-slate-500">
+              Net premium: <span className={`font-mono ${hedge.premiumUsd > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {hedge.premiumUsd > 0 ? 'pay' : 'receive'} ${Math.abs(hedge.premiumUsd).toFixed(2)}
+              </span>
+            </span>
+            <span className="text-slate-500">
+              Target size: <span className="font-mono text-slate-300">{hedge.targetContracts.toFixed(3)}</span>
+            </span>
+            {chart && (
+              <span className="text-slate-500">
+                Combined P&L range: <span className="font-mono text-slate-300">${chart.worst.toFixed(0)} to ${chart.best.toFixed(0)}</span>
+              </span>
+            )}
+          </div>
+
+          {chart && (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {/* Pin risk zone between strikes */}
+              <rect
+                x={chart.x(hedge.lowerStrike)} y={PAD}
+                width={chart.x(hedge.upperStrike) - chart.x(hedge.lowerStrike)} height={HEIGHT - 2 * PAD}
+                fill="#f59e0b" opacity={0.08}
+              />
+              <line x1={PAD} y1={chart.y(0)} x2={WIDTH - PAD} y2={chart.y(0)} stroke="#334155" />
+              <line x1={chart.x(spotPrice)} y1={PAD} x2={chart.x(spotPrice)} y2={HEIGHT - PAD} stroke="#64748b" strokeDasharray="2 3" />
+              <path d={chart.polyPath} fill="none" stroke="#3b82f6" strokeWidth={1} opacity={0.6} />
+              <path d={chart.optPath} fill="none" stroke="#fb923c" strokeWidth={1} opacity={0.6} />
+              <path d={chart.totalPath} fill="none" stroke="#34d399" strokeWidth={2} />
+              <text x={PAD} y={HEIGHT - 8} fontSize={9} fill="#64748b">${Math.round(chart.lo).toLocaleString()}</text>
+              <text x={WIDTH - PAD} y={HEIGHT - 8} fontSize={9} fill="#64748b" textAnchor="end">${Math.round(chart.hi).toLocaleString()}</text>
+              <text x={2} y={PAD} fontSize={9} fill="#64748b">${Math.round(chart.maxY).toLocaleString()}</text>
+              <text x={2} y={HEIGHT - PAD} fontSize={9} fill="#64748b">${Math.round(chart.minY).toLocaleString()}</text>
+            </svg>
+          )}
+          <div className="flex flex-wrap gap-3 text-[10px] text-slate-500 mt-1">
+            <span><span className="text-blue-500">—</span> Polymarket</span>
+            <span><span className="text-orange-400">—</span> {venueName} hedge</span>
+            <span><span className="text-emerald-400">—</span> Combined</span>
+            <span><span className="text-amber-500">■</span> Pin risk ({`$${hedge.lowerStrike.toLocaleString()}–$${hedge.upperStrike.toLocaleString()}`})</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HedgeBuilder;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { LlmSettings } from '../types';
+import { LLM_PROVIDERS } from '../services/llm';
+import { GEMINI_MODEL } from '../services/llm/gemini';
+import { Sparkles } from 'lucide-react';
+
+interface Props {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+}
+
+/**
+ * Chooses who reads contract rules and writes edge rationales.
+ */
+const LlmSettingsPanel: React.FC<Props> = ({ settings, onChange }) => (
+  <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 shadow-xl w-80 mt-2">
+    <div className="flex items-center gap-2 mb-3 border-b border-slate-700 pb-2">
+      <Sparkles size={16} className="text-violet-400" />
+      <h3 className="font-bold text-sm text-slate-200">AI Assistant</h3>
+    </div>
+    <div className="space-y-2 text-xs">
+      {Object.values(LLM_PROVIDERS).map(provider => (
+        <label key={provider.id} className={`flex items-center gap-2 ${provider.isConfigured() ? 'text-slate-300 cursor-pointer' : 'text-slate-600'}`}>
+          <input
+            type="radio"
+            name="llmProvider"
+            disabled={!provider.isConfigured()}
+            checked={settings.provider === provider.id && provider.isConfigured()}
+            onChange={() => onChange({ ...settings, provider: provider.id })}
+          />
+          {provider.name}
+          {provider.id === 'gemini' && <span className="ml-auto text-[10px] text-slate-500 font-mono">{GEMINI_MODEL}</span>}
+        </label>
+      ))}
+      <p className="text-[10px] text-slate-500">
+        {LLM_PROVIDERS.gemini.isConfigured()
+          ? 'Contract text and edge figures are sent to Google when you ask for a reading or rationale.'
+          : 'Set GEMINI_API_KEY in .env.local (or in the gateway\'s environment with API_MODE=gateway) to enable Gemini. The local provider uses the regex parser and a template.'}
+      </p>
+    </div>
+  </div>
+);
+
+export default LlmSettingsPanel;
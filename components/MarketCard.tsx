@@ -1,11 +1,25 @@
 import React, { useMemo, useState } from 'react';
-import { ArbitrageOpportunity, PolyMarket, DeribitOption } from '../types';
+import { ArbitrageOpportunity, PolyMarket, OptionQuote, CostSettings, LlmProviderId, RiskNeutralDensity } from '../types';
 import { parsePolymarketOutcomes, convertIsoToDeribitDate } from '../utils/helpers';
-import { ChevronDown, ChevronUp, ExternalLink, Activity, TrendingUp, AlertTriangle, ListPlus, Calculator } from 'lucide-react';
+import { getEventResolutionIso, getPrimarySlice, getUpperExpiryWeight } from '../utils/termStructure';
+import { priceEventBuckets } from '../utils/buckets';
+import { parseContract } from '../utils/contractParser';
+import { extractRiskNeutralDensity, extractSliceDensity } from '../utils/density';
+import { createIvLookup } from '../utils/pricing';
+import { getAssetConfig } from '../utils/assets';
+import { getOptionsProvider } from '../services/venues';
+import { useLiveMarketData } from '../hooks/useLiveMarketData';
+import { ChevronDown, ChevronUp, ExternalLink, Activity, TrendingUp, AlertTriangle, ListPlus, Calculator, BarChart3, History } from 'lucide-react';
 import AnalysisPanel from './AnalysisPanel';
+import BucketDistribution from './BucketDistribution';
+import MarketHistory from './MarketHistory';
+import DensityChart from './DensityChart';
 
 interface Props {
   data: ArbitrageOpportunity;
+  streaming?: boolean; // Stream live Deribit quotes into the open analysis panel (Deribit chains only)
+  costSettings: CostSettings;
+  llmProvider?: LlmProviderId;
 }
 
 // Sub-component for rendering a single outcome bar
@@ -29,42 +43,85 @@ const OutcomeBar = ({ outcome, bestBid, bestAsk, isMain = false }: { outcome: an
   </div>
 );
 
-const MarketCard: React.FC<Props> = ({ data }) => {
-  const { polyEvent, matchedOptions, spotPrice } = data;
+const MarketCard: React.FC<Props> = ({ data, streaming = false, costSettings, llmProvider }) => {
+  const { polyEvent, asset, isAssetSupported, optionsVenue, matchedOptions, expiryBracket, spotPrice } = data;
+  const venueName = getOptionsProvider(optionsVenue).name;
   const [expandedDeribit, setExpandedDeribit] = useState(false);
   const [expandedRelated, setExpandedRelated] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showBuckets, setShowBuckets] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Group matched options by Strike Price
   const optionsByStrike = useMemo(() => {
-    const grouped: Record<string, { call?: DeribitOption; put?: DeribitOption }> = {};
+    const grouped: Record<string, { call?: OptionQuote; put?: OptionQuote }> = {};
     
     matchedOptions.forEach(opt => {
-      // Instrument Format: BTC-DDMMMYY-STRIKE-C/P
-      const parts = opt.instrument_name.split('-');
-      if (parts.length < 4) return;
-      const strike = parts[2];
-      const type = parts[3]; // C or P
+      const strike = opt.strike.toString();
       
       if (!grouped[strike]) grouped[strike] = {};
-      if (type === 'C') grouped[strike].call = opt;
-      if (type === 'P') grouped[strike].put = opt;
+      if (opt.type === 'C') grouped[strike].call = opt;
+      if (opt.type === 'P') grouped[strike].put = opt;
     });
 
     // Sort by strike price closest to spot
     return Object.entries(grouped).sort((a, b) => {
-        return Math.abs(parseInt(a[0]) - spotPrice) - Math.abs(parseInt(b[0]) - spotPrice);
+        return Math.abs(parseFloat(a[0]) - spotPrice) - Math.abs(parseFloat(b[0]) - spotPrice);
     });
   }, [matchedOptions, spotPrice]);
 
+  // Live quotes only for the instruments this card's open panel uses; only Deribit streams
+  const live = useLiveMarketData(
+    streaming && showAnalysis && isAssetSupported && optionsVenue === 'deribit',
+    getAssetConfig(asset)?.indexName || null,
+    spotPrice,
+    matchedOptions
+  );
+
+  // Price every bucket of multi-market events against the options-implied distribution
+  const buckets = useMemo(() => {
+    if (polyEvent.markets.length < 2) return [];
+    return priceEventBuckets(polyEvent, matchedOptions, expiryBracket, spotPrice);
+  }, [polyEvent, matchedOptions, expiryBracket, spotPrice]);
+  const isBucketEvent = buckets.length >= 2 && buckets.some(b => b.spec.type === 'range');
+
+  // The main market's resolution time, as the bracket was matched and the analysis panel prices it
+  const resolutionIso = getEventResolutionIso(polyEvent);
+  const resolutionTimestamp = new Date(resolutionIso).getTime();
+
+  // Risk-neutral density at each matched expiry, plus the resolution time when it falls between them
+  const densities = useMemo(() => {
+    if (!expandedDeribit || !expiryBracket) return [];
+    const { lower, upper } = expiryBracket;
+    const sliceDensities = (lower === upper ? [lower] : [lower, upper]).map(s => extractSliceDensity(s, spotPrice));
+    if (lower !== upper) {
+      const ivAt = createIvLookup(matchedOptions, expiryBracket, spotPrice, resolutionTimestamp);
+      const T = (resolutionTimestamp - Date.now()) / (1000 * 60 * 60 * 24 * 365);
+      sliceDensities.push(extractRiskNeutralDensity(K => ivAt(K) ?? 0, spotPrice * Math.exp(0.04 * T), T, 'resolution'));
+    }
+    return sliceDensities.filter((d): d is RiskNeutralDensity => d !== null);
+  }, [expandedDeribit, expiryBracket, matchedOptions, spotPrice, resolutionTimestamp]);
+
   // Main Poly Market (Usually the first one is the main binary outcome)
   const mainMarket = polyEvent.markets[0];
   const relatedMarkets = polyEvent.markets.slice(1);
-  const deribitDate = convertIsoToDeribitDate(polyEvent.endDate);
+  const deribitDate = expiryBracket ? getPrimarySlice(expiryBracket).code : convertIsoToDeribitDate(resolutionIso);
+  const isInterpolated = !!expiryBracket && expiryBracket.lower !== expiryBracket.upper;
+  const upperWeight = expiryBracket ? getUpperExpiryWeight(expiryBracket, resolutionTimestamp) : 1;
 
   if (!mainMarket) return null;
 
   const mainOutcomes = parsePolymarketOutcomes(mainMarket.outcomes || "[]", mainMarket.outcomePrices || "[]");
+  const mainSpec = expandedDeribit
+    ? parseContract({
+        question: mainMarket.question,
+        description: polyEvent.description,
+        eventTitle: polyEvent.title,
+        startDate: polyEvent.startDate,
+        endDate: mainMarket.endDate || polyEvent.endDate,
+        spotPrice
+      })
+    : null;
 
   return (
     <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden mb-6 shadow-lg transition-all hover:border-blue-500/50">
@@ -75,7 +132,10 @@ const MarketCard: React.FC<Props> = ({ data }) => {
             <div className="flex items-center gap-2 mb-2">
               <span className="bg-blue-600 text-white text-xs font-bold px-2 py-0.5 rounded">POLYMARKET</span>
               <span className="text-slate-400 text-xs font-mono">{polyEvent.ticker}</span>
-              <span className="text-slate-500 text-xs ml-auto sm:ml-2">Ends: {new Date(polyEvent.endDate).toLocaleDateString()}</span>
+              {asset && (
+                <span className={`text-xs font-bold px-2 py-0.5 rounded ${isAssetSupported ? 'bg-orange-500/10 text-orange-400' : 'bg-slate-700 text-slate-400'}`}>{asset}</span>
+              )}
+              <span className="text-slate-500 text-xs ml-auto sm:ml-2">Ends: {new Date(resolutionIso).toLocaleDateString()}</span>
             </div>
             <h3 className="text-xl font-bold text-white mb-2 leading-tight">{polyEvent.title}</h3>
             <p className="text-slate-400 text-sm line-clamp-2">{polyEvent.description}</p>
@@ -101,8 +161,34 @@ const MarketCard: React.FC<Props> = ({ data }) => {
           ))}
         </div>
         
+        {!isAssetSupported && (
+            <div className="mt-4 flex items-center gap-2 bg-amber-500/10 border border-amber-500/20 text-amber-400 text-xs p-3 rounded-lg">
+                <AlertTriangle size={14} />
+                <span>
+                    {asset ? `${asset} has no ${venueName} option chain.` : 'Could not detect the underlying asset.'} Analysis is disabled for this event.
+                </span>
+            </div>
+        )}
+
         {/* Analysis Toggle Button */}
-        <div className="mt-4 flex justify-end">
+        {isAssetSupported && (
+        <div className="mt-4 flex justify-end gap-2">
+            <button 
+                onClick={() => setShowHistory(!showHistory)}
+                className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded border transition-all ${showHistory ? 'bg-purple-600 border-purple-500 text-white' : 'bg-transparent border-slate-600 text-slate-400 hover:border-purple-500 hover:text-white'}`}
+            >
+                <History size={14} />
+                {showHistory ? 'Hide History' : 'History'}
+            </button>
+            {isBucketEvent && (
+                <button 
+                    onClick={() => setShowBuckets(!showBuckets)}
+                    className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded border transition-all ${showBuckets ? 'bg-orange-600 border-orange-500 text-white' : 'bg-transparent border-slate-600 text-slate-400 hover:border-orange-500 hover:text-white'}`}
+                >
+                    <BarChart3 size={14} />
+                    {showBuckets ? 'Hide Distribution' : `Compare ${buckets.length} Buckets`}
+                </button>
+            )}
             <button 
                 onClick={() => setShowAnalysis(!showAnalysis)}
                 className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded border transition-all ${showAnalysis ? 'bg-blue-600 border-blue-500 text-white' : 'bg-transparent border-slate-600 text-slate-400 hover:border-blue-500 hover:text-white'}`}
@@ -111,17 +197,44 @@ const MarketCard: React.FC<Props> = ({ data }) => {
                 {showAnalysis ? 'Close Analysis' : 'Analyze Probability & Edge'}
             </button>
         </div>
+        )}
         
         {/* Analysis Panel */}
-        {showAnalysis && (
+        {showAnalysis && isAssetSupported && (
             <AnalysisPanel 
-                spotPrice={spotPrice} 
+                spotPrice={live.spotPrice} 
                 market={mainMarket} 
                 polyEventTitle={polyEvent.title}
-                matchedOptions={matchedOptions}
+                polyEventDescription={polyEvent.description}
+                polyEventStartDate={polyEvent.startDate}
+                matchedOptions={live.options}
+                expiryBracket={expiryBracket}
+                venueName={venueName}
+                streamStatus={streaming ? live.status : undefined}
+                costSettings={costSettings}
+                llmProvider={llmProvider}
             />
         )}
 
+        {/* Bucket Distribution */}
+        {showBuckets && isBucketEvent && (
+            <div className="mt-4 bg-slate-900 border border-orange-900/30 rounded-lg p-4 animate-fadeIn">
+                <div className="flex items-center gap-2 mb-4 border-b border-slate-800 pb-2">
+                    <BarChart3 size={18} className="text-orange-400" />
+                    <h3 className="font-bold text-slate-200">Bucket Distribution</h3>
+                    <span className="text-xs text-slate-500 ml-auto">Polymarket vs {venueName} (risk-neutral density)</span>
+                </div>
+                <BucketDistribution buckets={buckets} />
+            </div>
+        )}
+
+        {/* Recorded History */}
+        {showHistory && isAssetSupported && (
+            <div className="mt-4 bg-slate-900 border border-purple-900/30 rounded-lg p-4 animate-fadeIn">
+                <MarketHistory markets={polyEvent.markets.map(m => ({ key: `${polyEvent.id}:${m.id}`, question: m.question }))} />
+            </div>
+        )}
+
         {/* Related Markets Section */}
         {relatedMarkets.length > 0 && (
           <div className="mt-6 pt-4 border-t border-slate-700/50">
@@ -173,6 +286,7 @@ const MarketCard: React.FC<Props> = ({ data }) => {
       </div>
 
       {/* Connection & Action Bar */}
+      {isAssetSupported && (
       <div 
         className="px-6 py-3 bg-slate-950 border-y border-slate-700 flex items-center justify-between cursor-pointer hover:bg-slate-900 transition-colors"
         onClick={() => setExpandedDeribit(!expandedDeribit)}
@@ -183,11 +297,16 @@ const MarketCard: React.FC<Props> = ({ data }) => {
             </div>
             <div>
                 <span className="text-sm font-semibold text-slate-200">
-                    Deribit Volatility Match
+                    {venueName} Volatility Match
                 </span>
                 <span className="text-xs text-slate-500 ml-2">
                     Found {matchedOptions.length} options for expiry <span className="text-orange-400 font-mono">{deribitDate}</span>
                 </span>
+                {expiryBracket && isInterpolated && (
+                    <span className="text-xs text-slate-500 ml-2">
+                        (interpolated: <span className="font-mono text-slate-400">{expiryBracket.lower.code} {((1 - upperWeight) * 100).toFixed(0)}% / {expiryBracket.upper.code} {(upperWeight * 100).toFixed(0)}%</span>)
+                    </span>
+                )}
             </div>
         </div>
         <div className="flex items-center gap-2 text-slate-400">
@@ -197,14 +316,15 @@ const MarketCard: React.FC<Props> = ({ data }) => {
             {expandedDeribit ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
         </div>
       </div>
+      )}
 
-      {/* Deribit Data Section (Expandable) */}
-      {expandedDeribit && (
+      {/* Option Chain Section (Expandable) */}
+      {expandedDeribit && isAssetSupported && (
         <div className="bg-slate-950 p-6 animate-fadeIn">
             <div className="flex justify-between items-center mb-4">
                 <h4 className="text-sm font-semibold text-orange-500 flex items-center gap-2">
                     <TrendingUp size={16}/> 
-                    Deribit Option Chain ({deribitDate})
+                    {venueName} Option Chain ({deribitDate})
                 </h4>
                 <div className="text-xs text-slate-400">
                     Spot Price: <span className="text-white font-mono font-bold">${spotPrice.toLocaleString()}</span>
@@ -215,10 +335,11 @@ const MarketCard: React.FC<Props> = ({ data }) => {
                 <div className="text-center py-8 text-slate-500 border border-dashed border-slate-800 rounded-lg">
                     <AlertTriangle className="mx-auto mb-2 opacity-50" />
                     No matching options found for expiry date {deribitDate}. <br/>
-                    <span className="text-xs">Note: Deribit dates must match DDMMMYY format exactly.</span>
+                    <span className="text-xs">Note: No live {venueName} expiry could be found around the resolution time.</span>
                 </div>
             ) : (
-                <div className="overflow-x-auto">
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="overflow-x-auto lg:col-span-2">
                     <table className="w-full text-left border-collapse">
                         <thead>
                             <tr className="text-xs text-slate-500 border-b border-slate-800">
@@ -236,13 +357,13 @@ const MarketCard: React.FC<Props> = ({ data }) => {
                                     <td className="p-2 text-green-400">
                                         {call ? (
                                             <div className="flex flex-col">
-                                                <span>{call.instrument_name.split('-').pop()}</span>
-                                                <span className="text-xs text-slate-500">IV: {call.mark_iv}%</span>
+                                                <span>{call.type}</span>
+                                                <span className="text-xs text-slate-500">IV: {call.iv.toFixed(1)}%</span>
                                             </div>
                                         ) : '-'}
                                     </td>
                                     <td className="p-2 text-right text-xs text-slate-400">
-                                        {call ? `${call.bid_price || '-'} / ${call.ask_price || '-'}` : ''}
+                                        {call ? `${call.bid || '-'} / ${call.ask || '-'}` : ''}
                                     </td>
                                     
                                     {/* Strike */}
@@ -254,13 +375,13 @@ const MarketCard: React.FC<Props> = ({ data }) => {
                                     <td className="p-2 text-red-400">
                                         {put ? (
                                             <div className="flex flex-col">
-                                                <span>{put.instrument_name.split('-').pop()}</span>
-                                                <span className="text-xs text-slate-500">IV: {put.mark_iv}%</span>
+                                                <span>{put.type}</span>
+                                                <span className="text-xs text-slate-500">IV: {put.iv.toFixed(1)}%</span>
                                             </div>
                                         ) : '-'}
                                     </td>
                                     <td className="p-2 text-right text-xs text-slate-400">
-                                        {put ? `${put.bid_price || '-'} / ${put.ask_price || '-'}` : ''}
+                                        {put ? `${put.bid || '-'} / ${put.ask || '-'}` : ''}
                                     </td>
                                 </tr>
                             ))}
@@ -270,6 +391,11 @@ const MarketCard: React.FC<Props> = ({ data }) => {
                         Showing matched strikes closest to spot price.
                     </div>
                 </div>
+                <div>
+                    <h5 className="text-xs text-slate-500 uppercase tracking-wider mb-2">Risk-Neutral Density</h5>
+                    <DensityChart densities={densities} spotPrice={spotPrice} spec={mainSpec} />
+                </div>
+                </div>
             )}
         </div>
       )}
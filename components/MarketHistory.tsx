@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MarketSnapshot } from '../types';
+import { getMarketSnapshots } from '../services/snapshotStore';
+import { getEdgeStreak } from '../utils/snapshots';
+import { History, RefreshCw } from 'lucide-react';
+
+interface Props {
+  markets: { key: string; question: string }[];
+}
+
+const WIDTH = 640;
+const PRICE_HEIGHT = 150;
+const EDGE_HEIGHT = 70;
+const PAD = 28;
+
+const formatDuration = (days: number) =>
+  days >= 1 ? `${days.toFixed(1)} days` : `${Math.max(1, Math.round(days * 24 * 60))} min`;
+
+/**
+ * Recorded history of a market: Polymarket price vs model probability,
+ * and the edge between them, over the market's life.
+ */
+const MarketHistory: React.FC<Props> = ({ markets }) => {
+  const [selectedKey, setSelectedKey] = useState(markets[0]?.key);
+  const [snapshots, setSnapshots] = useState<MarketSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!selectedKey) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setSnapshots(await getMarketSnapshots(selectedKey));
+    } catch (e: any) {
+      setError(e.message || 'Failed to read snapshots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [selectedKey]);
+
+  const streak = useMemo(() => getEdgeStreak(snapshots), [snapshots]);
+
+  const chart = useMemo(() => {
+    if (snapshots.length < 2) return null;
+    const minT = snapshots[0].timestamp;
+    const maxT = snapshots[snapshots.length - 1].timestamp;
+    const x = (t: number) => PAD + ((t - minT) / (maxT - minT || 1)) * (WIDTH - 2 * PAD);
+
+    const probs = snapshots.flatMap(s => [s.polyAsk, s.polyPrice, s.modelProb].filter((p): p is number => p !== null && p > 0));
+    const minP = Math.max(0, Math.min(...probs) - 0.05);
+    const maxP = Math.min(1, Math.max(...probs) + 0.05);
+    const yPrice = (p: number) => PRICE_HEIGHT - PAD - ((p - minP) / (maxP - minP || 1)) * (PRICE_HEIGHT - 2 * PAD);
+
+    const path = (values: (number | null)[], y: (v: number) => number) => {
+      let d = '';
+      let penUp = true;
+      values.forEach((v, i) => {
+        if (v === null || !(v > 0)) {
+          penUp = true;
+          return;
+        }
+        d += `${penUp ? 'M' : 'L'}${x(snapshots[i].timestamp).toFixed(1)},${y(v).toFixed(1)} `;
+        penUp = false;
+      });
+      return d;
+    };
+
+    const edges = snapshots.map(s => s.edge ?? 0);
+    const maxAbsEdge = Math.max(1, ...edges.map(Math.abs));
+    const edgeMid = EDGE_HEIGHT / 2;
+    const barWidth = Math.max(1, (WIDTH - 2 * PAD) / snapshots.length - 1);
+
+    return {
+      ask: path(snapshots.map(s => s.polyAsk), yPrice),
+      model: path(snapshots.map(s => s.modelProb), yPrice),
+      bars: snapshots.map(s => ({
+        x: x(s.timestamp) - barWidth / 2,
+        height: (Math.abs(s.edge ?? 0) / maxAbsEdge) * (edgeMid - 4),
+        positive: (s.edge ?? 0) >= 0,
+        title: `${new Date(s.timestamp).toLocaleString()}: ${s.edge !== null ? `${s.edge.toFixed(1)} pts` : 'n/a'}`
+      })),
+      barWidth, edgeMid, maxAbsEdge, minP, maxP, minT, maxT
+    };
+  }, [snapshots]);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <History size={16} className="text-purple-400" />
+        {markets.length > 1 ? (
+          <select
+            value={selectedKey}
+            onChange={(e) => setSelectedKey(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs max-w-md"
+          >
+            {markets.map(m => <option key={m.key} value={m.key}>{m.question}</option>)}
+          </select>
+        ) : (
+          <span className="text-xs text-slate-300">{markets[0]?.question}</span>
+        )}
+        <span className="text-[10px] text-slate-500 ml-auto">{snapshots.length} snapshots</span>
+        <button onClick={load} className="text-slate-500 hover:text-white" title="Reload">
+          <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {!error && !chart && (
+        <p className="text-xs text-slate-500 text-center py-6 border border-dashed border-slate-800 rounded-lg">
+          Not enough history yet. Snapshots are recorded on every search and scanner pass (at most once a minute per market).
+        </p>
+      )}
+
+      {chart && (
+        <>
+          {streak && (
+            <div className={`text-xs mb-2 ${streak.sign > 0 ? 'text-green-400' : 'text-red-400'}`}>
+              Model {streak.sign > 0 ? 'above' : 'below'} the Polymarket ask for the last {streak.count} snapshots
+              ({formatDuration(streak.days)}, since {new Date(streak.since).toLocaleString()}).
+            </div>
+          )}
+          <svg viewBox={`0 0 ${WIDTH} ${PRICE_HEIGHT + EDGE_HEIGHT}`} className="w-full h-auto">
+            <line x1={PAD} y1={PRICE_HEIGHT - PAD} x2={WIDTH - PAD} y2={PRICE_HEIGHT - PAD} stroke="#334155" />
+            <line x1={PAD} y1={PAD} x2={PAD} y2={PRICE_HEIGHT - PAD} stroke="#334155" />
+            <path d={chart.ask} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+            <path d={chart.model} fill="none" stroke="#fb923c" strokeWidth={1.5} />
+            <text x={2} y={PAD} fontSize={9} fill="#64748b">{(chart.maxP * 100).toFixed(0)}%</text>
+            <text x={2} y={PRICE_HEIGHT - PAD} fontSize={9} fill="#64748b">{(chart.minP * 100).toFixed(0)}%</text>
+            <text x={PAD} y={PRICE_HEIGHT - 10} fontSize={9} fill="#64748b">{new Date(chart.minT).toLocaleString()}</text>
+            <text x={WIDTH - PAD} y={PRICE_HEIGHT - 10} fontSize={9} fill="#64748b" textAnchor="end">{new Date(chart.maxT).toLocaleString()}</text>
+
+            <g transform={`translate(0, ${PRICE_HEIGHT})`}>
+              <line x1={PAD} y1={chart.edgeMid} x2={WIDTH - PAD} y2={chart.edgeMid} stroke="#334155" />
+              {chart.bars.map((b, i) => (
+                <rect
+                  key={i}
+                  x={b.x}
+                  y={b.positive ? chart.edgeMid - b.height : chart.edgeMid}
+                  width={chart.barWidth}
+                  height={b.height}
+                  fill={b.positive ? '#4ade80' : '#f87171'}
+                  opacity={0.7}
+                >
+                  <title>{b.title}</title>
+                </rect>
+              ))}
+              <text x={2} y={10} fontSize={9} fill="#64748b">+{chart.maxAbsEdge.toFixed(0)}</text>
+              <text x={2} y={EDGE_HEIGHT - 2} fontSize={9} fill="#64748b">-{chart.maxAbsEdge.toFixed(0)}</text>
+            </g>
+          </svg>
+          <div className="flex gap-3 text-[10px] text-slate-500 mt-1">
+            <span><span className="text-blue-400">—</span> Polymarket ask</span>
+            <span><span className="text-orange-400">—</span> Model probability</span>
+            <span><span className="text-green-400">■</span>/<span className="text-red-400">■</span> Edge (pts)</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MarketHistory;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { ContractSpec, ModelCalibrations } from '../types';
+import { MC_CANCELLED, runContractMonteCarlo } from '../services/monteCarloPool';
+import { runModelJob } from '../services/modelWorker';
+import { DEFAULT_MC_SEED } from '../utils/math';
+import { priceContract } from '../utils/pricing';
+import { Layers } from 'lucide-react';
+
+interface Props {
+  spec: ContractSpec;
+  spotPrice: number; // Not every live tick: a change reprices every model
+  timeToExpiry: number; // Years
+  ivAt: (strike: number) => number | null;
+  calibrations: ModelCalibrations | null;
+  spreadProb: number | null; // Call-spread mid, when the contract can be replicated
+  polyYesPrice: number;
+  onRecalibrate: () => void;
+}
+
+interface Row {
+  label: string;
+  prob: number | null;
+  detail: string;
+  fit: string | null;
+}
+
+const pct = (v: number, digits = 1) => `${(v * 100).toFixed(digits)}%`;
+
+/**
+ * Side-by-side probabilities from every model, to show how much the answer
+ * depends on the model rather than the market.
+ */
+const ModelComparison: React.FC<Props> = ({ spec, spotPrice, timeToExpiry, ivAt, calibrations, spreadProb, polyYesPrice, onRecalibrate }) => {
+  const [modelRows, setModelRows] = useState<Row[] | null>(null);
+
+  useEffect(() => {
+    if (!calibrations) return;
+    setModelRows(null);
+    const params = { spot: spotPrice, T: timeToExpiry, ivAt: (K: number) => ivAt(K) ?? 0 };
+    const { merton, heston } = calibrations;
+    const isTouch = spec.type === 'touch-up' || spec.type === 'touch-down';
+
+    // Monte Carlo on the pool, Merton/Heston in model workers (touch contracts simulate)
+    const mc = runContractMonteCarlo(spec, { ...params, model: 'MC', iterations: 20000 }, { seed: DEFAULT_MC_SEED, antithetic: true, controlVariate: true });
+    const mertonJob = merton ? runModelJob({ kind: 'price', spec, model: { type: 'MERTON', params: merton.params }, spot: spotPrice, T: timeToExpiry }) : null;
+    const hestonJob = heston ? runModelJob({ kind: 'price', spec, model: { type: 'HESTON', params: heston.params }, spot: spotPrice, T: timeToExpiry }) : null;
+
+    const buildRows = (mcProb: number | null, mertonProb: number | null, hestonProb: number | null): Row[] => [
+      {
+        label: 'Black-Scholes (smile)',
+        // Touch contracts use the closed-form barrier: BS would simulate them inline
+        prob: priceContract(spec, { ...params, model: isTouch ? 'BARRIER' : 'BS' }),
+        detail: isTouch ? 'Lognormal, closed-form touch' : 'Lognormal, IV per strike',
+        fit: null
+      },
+      {
+        label: 'Risk-neutral density',
+        prob: spec.type === 'close' || spec.type === 'range' ? priceContract(spec, { ...params, model: 'DENSITY' }) : null,
+        detail: spec.type === 'close' || spec.type === 'range' ? 'Breeden-Litzenberger on the smile' : 'Terminal only, no path',
+        fit: null
+      },
+      { label: 'Monte Carlo', prob: mcProb, detail: 'Lognormal paths, daily steps', fit: null },
+      {
+        label: 'Merton jump-diffusion',
+        prob: mertonProb,
+        detail: merton
+          ? `σ ${pct(merton.params.sigma, 0)} · λ ${merton.params.lambda.toFixed(1)}/yr · jump ${pct(merton.params.muJ)} ± ${pct(merton.params.deltaJ)}`
+          : 'Calibration failed',
+        fit: merton ? `${merton.rmseVolPts.toFixed(2)} vol pts` : null
+      },
+      {
+        label: 'Heston stochastic vol',
+        prob: hestonProb,
+        detail: heston
+          ? `√v₀ ${pct(Math.sqrt(heston.params.v0), 0)} · √θ ${pct(Math.sqrt(heston.params.theta), 0)} · ξ ${heston.params.xi.toFixed(2)} · ρ ${heston.params.rho.toFixed(2)}`
+          : 'Calibration failed',
+        fit: heston ? `${heston.rmseVolPts.toFixed(2)} vol pts` : null
+      }
+    ];
+
+    Promise.all([mc.promise, mertonJob ? mertonJob.promise : null, hestonJob ? hestonJob.promise : null])
+      .then(([mcResult, mertonProb, hestonProb]) => setModelRows(buildRows(mcResult ? mcResult.prob : null, mertonProb, hestonProb)))
+      .catch(err => {
+        if (err.message === MC_CANCELLED) return;
+        console.error(err);
+        setModelRows(buildRows(null, null, null));
+      });
+
+    return () => {
+      mc.cancel();
+      mertonJob?.cancel();
+      hestonJob?.cancel();
+    };
+  }, [spec, spotPrice, timeToExpiry, ivAt, calibrations]);
+
+  // The call spread reads listed marks, so it follows live quotes without repricing the models
+  const rows = modelRows && [
+    ...modelRows,
+    { label: 'Call spread (model-free)', prob: spreadProb, detail: spreadProb === null ? 'Not replicable' : 'Listed call marks', fit: null }
+  ];
+
+  const probs = (rows || []).map(r => r.prob).filter((p): p is number => p !== null);
+  const dispersion = probs.length > 1 ? Math.max(...probs) - Math.min(...probs) : null;
+  const calibratedAt = calibrations?.merton?.calibratedAt || calibrations?.heston?.calibratedAt;
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center gap-2 mb-2">
+        <Layers size={14} className="text-slate-500" />
+        <span className="text-slate-500 uppercase tracking-wider">Model Comparison</span>
+        {calibratedAt && <span className="text-[10px] text-slate-600">calibrated {new Date(calibratedAt).toLocaleTimeString()}</span>}
+        <button onClick={onRecalibrate} className="ml-auto text-blue-400 hover:text-blue-300">Recalibrate</button>
+      </div>
+      {!calibrations || !rows ? (
+        <div className="animate-pulse text-slate-500">Calibrating to the option chain...</div>
+      ) : (
+        <>
+          <table className="w-full">
+            <thead>
+              <tr className="text-slate-500 text-left border-b border-slate-800">
+                <th className="py-1">Model</th>
+                <th className="py-1">Parameters</th>
+                <th className="py-1 text-right">Fit RMSE</th>
+                <th className="py-1 text-right">Probability</th>
+                <th className="py-1 text-right">Edge</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {rows.map(row => {
+                const edge = row.prob !== null && polyYesPrice > 0 ? (row.prob - polyYesPrice) * 100 : null;
+                return (
+                  <tr key={row.label} className="border-b border-slate-800/50">
+                    <td className="py-1 font-sans text-slate-300">{row.label}</td>
+                    <td className="py-1 text-slate-500 text-[10px]">{row.detail}</td>
+                    <td className="py-1 text-right text-slate-500">{row.fit || '-'}</td>
+                    <td className="py-1 text-right text-white">{row.prob !== null ? pct(row.prob) : '-'}</td>
+                    <td className={`py-1 text-right ${edge === null ? 'text-slate-600' : edge > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {edge === null ? '-' : `${edge > 0 ? '+' : ''}${edge.toFixed(1)}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {dispersion !== null && (
+            <p className={`mt-2 ${dispersion * 100 > 5 ? 'text-amber-400' : 'text-slate-500'}`}>
+              Models disagree by {(dispersion * 100).toFixed(1)} pts{dispersion * 100 > 5 ? ': treat the edge as model risk, not mispricing.' : '.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModelComparison;
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { MarkedPosition, PositionLeg } from '../types';
+import { usePositions } from '../hooks/usePositions';
+import { parsePositionsCsv, positionsToCsv } from '../utils/positions';
+import { parseDeribitInstrument } from '../utils/helpers';
+import { Briefcase, Download, Plus, RefreshCw, Trash2, Upload } from 'lucide-react';
+
+const signedUsd = (v: number) => `${v >= 0 ? '+' : '-'}$${Math.abs(v).toFixed(2)}`;
+const pnlColor = (v: number | null) => (v === null ? 'text-slate-500' : v >= 0 ? 'text-green-400' : 'text-red-400');
+const formatDelta = (deltaByAsset: Record<string, number>) =>
+  Object.entries(deltaByAsset).map(([asset, d]) => `${d >= 0 ? '+' : ''}${d.toFixed(3)} ${asset}`).join(' · ') || '-';
+
+const describeLeg = (leg: PositionLeg) =>
+  leg.venue === 'polymarket'
+    ? `${leg.market?.question || `Market ${leg.marketId}`} · ${leg.outcome}`
+    : leg.instrumentName;
+
+const formatSize = (leg: PositionLeg) =>
+  leg.venue === 'polymarket' ? `${leg.shares} sh` : `${leg.contracts > 0 ? '+' : ''}${leg.contracts} ct`;
+
+const formatPrice = (m: MarkedPosition, price: number | null) => {
+  if (price === null) return '-';
+  return m.leg.venue === 'polymarket' ? `${(price * 100).toFixed(1)}¢` : `$${price.toFixed(2)}`;
+};
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Polymarket and Deribit legs marked to market and to model, with aggregate
+ * delta/vega and an expiry ladder.
+ */
+const PositionsView: React.FC = () => {
+  const { legs, marked, summary, refreshing, lastRefresh, errors, refresh, addLegs, removeLeg } = usePositions();
+  const [venue, setVenue] = useState<PositionLeg['venue']>('polymarket');
+  const [id, setId] = useState('');
+  const [outcome, setOutcome] = useState('Yes');
+  const [size, setSize] = useState('');
+  const [entry, setEntry] = useState('');
+  const [csv, setCsv] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const addLeg = () => {
+    const now = Date.now();
+    const sizeNum = parseFloat(size);
+    const entryNum = parseFloat(entry);
+    if (!id.trim() || isNaN(sizeNum) || sizeNum === 0 || isNaN(entryNum)) {
+      setFormError('Fill in every field.');
+      return;
+    }
+    if (venue === 'polymarket') {
+      if (sizeNum < 0) {
+        setFormError("Polymarket shares can't be negative; hold the other outcome instead.");
+        return;
+      }
+      addLegs([{ id: `pos-${now}`, venue, marketId: id.trim(), outcome, shares: sizeNum, entryPrice: entryNum / 100, market: null, description: '', openedAt: now }]);
+    } else {
+      if (!parseDeribitInstrument(id.trim())) {
+        setFormError('Unknown Deribit instrument name.');
+        return;
+      }
+      addLegs([{ id: `pos-${now}`, venue, instrumentName: id.trim().toUpperCase(), contracts: sizeNum, entryPriceUsd: entryNum, option: null, openedAt: now }]);
+    }
+    setFormError(null);
+    setId('');
+    setSize('');
+    setEntry('');
+    // Fetch quotes for the new leg right away
+    setTimeout(refresh, 0);
+  };
+
+  const importCsv = () => {
+    const { legs: imported, errors: csvErrors } = parsePositionsCsv(csv);
+    if (imported.length > 0) {
+      addLegs(imported);
+      setTimeout(refresh, 0);
+    }
+    setFormError(csvErrors.length > 0 ? csvErrors.join('; ') : null);
+    if (csvErrors.length === 0) setCsv('');
+  };
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs font-mono';
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {[
+          { label: 'Value', value: `$${summary.valueUsd.toFixed(2)}`, color: 'text-white' },
+          { label: 'Unrealized P&L', value: signedUsd(summary.pnlUsd), color: pnlColor(summary.pnlUsd) },
+          { label: 'P&L at Model', value: signedUsd(summary.modelPnlUsd), color: pnlColor(summary.modelPnlUsd) },
+          { label: 'Delta', value: formatDelta(summary.deltaByAsset), color: 'text-white' },
+          { label: 'Vega / vol pt', value: signedUsd(summary.vegaUsd), color: 'text-white' }
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-800 border border-slate-700 rounded-lg p-3">
+            <div className="text-[10px] text-slate-500 uppercase">{stat.label}</div>
+            <div className={`text-lg font-mono font-bold ${stat.color}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-slate-500">
+        <Briefcase size={14} className="text-indigo-400" />
+        <span>{legs.length} legs{summary.unmarked > 0 ? `, ${summary.unmarked} without a quote` : ''}</span>
+        {lastRefresh && <span>Marked {new Date(lastRefresh).toLocaleTimeString()}</span>}
+        <button onClick={refresh} disabled={refreshing} className="flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-50">
+          <RefreshCw size={12} className={refreshing ? 'animate-spin' : ''} /> Refresh
+        </button>
+        <button
+          onClick={() => download(positionsToCsv(legs), `polybit-positions-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv')}
+          disabled={legs.length === 0}
+          className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-50"
+        >
+          <Download size={12} /> Export CSV
+        </button>
+      </div>
+      {errors.length > 0 && <p className="text-xs text-red-400">{errors.join('; ')}</p>}
+
+      {/* Add / import */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 text-xs space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex bg-slate-900 rounded p-0.5">
+            {(['polymarket', 'deribit'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => setVenue(v)}
+                className={`px-3 py-1 rounded capitalize ${venue === v ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {venue === 'polymarket' ? 'Market ID' : 'Instrument'}
+            <input value={id} onChange={(e) => setId(e.target.value)} placeholder={venue === 'polymarket' ? '516710' : 'BTC-27MAR26-100000-C'} className={`${inputClass} w-52`} />
+          </label>
+          {venue === 'polymarket' && (
+            <label className="flex flex-col gap-1 text-slate-400">
+              Outcome
+              <select value={outcome} onChange={(e) => setOutcome(e.target.value)} className={inputClass}>
+                <option value="Yes">Yes</option>
+                <option value="No">No</option>
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-slate-400">
+            {venue === 'polymarket' ? 'Shares' : 'Contracts (- = short)'}
+            <input type="number" value={size} onChange={(e) => setSize(e.target.value)} className={`${inputClass} w-28`} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {venue === 'polymarket' ? 'Entry (¢)' : 'Entry ($ / contract)'}
+            <input type="number" value={entry} onChange={(e) => setEntry(e.target.value)} className={`${inputClass} w-28`} />
+          </label>
+          <button onClick={addLeg} className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded px-3 py-1.5">
+            <Plus size={12} /> Add Leg
+          </button>
+        </div>
+        <div className="flex items-start gap-3">
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            rows={3}
+            placeholder={'venue,id,outcome,size,entry\npolymarket,516710,Yes,500,0.42\nderibit,BTC-27MAR26-100000-C,,-0.5,2150'}
+            className={`${inputClass} flex-1`}
+          />
+          <button onClick={importCsv} disabled={!csv.trim()} className="flex items-center gap-1 border border-slate-600 rounded px-3 py-1.5 text-slate-300 hover:text-white hover:border-indigo-500 disabled:opacity-50">
+            <Upload size={12} /> Import
+          </button>
+        </div>
+        {formError && <p className="text-red-400">{formError}</p>}
+      </div>
+
+      {/* Legs */}
+      {marked.length > 0 && (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 border-b border-slate-700 text-left">
+                <th className="p-2">Leg</th>
+                <th className="p-2 text-right">Size</th>
+                <th className="p-2 text-right">Entry</th>
+                <th className="p-2 text-right">Mark</th>
+                <th className="p-2 text-right">Model</th>
+                <th className="p-2 text-right">P&L</th>
+                <th className="p-2 text-right">P&L (Model)</th>
+                <th className="p-2 text-right">Delta</th>
+                <th className="p-2 text-right">Vega</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {marked.map(m => (
+                <tr key={m.leg.id} className="border-b border-slate-700/50">
+                  <td className="p-2 font-sans text-slate-300 max-w-xs truncate" title={describeLeg(m.leg)}>
+                    <span className={`text-[10px] font-bold mr-2 ${m.leg.venue === 'polymarket' ? 'text-blue-400' : 'text-orange-400'}`}>
+                      {m.leg.venue === 'polymarket' ? 'POLY' : 'DERIBIT'}
+                    </span>
+                    {describeLeg(m.leg)}
+                  </td>
+                  <td className="p-2 text-right text-slate-300">{formatSize(m.leg)}</td>
+                  <td className="p-2 text-right text-slate-400">
+                    {formatPrice(m, m.leg.venue === 'polymarket' ? m.leg.entryPrice : m.leg.entryPriceUsd)}
+                  </td>
+                  <td className="p-2 text-right">{formatPrice(m, m.markPrice)}</td>
+                  <td className="p-2 text-right text-orange-400">{m.leg.venue === 'polymarket' ? formatPrice(m, m.modelPrice) : '-'}</td>
+                  <td className={`p-2 text-right ${pnlColor(m.pnlUsd)}`}>{m.pnlUsd !== null ? signedUsd(m.pnlUsd) : '-'}</td>
+                  <td className={`p-2 text-right ${pnlColor(m.modelPnlUsd)}`}>{m.modelPnlUsd !== null ? signedUsd(m.modelPnlUsd) : '-'}</td>
+                  <td className="p-2 text-right text-slate-300">{m.delta !== null ? `${m.delta.toFixed(3)} ${m.asset || ''}` : '-'}</td>
+                  <td className="p-2 text-right text-slate-300">{m.vegaUsd !== null ? signedUsd(m.vegaUsd) : '-'}</td>
+                  <td className="p-2 text-right">
+                    <button onClick={() => removeLeg(m.leg.id)} className="text-slate-500 hover:text-red-400" title="Remove leg">
+                      <Trash2 size={12} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Expiry ladder */}
+      {summary.ladder.length > 0 && (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-x-auto">
+          <div className="px-3 pt-3 text-[10px] text-slate-500 uppercase tracking-wider">Expiry Ladder</div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 border-b border-slate-700 text-left">
+                <th className="p-2">Expiry (UTC)</th>
+                <th className="p-2 text-right">Legs</th>
+                <th className="p-2 text-right">Value</th>
+                <th className="p-2 text-right">P&L</th>
+                <th className="p-2 text-right">Delta</th>
+                <th className="p-2 text-right">Vega</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {summary.ladder.map(rung => (
+                <tr key={rung.expiry} className="border-b border-slate-700/50">
+                  <td className="p-2 text-slate-300">{new Date(rung.expiry).toISOString().slice(0, 10)}</td>
+                  <td className="p-2 text-right text-slate-400">{rung.legs}</td>
+                  <td className="p-2 text-right">${rung.valueUsd.toFixed(2)}</td>
+                  <td className={`p-2 text-right ${pnlColor(rung.pnlUsd)}`}>{signedUsd(rung.pnlUsd)}</td>
+                  <td className="p-2 text-right text-slate-300">{formatDelta(rung.deltaByAsset)}</td>
+                  <td className="p-2 text-right text-slate-300">{signedUsd(rung.vegaUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {legs.length === 0 && (
+        <p className="text-xs text-slate-500 text-center py-6 border border-dashed border-slate-800 rounded-lg">
+          No positions yet. Add legs above or paste rows exported from your spreadsheet.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PositionsView;
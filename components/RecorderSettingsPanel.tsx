@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { RecorderSettings } from '../types';
+import { clearSnapshots, countSnapshots, getAllSnapshots, pruneSnapshots } from '../services/snapshotStore';
+import { snapshotsToCsv } from '../utils/snapshots';
+import { Database, Download } from 'lucide-react';
+
+interface Props {
+  settings: RecorderSettings;
+  onChange: (settings: RecorderSettings) => void;
+}
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Snapshot recorder controls: on/off, retention, export and clear.
+ */
+const RecorderSettingsPanel: React.FC<Props> = ({ settings, onChange }) => {
+  const [count, setCount] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refreshCount = () => countSnapshots().then(setCount).catch(() => setCount(null));
+
+  useEffect(() => {
+    refreshCount();
+  }, []);
+
+  const exportAs = async (format: 'json' | 'csv') => {
+    setBusy(true);
+    try {
+      const snapshots = await getAllSnapshots();
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === 'json') download(JSON.stringify(snapshots, null, 2), `polybit-snapshots-${stamp}.json`, 'application/json');
+      else download(snapshotsToCsv(snapshots), `polybit-snapshots-${stamp}.csv`, 'text/csv');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const clear = async () => {
+    if (!window.confirm('Delete all recorded snapshots?')) return;
+    await clearSnapshots();
+    refreshCount();
+  };
+
+  const prune = async () => {
+    await pruneSnapshots(settings.retentionDays);
+    refreshCount();
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 shadow-xl w-80 mt-2">
+      <div className="flex items-center gap-2 mb-3 border-b border-slate-700 pb-2">
+        <Database size={16} className="text-purple-400" />
+        <h3 className="font-bold text-sm text-slate-200">Snapshot Recorder</h3>
+        <span className="ml-auto text-[10px] text-slate-500 font-mono">{count !== null ? `${count.toLocaleString()} stored` : 'unavailable'}</span>
+      </div>
+      <div className="space-y-3 text-xs">
+        <label className="flex items-center justify-between text-slate-300">
+          Record snapshots
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} />
+        </label>
+        <div className="flex items-center justify-between gap-3">
+          <label className="text-slate-300">Retention (days)</label>
+          <input
+            type="number"
+            min={1}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white w-20 font-mono text-right"
+            value={settings.retentionDays}
+            onChange={(e) => onChange({ ...settings, retentionDays: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        </div>
+        <div className="flex items-center gap-3 pt-1">
+          <button disabled={busy} onClick={() => exportAs('csv')} className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:opacity-50">
+            <Download size={12} /> CSV
+          </button>
+          <button disabled={busy} onClick={() => exportAs('json')} className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:opacity-50">
+            <Download size={12} /> JSON
+          </button>
+          <button onClick={prune} className="text-slate-500 hover:text-white ml-auto">Prune</button>
+          <button onClick={clear} className="text-slate-500 hover:text-red-400">Clear</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecorderSettingsPanel;
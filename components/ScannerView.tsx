@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { CostSettings, LlmProviderId, ScannerSettings, ScanRow } from '../types';
+import MarketCard from './MarketCard';
+import { ArrowDown, ArrowUp, Plus, Radar, RefreshCw, X } from 'lucide-react';
+
+interface Props {
+  settings: ScannerSettings;
+  onSettingsChange: (settings: ScannerSettings) => void;
+  rows: ScanRow[];
+  running: boolean;
+  lastRun: number | null;
+  errors: Record<string, string>;
+  onRunNow: () => void;
+  costSettings: CostSettings;
+  streaming: boolean;
+  llmProvider: LlmProviderId;
+}
+
+type SortKey = 'edge' | 'netEdge' | 'annualizedReturn' | 'daysToExpiry' | 'liquidity' | 'volume' | 'spread' | 'modelProb' | 'polyYesPrice';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'polyYesPrice', label: 'Poly Yes' },
+  { key: 'modelProb', label: 'Model' },
+  { key: 'edge', label: 'Edge' },
+  { key: 'netEdge', label: 'Net Edge' },
+  { key: 'annualizedReturn', label: 'Ann.' },
+  { key: 'daysToExpiry', label: 'Days' },
+  { key: 'liquidity', label: 'Liquidity' },
+  { key: 'volume', label: 'Volume' },
+  { key: 'spread', label: 'Spread' }
+];
+
+const INTERVALS = [30, 60, 120, 300, 900];
+
+const formatUsd = (v: number) => v >= 1000000 ? `$${(v / 1000000).toFixed(1)}M` : v >= 1000 ? `$${(v / 1000).toFixed(0)}k` : `$${v.toFixed(0)}`;
+
+const signed = (v: number | null, digits = 1) => v === null ? '-' : `${v > 0 ? '+' : ''}${v.toFixed(digits)}%`;
+
+/**
+ * Ranked table of every scanned market across the saved queries.
+ */
+const ScannerView: React.FC<Props> = ({ settings, onSettingsChange, rows, running, lastRun, errors, onRunNow, costSettings, streaming, llmProvider }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('netEdge');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [newQuery, setNewQuery] = useState('');
+  const [selected, setSelected] = useState<ScanRow | null>(null);
+  const [filters, setFilters] = useState({ text: '', asset: 'ALL', minEdge: '', minNetEdge: '', maxSpread: '', minLiquidity: '', maxDays: '' });
+
+  const assets = useMemo(() => Array.from(new Set(rows.map(r => r.opportunity.asset).filter(Boolean))) as string[], [rows]);
+
+  const visibleRows = useMemo(() => {
+    const num = (v: string) => (v === '' ? null : parseFloat(v));
+    const minEdge = num(filters.minEdge);
+    const minNetEdge = num(filters.minNetEdge);
+    const maxSpread = num(filters.maxSpread);
+    const minLiquidity = num(filters.minLiquidity);
+    const maxDays = num(filters.maxDays);
+    const text = filters.text.toLowerCase();
+
+    const filtered = rows.filter(r =>
+      (!text || r.market.question.toLowerCase().includes(text) || r.opportunity.polyEvent.title.toLowerCase().includes(text)) &&
+      (filters.asset === 'ALL' || r.opportunity.asset === filters.asset) &&
+      (minEdge === null || (r.edge !== null && r.edge >= minEdge)) &&
+      (minNetEdge === null || (r.netEdge !== null && r.netEdge >= minNetEdge)) &&
+      (maxSpread === null || r.spread <= maxSpread) &&
+      (minLiquidity === null || r.liquidity >= minLiquidity) &&
+      (maxDays === null || r.daysToExpiry <= maxDays)
+    );
+
+    // Rows without a value always sink to the bottom
+    return filtered.sort((a, b) => {
+      const va = a[sortKey];
+      const vb = b[sortKey];
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      return sortDesc ? vb - va : va - vb;
+    });
+  }, [rows, filters, sortKey, sortDesc]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(!sortDesc);
+    else {
+      setSortKey(key);
+      setSortDesc(true);
+    }
+  };
+
+  const addQuery = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = newQuery.trim();
+    if (!q || settings.queries.includes(q)) return;
+    onSettingsChange({ ...settings, queries: [...settings.queries, q] });
+    setNewQuery('');
+  };
+
+  const filterInput = (key: keyof typeof filters, placeholder: string, width = 'w-20') => (
+    <input
+      type="number"
+      placeholder={placeholder}
+      value={filters[key]}
+      onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+      className={`bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs font-mono ${width}`}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <Radar size={18} className="text-cyan-400" />
+          <h3 className="font-bold text-slate-200">Opportunity Scanner</h3>
+          <label className="flex items-center gap-2 text-xs text-slate-400 ml-auto">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            />
+            Auto-refresh every
+          </label>
+          <select
+            value={settings.refreshIntervalSec}
+            onChange={(e) => onSettingsChange({ ...settings, refreshIntervalSec: parseInt(e.target.value) })}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+          >
+            {INTERVALS.map(s => <option key={s} value={s}>{s < 60 ? `${s}s` : `${s / 60}m`}</option>)}
+          </select>
+          <button
+            onClick={onRunNow}
+            disabled={running}
+            className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold px-3 py-1.5 rounded disabled:opacity-50"
+          >
+            <RefreshCw size={12} className={running ? 'animate-spin' : ''} />
+            Scan Now
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {settings.queries.map(q => (
+            <span key={q} className={`flex items-center gap-1 text-xs px-2 py-1 rounded border ${errors[q] ? 'border-red-500/50 text-red-400' : 'border-slate-600 text-slate-300'}`} title={errors[q]}>
+              {q}
+              <button onClick={() => onSettingsChange({ ...settings, queries: settings.queries.filter(x => x !== q) })} className="text-slate-500 hover:text-white">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <form onSubmit={addQuery} className="flex items-center gap-1">
+            <input
+              type="text"
+              placeholder="Add saved query"
+              value={newQuery}
+              onChange={(e) => setNewQuery(e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs w-40"
+            />
+            <button type="submit" className="text-slate-400 hover:text-white"><Plus size={14} /></button>
+          </form>
+          <span className="text-[10px] text-slate-500 ml-auto">
+            {lastRun ? `Last scan ${new Date(lastRun).toLocaleTimeString()} · ${rows.length} markets` : 'Not scanned yet'}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          <input
+            type="text"
+            placeholder="Filter text"
+            value={filters.text}
+            onChange={(e) => setFilters({ ...filters, text: e.target.value })}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs w-40"
+          />
+          <select
+            value={filters.asset}
+            onChange={(e) => setFilters({ ...filters, asset: e.target.value })}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+          >
+            <option value="ALL">All assets</option>
+            {assets.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          {filterInput('minEdge', 'Edge ≥')}
+          {filterInput('minNetEdge', 'Net ≥')}
+          {filterInput('maxSpread', 'Spread ≤')}
+          {filterInput('minLiquidity', 'Liq. ≥', 'w-24')}
+          {filterInput('maxDays', 'Days ≤')}
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-x-auto">
+        <table className="w-full text-left border-collapse text-xs">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-700">
+              <th className="p-2">Market</th>
+              <th className="p-2">Type</th>
+              {COLUMNS.map(c => (
+                <th key={c.key} className="p-2 text-right cursor-pointer hover:text-white select-none" onClick={() => toggleSort(c.key)}>
+                  <span className="inline-flex items-center gap-0.5">
+                    {c.label}
+                    {sortKey === c.key && (sortDesc ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {visibleRows.map(r => {
+              const isGood = r.netEdge !== null && r.netEdge > costSettings.minNetEdgePct;
+              return (
+                <tr
+                  key={r.key}
+                  onClick={() => setSelected(r)}
+                  className={`border-b border-slate-700/50 cursor-pointer hover:bg-slate-900/50 transition-colors ${isGood ? 'bg-green-500/5' : ''}`}
+                >
+                  <td className="p-2 font-sans max-w-xs">
+                    <div className="text-slate-200 truncate">{r.market.question}</div>
+                    <div className="text-[10px] text-slate-500 truncate">{r.opportunity.asset || '?'} · {r.opportunity.polyEvent.title}</div>
+                  </td>
+                  <td className="p-2 text-slate-400">{r.spec.type}</td>
+                  <td className="p-2 text-right text-blue-400">{(r.polyYesPrice * 100).toFixed(1)}%</td>
+                  <td className="p-2 text-right text-slate-200">{r.modelProb !== null ? `${(r.modelProb * 100).toFixed(1)}%` : '-'}</td>
+                  <td className={`p-2 text-right ${r.edge !== null && r.edge > 0 ? 'text-green-400' : 'text-slate-400'}`}>{signed(r.edge)}</td>
+                  <td className={`p-2 text-right font-bold ${isGood ? 'text-green-400' : 'text-slate-400'}`}>{signed(r.netEdge, 2)}</td>
+                  <td className="p-2 text-right text-slate-400">
+                    {r.annualizedReturn === null ? '-' : `${(r.annualizedReturn * 100).toFixed(0)}%`}
+                  </td>
+                  <td className="p-2 text-right text-slate-400">{r.daysToExpiry.toFixed(1)}</td>
+                  <td className="p-2 text-right text-slate-400">{formatUsd(r.liquidity)}</td>
+                  <td className="p-2 text-right text-slate-400">{formatUsd(r.volume)}</td>
+                  <td className={`p-2 text-right ${r.spread > 5 ? 'text-red-400' : 'text-slate-400'}`}>{r.spread.toFixed(1)}%</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <div className="text-center py-10 text-slate-500 text-sm">
+            {running ? 'Scanning...' : rows.length === 0 ? 'Run a scan to rank opportunities.' : 'No markets match the filters.'}
+          </div>
+        )}
+      </div>
+
+      {/* Full card */}
+      {selected && (
+        <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm overflow-y-auto p-4" onClick={() => setSelected(null)}>
+          <div className="max-w-5xl mx-auto mt-10" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-end mb-2">
+              <button onClick={() => setSelected(null)} className="text-slate-400 hover:text-white flex items-center gap-1 text-xs">
+                <X size={16} /> Close
+              </button>
+            </div>
+            <MarketCard data={selected.opportunity} streaming={streaming} costSettings={costSettings} llmProvider={llmProvider} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScannerView;
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { VolSmile } from '../types';
+
+interface Props {
+  smile: VolSmile;
+  targetStrike?: number;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = 24;
+
+/**
+ * Plots the fitted volatility smile against the Deribit market points.
+ */
+const SmileChart: React.FC<Props> = ({ smile, targetStrike }) => {
+  const { curve, dots, target, minK, maxK, minIv, maxIv } = useMemo(() => {
+    const strikes = smile.points.map(p => p.strike);
+    if (targetStrike) strikes.push(targetStrike);
+    const minK = Math.min(...strikes);
+    const maxK = Math.max(...strikes);
+
+    // Sample the fitted curve
+    const samples: { k: number; iv: number }[] = [];
+    for (let i = 0; i <= 60; i++) {
+      const k = minK + ((maxK - minK) * i) / 60;
+      samples.push({ k, iv: smile.ivAt(k) });
+    }
+
+    const ivs = [...samples.map(s => s.iv), ...smile.points.map(p => p.iv)];
+    const minIv = Math.min(...ivs) * 0.95;
+    const maxIv = Math.max(...ivs) * 1.05;
+
+    const x = (k: number) => PAD + ((k - minK) / (maxK - minK || 1)) * (WIDTH - 2 * PAD);
+    const y = (iv: number) => HEIGHT - PAD - ((iv - minIv) / (maxIv - minIv || 1)) * (HEIGHT - 2 * PAD);
+
+    return {
+      curve: samples.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s.k).toFixed(1)},${y(s.iv).toFixed(1)}`).join(' '),
+      dots: smile.points.map(p => ({ ...p, cx: x(p.strike), cy: y(p.iv) })),
+      target: targetStrike ? { cx: x(targetStrike), cy: y(smile.ivAt(targetStrike)) } : null,
+      minK, maxK, minIv, maxIv
+    };
+  }, [smile, targetStrike]);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} stroke="#334155" />
+        <line x1={PAD} y1={PAD} x2={PAD} y2={HEIGHT - PAD} stroke="#334155" />
+        <path d={curve} fill="none" stroke="#fb923c" strokeWidth={1.5} />
+        {dots.map(d => (
+          <circle key={d.instrumentName} cx={d.cx} cy={d.cy} r={2.5} fill={d.type === 'C' ? '#4ade80' : '#f87171'}>
+            <title>{`${d.instrumentName}: ${d.iv.toFixed(1)}%`}</title>
+          </circle>
+        ))}
+        {target && (
+          <>
+            <line x1={target.cx} y1={PAD} x2={target.cx} y2={HEIGHT - PAD} stroke="#60a5fa" strokeDasharray="3 3" />
+            <circle cx={target.cx} cy={target.cy} r={3.5} fill="#60a5fa" />
+          </>
+        )}
+        <text x={PAD} y={HEIGHT - 6} fontSize={9} fill="#64748b">${minK.toLocaleString()}</text>
+        <text x={WIDTH - PAD} y={HEIGHT - 6} fontSize={9} fill="#64748b" textAnchor="end">${maxK.toLocaleString()}</text>
+        <text x={2} y={PAD} fontSize={9} fill="#64748b">{maxIv.toFixed(0)}%</text>
+        <text x={2} y={HEIGHT - PAD} fontSize={9} fill="#64748b">{minIv.toFixed(0)}%</text>
+      </svg>
+      <div className="flex gap-3 text-[10px] text-slate-500 mt-1">
+        <span><span className="text-orange-400">—</span> Fitted smile</span>
+        <span><span className="text-green-400">●</span> OTM calls</span>
+        <span><span className="text-red-400">●</span> OTM puts</span>
+        <span><span className="text-blue-400">●</span> Target strike</span>
+      </div>
+    </div>
+  );
+};
+
+export default SmileChart;
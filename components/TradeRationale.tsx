@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { LlmProviderId, TradeRationaleInput } from '../types';
+import { getLlmProvider, writeTradeRationale } from '../services/llm';
+import { Sparkles } from 'lucide-react';
+
+interface Props {
+  input: TradeRationaleInput;
+  provider: LlmProviderId;
+}
+
+/**
+ * On-demand plain-language explanation of a flagged edge. Written once per
+ * click, so live ticks don't call the model; the figures it quotes are as of then.
+ */
+const TradeRationale: React.FC<Props> = ({ input, provider }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(null);
+    setError(null);
+  }, [input.question, provider]);
+
+  const explain = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setText(await writeTradeRationale(provider, input));
+    } catch (err: any) {
+      setError(err.message || 'Failed to write a rationale');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full mt-2 text-left text-[11px]">
+      {text && <p className="text-slate-300 leading-snug mb-1">{text}</p>}
+      {error && <p className="text-red-400 mb-1">{error}</p>}
+      <button
+        onClick={explain}
+        disabled={loading}
+        className="flex items-center gap-1 text-violet-400 hover:text-violet-300 disabled:opacity-50"
+      >
+        <Sparkles size={12} />
+        {loading ? 'Writing...' : text ? 'Explain again with current figures' : `Explain this edge (${getLlmProvider(provider).name})`}
+      </button>
+    </div>
+  );
+};
+
+export default TradeRationale;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { VenueSettings } from '../types';
+import { OPTIONS_PROVIDERS } from '../services/venues';
+import { SUPPORTED_ASSETS } from '../utils/assets';
+import { Layers } from 'lucide-react';
+
+interface Props {
+  settings: VenueSettings;
+  onChange: (settings: VenueSettings) => void;
+}
+
+/**
+ * Chooses the options venue the vol, smiles and hedges come from.
+ */
+const VenueSettingsPanel: React.FC<Props> = ({ settings, onChange }) => (
+  <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 shadow-xl w-80 mt-2">
+    <div className="flex items-center gap-2 mb-3 border-b border-slate-700 pb-2">
+      <Layers size={16} className="text-orange-400" />
+      <h3 className="font-bold text-sm text-slate-200">Options Venue</h3>
+    </div>
+    <div className="space-y-2 text-xs">
+      {Object.values(OPTIONS_PROVIDERS).map(provider => (
+        <label key={provider.id} className="flex items-center gap-2 text-slate-300 cursor-pointer">
+          <input
+            type="radio"
+            name="optionsVenue"
+            checked={settings.optionsVenue === provider.id}
+            onChange={() => onChange({ ...settings, optionsVenue: provider.id })}
+          />
+          {provider.name}
+          <span className="ml-auto text-[10px] text-slate-500 font-mono">
+            {Object.keys(SUPPORTED_ASSETS).filter(provider.supportsAsset).join(', ')}
+          </span>
+        </label>
+      ))}
+      <p className="text-[10px] text-slate-500">Live streaming and position marks use Deribit.</p>
+    </div>
+  </div>
+);
+
+export default VenueSettingsPanel;
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertRule, AlertSettings, FiredAlert, ScanRow } from '../types';
+import { evaluateAlertRule, getLastFiredTimes, ProbHistory, updateProbHistory } from '../utils/alerts';
+import { postWebhookAlert, sendBrowserNotification } from '../services/notifications';
+import { loadAlertHistory, MAX_ALERT_HISTORY, saveAlertHistory } from '../services/settings';
+
+/**
+ * Evaluates alert rules after every scanner pass and dispatches notifications.
+ * Model-probability history for "moved X pts in N minutes" rules is kept in memory;
+ * cooldowns start from the persisted history, so a reload doesn't re-fire everything.
+ */
+export const useAlerts = (rows: ScanRow[], lastRun: number | null, rules: AlertRule[], settings: AlertSettings) => {
+  const [history, setHistory] = useState<FiredAlert[]>(loadAlertHistory);
+  const probHistory = useRef<ProbHistory>({});
+  const lastFired = useRef<Record<string, number> | null>(null);
+  if (lastFired.current === null) lastFired.current = getLastFiredTimes(history);
+
+  useEffect(() => {
+    if (lastRun === null) return;
+    const now = lastRun;
+    const fired: FiredAlert[] = [];
+
+    rows.forEach(row => {
+      rules.forEach(rule => {
+        const message = evaluateAlertRule(rule, row, probHistory.current, now);
+        if (!message) return;
+
+        const cooldownKey = `${rule.id}:${row.key}`;
+        const cooldowns = lastFired.current!;
+        if (now - (cooldowns[cooldownKey] || 0) < rule.cooldownMinutes * 60 * 1000) return;
+        cooldowns[cooldownKey] = now;
+
+        fired.push({
+          id: `${cooldownKey}:${now}`,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          marketKey: row.key,
+          question: row.market.question,
+          message,
+          firedAt: now
+        });
+        if (rule.channels.browser) sendBrowserNotification(fired[fired.length - 1]);
+        if (rule.channels.webhook) postWebhookAlert(settings.webhookUrl, fired[fired.length - 1]);
+      });
+    });
+
+    // Record after evaluating, so a move is measured against earlier scans only
+    probHistory.current = updateProbHistory(probHistory.current, rows, now);
+
+    if (fired.length > 0) {
+      setHistory(prev => {
+        const next = [...fired, ...prev].slice(0, MAX_ALERT_HISTORY);
+        saveAlertHistory(next);
+        return next;
+      });
+    }
+    // Evaluate once per scanner pass
+  }, [lastRun]);
+
+  const clearHistory = () => {
+    setHistory([]);
+    saveAlertHistory([]);
+  };
+
+  return { history, clearHistory };
+};
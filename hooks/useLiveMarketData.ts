@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { OptionQuote } from '../types';
+import { getDeribitStream, StreamStatus, TickerUpdate } from '../services/deribitStream';
+
+// Ticks arrive every 100ms per instrument; re-pricing is throttled to this rate
+const FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * Overlays the defined fields of a Deribit tick on a quote, so partial ticks
+ * never erase snapshot values.
+ */
+const applyTicker = (opt: OptionQuote, update: TickerUpdate): OptionQuote => ({
+  ...opt,
+  mark: update.mark_price ?? opt.mark,
+  iv: update.mark_iv ?? opt.iv,
+  bid: update.bid_price !== undefined ? update.bid_price : opt.bid,
+  ask: update.ask_price !== undefined ? update.ask_price : opt.ask,
+  underlyingPrice: update.underlying_price ?? opt.underlyingPrice,
+  openInterest: update.open_interest ?? opt.openInterest,
+  quotedAt: update.creation_timestamp ?? opt.quotedAt
+});
+
+/**
+ * Overlays streamed index and ticker updates on REST snapshot data.
+ * Subscribes only while `enabled`, and only to the given Deribit instruments;
+ * quotes from other venues pass through unchanged.
+ */
+export const useLiveMarketData = (
+  enabled: boolean,
+  indexName: string | null,
+  spotPrice: number,
+  options: OptionQuote[]
+) => {
+  const [liveSpot, setLiveSpot] = useState<number | null>(null);
+  const [tickers, setTickers] = useState<Record<string, TickerUpdate>>({});
+  const [status, setStatus] = useState<StreamStatus>('idle');
+  const buffer = useRef<{ spot: number | null; tickers: Record<string, TickerUpdate> }>({ spot: null, tickers: {} });
+
+  const streamed = options.filter(o => o.venue === 'deribit');
+  const instrumentKey = streamed.map(o => o.instrument).join(',');
+
+  useEffect(() => {
+    if (!enabled || !indexName) {
+      setLiveSpot(null);
+      setTickers({});
+      setStatus('idle');
+      return;
+    }
+
+    const stream = getDeribitStream();
+    const unsubscribers = [
+      stream.onStatus(setStatus),
+      stream.subscribeIndex(indexName, price => { buffer.current.spot = price; }),
+      ...streamed.map(opt =>
+        stream.subscribeTicker(opt.instrument, ticker => { buffer.current.tickers[ticker.instrument_name] = ticker; })
+      )
+    ];
+
+    const timer = setInterval(() => {
+      const { spot, tickers: pending } = buffer.current;
+      if (spot !== null) setLiveSpot(spot);
+      if (Object.keys(pending).length > 0) setTickers(prev => ({ ...prev, ...pending }));
+      buffer.current = { spot: null, tickers: {} };
+    }, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+    // Keyed on instrument names, so snapshot refreshes don't resubscribe
+  }, [enabled, indexName, instrumentKey]);
+
+  const liveOptions = useMemo(() => {
+    if (Object.keys(tickers).length === 0) return options;
+    return options.map(opt => {
+      const update = opt.venue === 'deribit' ? tickers[opt.instrument] : undefined;
+      return update ? applyTicker(opt, update) : opt;
+    });
+  }, [options, tickers]);
+
+  return {
+    spotPrice: liveSpot ?? spotPrice,
+    options: liveOptions,
+    status
+  };
+};
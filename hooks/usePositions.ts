@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AssetQuotes, PositionLeg } from '../types';
+import { fetchPolymarketMarket } from '../services/api';
+import { loadPositions, savePositions } from '../services/settings';
+import { deribitProvider } from '../services/venues/deribit';
+import { detectAsset, getAssetConfigForInstrument } from '../utils/assets';
+import { markPosition, summarizePositions } from '../utils/positions';
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Saved position legs, re-marked against fresh Polymarket and Deribit quotes
+ * every 30s while mounted. Each leg keeps its last quote, so marks survive
+ * reloads and failed refreshes.
+ */
+export const usePositions = () => {
+  const [legs, setLegs] = useState<PositionLeg[]>(loadPositions);
+  const [quotes, setQuotes] = useState<Record<string, AssetQuotes>>({});
+  const [refreshing, setRefreshing] = useState(false);
+  const [lastRefresh, setLastRefresh] = useState<number | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const legsRef = useRef(legs);
+  const refreshingRef = useRef(false);
+  legsRef.current = legs;
+
+  const updateLegs = useCallback((update: (prev: PositionLeg[]) => PositionLeg[]) => {
+    setLegs(prev => {
+      const next = update(prev);
+      savePositions(next);
+      return next;
+    });
+  }, []);
+
+  const addLegs = useCallback((added: PositionLeg[]) => updateLegs(prev => [...prev, ...added]), [updateLegs]);
+  const removeLeg = useCallback((id: string) => updateLegs(prev => prev.filter(l => l.id !== id)), [updateLegs]);
+
+  const refresh = useCallback(async () => {
+    if (refreshingRef.current || legsRef.current.length === 0) return;
+    refreshingRef.current = true;
+    setRefreshing(true);
+    const nextErrors: string[] = [];
+
+    // Sequential: the proxies rate-limit parallel bursts
+    const markets: Record<string, Awaited<ReturnType<typeof fetchPolymarketMarket>>> = {};
+    const assets = new Set<string>();
+    for (const leg of legsRef.current) {
+      if (leg.venue === 'deribit') {
+        const config = getAssetConfigForInstrument(leg.instrumentName);
+        if (config) assets.add(config.symbol);
+        continue;
+      }
+      if (!markets[leg.marketId]) {
+        try {
+          markets[leg.marketId] = await fetchPolymarketMarket(leg.marketId);
+        } catch (err: any) {
+          nextErrors.push(`Polymarket ${leg.marketId}: ${err.message || 'Failed'}`);
+        }
+      }
+      const fetched = markets[leg.marketId];
+      const asset = fetched ? detectAsset(fetched.market.question, fetched.description) : null;
+      if (asset && deribitProvider.supportsAsset(asset)) assets.add(asset);
+    }
+
+    const nextQuotes: Record<string, AssetQuotes> = {};
+    for (const asset of assets) {
+      try {
+        nextQuotes[asset] = {
+          spotPrice: await deribitProvider.fetchSpot(asset),
+          options: await deribitProvider.fetchChain(asset)
+        };
+      } catch (err: any) {
+        nextErrors.push(`Deribit ${asset}: ${err.message || 'Failed'}`);
+      }
+    }
+
+    // Functional update, so legs added during the refresh are kept
+    updateLegs(prev => prev.map(leg => {
+      if (leg.venue === 'polymarket') {
+        const fetched = markets[leg.marketId];
+        return fetched ? { ...leg, market: fetched.market, description: fetched.description } : leg;
+      }
+      const asset = getAssetConfigForInstrument(leg.instrumentName)?.symbol;
+      const option = asset ? nextQuotes[asset]?.options.find(o => o.instrument === leg.instrumentName) : undefined;
+      return option ? { ...leg, option } : leg;
+    }));
+
+    setQuotes(prev => ({ ...prev, ...nextQuotes }));
+    setErrors(nextErrors);
+    setLastRefresh(Date.now());
+    setRefreshing(false);
+    refreshingRef.current = false;
+  }, [updateLegs]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const marked = useMemo(() => legs.map(leg => markPosition(leg, quotes, lastRefresh ?? Date.now())), [legs, quotes, lastRefresh]);
+  const summary = useMemo(() => summarizePositions(marked), [marked]);
+
+  return { legs, marked, summary, refreshing, lastRefresh, errors, refresh, addLegs, removeLeg };
+};
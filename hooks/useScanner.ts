@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CostSettings, OptionsVenueId, ScannerSettings, ScanRow } from '../types';
+import { fetchOpportunities } from '../services/opportunities';
+import { scanOpportunity } from '../utils/scanner';
+
+/**
+ * Periodically searches every saved query and prices every market headlessly.
+ * Runs on `refreshIntervalSec` while enabled; `runNow` forces a pass.
+ */
+export const useScanner = (settings: ScannerSettings, costSettings: CostSettings, optionsVenue: OptionsVenueId) => {
+  const [rows, setRows] = useState<ScanRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [lastRun, setLastRun] = useState<number | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const runningRef = useRef(false);
+
+  const runNow = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    setRunning(true);
+
+    const byKey: Record<string, ScanRow> = {};
+    const nextErrors: Record<string, string> = {};
+    const now = Date.now();
+
+    // Sequential: the proxies rate-limit parallel bursts
+    for (const query of settings.queries) {
+      try {
+        const opportunities = await fetchOpportunities(query, optionsVenue);
+        opportunities.forEach(opp => {
+          scanOpportunity(opp, query, costSettings, now).forEach(row => {
+            if (!byKey[row.key]) byKey[row.key] = row;
+          });
+        });
+      } catch (err: any) {
+        console.warn(`[Scanner] Query "${query}" failed: ${err.message}`);
+        nextErrors[query] = err.message || 'Failed';
+      }
+    }
+
+    setRows(Object.values(byKey));
+    setErrors(nextErrors);
+    setLastRun(now);
+    setRunning(false);
+    runningRef.current = false;
+  }, [settings.queries, costSettings, optionsVenue]);
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+    runNow();
+    const timer = setInterval(runNow, Math.max(15, settings.refreshIntervalSec) * 1000);
+    return () => clearInterval(timer);
+  }, [settings.enabled, settings.refreshIntervalSec, runNow]);
+
+  return { rows, running, lastRun, errors, runNow };
+};
@@ -0,0 +1,269 @@
+/**
+ * Local data gateway: fetches Polymarket Gamma, the Polymarket CLOB and the
+ * Deribit, OKX and Kalshi REST APIs directly, replacing the public CORS proxies.
+ * Adds per-client rate limiting, a shared response cache with in-flight
+ * deduplication, and one log line per request.
+ *
+ * Routes (GET only):
+ *   /gamma/*   -> GAMMA_BASE_URL   (default https://gamma-api.polymarket.com)
+ *   /clob/*    -> CLOB_BASE_URL    (default https://clob.polymarket.com)
+ *   /deribit/* -> DERIBIT_BASE_URL (default https://www.deribit.com)
+ *   /okx/*     -> OKX_BASE_URL     (default https://www.okx.com)
+ *   /kalshi/*  -> KALSHI_BASE_URL  (default https://api.elections.kalshi.com)
+ *   /health    -> cache and rate-limit stats
+ *
+ * And one POST route, uncached, that adds GEMINI_API_KEY server-side so the
+ * key never reaches the browser. Only pages from GATEWAY_ALLOWED_ORIGINS
+ * (default the dev server) may call it:
+ *   /gemini/v1beta/models/<model>:generateContent -> GEMINI_BASE_URL
+ *                                     (default https://generativelanguage.googleapis.com)
+ *
+ * Listens on GATEWAY_HOST, 127.0.0.1 unless set, so other machines can't reach it.
+ *
+ * Usage: npm run gateway  (then set API_MODE=gateway in .env.local)
+ * Point the *_BASE_URL variables at local mock servers to run without the network.
+ */
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_CONFIG = {
+  port: Number(process.env.GATEWAY_PORT || 8787),
+  host: process.env.GATEWAY_HOST || '127.0.0.1',
+  // Origins allowed to spend the Gemini key; other routes are open to any page
+  allowedOrigins: (process.env.GATEWAY_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',').map(origin => origin.trim()).filter(Boolean),
+  upstreams: {
+    gamma: process.env.GAMMA_BASE_URL || 'https://gamma-api.polymarket.com',
+    clob: process.env.CLOB_BASE_URL || 'https://clob.polymarket.com',
+    deribit: process.env.DERIBIT_BASE_URL || 'https://www.deribit.com',
+    okx: process.env.OKX_BASE_URL || 'https://www.okx.com',
+    kalshi: process.env.KALSHI_BASE_URL || 'https://api.elections.kalshi.com'
+  },
+  gemini: {
+    baseUrl: process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com',
+    apiKey: process.env.GEMINI_API_KEY || '',
+    timeoutMs: 30000
+  },
+  // Requests per client per minute
+  rateLimit: Number(process.env.GATEWAY_RATE_LIMIT || 120),
+  // Cache lifetime per upstream; the browser keeps its own longer cache on top
+  cacheTtlMs: {
+    gamma: Number(process.env.GATEWAY_GAMMA_TTL_MS || 10000),
+    clob: Number(process.env.GATEWAY_CLOB_TTL_MS || 5000),
+    deribit: Number(process.env.GATEWAY_DERIBIT_TTL_MS || 10000),
+    okx: Number(process.env.GATEWAY_OKX_TTL_MS || 10000),
+    kalshi: Number(process.env.GATEWAY_KALSHI_TTL_MS || 5000)
+  },
+  maxCacheEntries: 500,
+  maxBodyBytes: 256 * 1024,
+  upstreamTimeoutMs: 15000,
+  log: true
+};
+
+/**
+ * Creates the gateway server. Not listening yet; call `.listen(port)`.
+ * Config is merged over the environment-driven defaults.
+ */
+export const createGateway = (overrides = {}) => {
+  const config = {
+    ...DEFAULT_CONFIG,
+    ...overrides,
+    upstreams: { ...DEFAULT_CONFIG.upstreams, ...overrides.upstreams },
+    cacheTtlMs: { ...DEFAULT_CONFIG.cacheTtlMs, ...overrides.cacheTtlMs },
+    gemini: { ...DEFAULT_CONFIG.gemini, ...overrides.gemini }
+  };
+
+  const cache = new Map(); // upstream URL -> { expires, status, contentType, body }
+  const inFlight = new Map(); // upstream URL -> Promise of a cache entry
+  const buckets = new Map(); // client -> { tokens, updated }
+  const stats = { requests: 0, hits: 0, misses: 0, limited: 0, errors: 0 };
+
+  const log = (line) => config.log && console.log(`[gateway] ${new Date().toISOString()} ${line}`);
+
+  // Token bucket per client, refilled continuously up to one minute's allowance
+  const takeToken = (client) => {
+    const now = Date.now();
+    const bucket = buckets.get(client) || { tokens: config.rateLimit, updated: now };
+    bucket.tokens = Math.min(config.rateLimit, bucket.tokens + ((now - bucket.updated) / 60000) * config.rateLimit);
+    bucket.updated = now;
+    buckets.set(client, bucket);
+    if (bucket.tokens < 1) return Math.ceil(((1 - bucket.tokens) / config.rateLimit) * 60);
+    bucket.tokens -= 1;
+    return 0;
+  };
+
+  const fetchUpstream = async (url) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.upstreamTimeoutMs);
+    try {
+      const response = await fetch(url, { signal: controller.signal, headers: { accept: 'application/json' } });
+      return {
+        status: response.status,
+        contentType: response.headers.get('content-type') || 'application/json',
+        body: Buffer.from(await response.arrayBuffer())
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const getCached = async (route, url) => {
+    const now = Date.now();
+    const hit = cache.get(url);
+    if (hit && hit.expires > now) return { entry: hit, cache: 'HIT' };
+
+    if (inFlight.has(url)) return { entry: await inFlight.get(url), cache: 'SHARED' };
+
+    const request = fetchUpstream(url).then(entry => {
+      // Only successful responses are shared
+      if (entry.status === 200) {
+        if (cache.size >= config.maxCacheEntries) cache.delete(cache.keys().next().value);
+        cache.set(url, { ...entry, expires: Date.now() + config.cacheTtlMs[route] });
+      }
+      return entry;
+    }).finally(() => inFlight.delete(url));
+
+    inFlight.set(url, request);
+    return { entry: await request, cache: 'MISS' };
+  };
+
+  // Whole request body; rejects past maxBodyBytes but drains the rest so a reply can still be sent
+  const readBody = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size <= config.maxBodyBytes) chunks.push(chunk);
+    });
+    req.on('end', () => size > config.maxBodyBytes ? reject(new Error('Request body too large')) : resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+  // Only generateContent is forwarded, so the key can't be spent on anything else
+  const GEMINI_PATH = /^v1beta\/models\/[\w.-]+:generateContent$/;
+
+  const forwardGemini = async (req, res, path, client, started) => {
+    const logLine = (status, extra = '') => log(`${req.method} /gemini/${path} ${status} ${Date.now() - started}ms ${client}${extra}`);
+    // Browsers always send Origin on POST; a missing one is a script, not the app
+    const origin = req.headers.origin;
+    const originAllowed = typeof origin === 'string' && config.allowedOrigins.includes(origin);
+    const reply = (status, body, contentType = 'application/json', extraHeaders = {}) =>
+      send(res, status, body, contentType, { vary: 'origin', ...extraHeaders }, originAllowed ? origin : null);
+
+    if (req.method === 'OPTIONS') {
+      return reply(204, '', 'text/plain', { 'access-control-allow-methods': 'POST', 'access-control-allow-headers': 'content-type' });
+    }
+    if (req.method !== 'POST' || !GEMINI_PATH.test(path)) {
+      logLine(404);
+      return reply(404, JSON.stringify({ error: 'Unknown route' }));
+    }
+    if (!originAllowed) {
+      logLine(403, ` origin ${origin || 'none'}`);
+      return reply(403, JSON.stringify({ error: 'Origin not allowed' }));
+    }
+    if (!config.gemini.apiKey) {
+      logLine(503);
+      return reply(503, JSON.stringify({ error: 'GEMINI_API_KEY is not set on the gateway' }));
+    }
+
+    const retryAfter = takeToken(client);
+    if (retryAfter > 0) {
+      stats.limited++;
+      logLine(429);
+      return reply(429, JSON.stringify({ error: 'Rate limit exceeded' }), 'application/json', { 'retry-after': String(retryAfter) });
+    }
+
+    let body;
+    try {
+      body = await readBody(req);
+    } catch (err) {
+      logLine(413);
+      return reply(413, JSON.stringify({ error: err.message }));
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.gemini.timeoutMs);
+    try {
+      const response = await fetch(`${config.gemini.baseUrl.replace(/\/$/, '')}/${path}`, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: { 'content-type': 'application/json', 'x-goog-api-key': config.gemini.apiKey },
+        body
+      });
+      const payload = Buffer.from(await response.arrayBuffer());
+      logLine(response.status);
+      reply(response.status, payload, response.headers.get('content-type') || 'application/json');
+    } catch (err) {
+      stats.errors++;
+      logLine(502, ` ${err.message}`);
+      reply(502, JSON.stringify({ error: `Upstream failed: ${err.message}` }));
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // allowOrigin null leaves out the CORS header, so browsers withhold the response
+  const send = (res, status, body, contentType = 'application/json', extraHeaders = {}, allowOrigin = '*') => {
+    res.writeHead(status, {
+      'content-type': contentType,
+      ...(allowOrigin ? { 'access-control-allow-origin': allowOrigin } : {}),
+      ...extraHeaders
+    });
+    res.end(body);
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const started = Date.now();
+    const client = req.socket.remoteAddress || 'unknown';
+    const url = new URL(req.url || '/', 'http://gateway');
+    const [, route, ...rest] = url.pathname.split('/');
+    stats.requests++;
+
+    if (route === 'gemini') return forwardGemini(req, res, rest.join('/'), client, started);
+
+    if (req.method === 'OPTIONS') return send(res, 204, '', 'text/plain', { 'access-control-allow-methods': 'GET' });
+
+    if (route === 'health') {
+      return send(res, 200, JSON.stringify({ ...stats, cacheEntries: cache.size, upstreams: config.upstreams, gemini: config.gemini.apiKey !== '' }));
+    }
+
+    // Own properties only: inherited names like "constructor" are not routes
+    const base = Object.hasOwn(config.upstreams, route) ? config.upstreams[route] : null;
+    if (typeof base !== 'string' || req.method !== 'GET') {
+      log(`${req.method} ${url.pathname} 404 ${client}`);
+      return send(res, 404, JSON.stringify({ error: 'Unknown route' }));
+    }
+
+    const retryAfter = takeToken(client);
+    if (retryAfter > 0) {
+      stats.limited++;
+      log(`GET ${url.pathname} 429 ${client}`);
+      return send(res, 429, JSON.stringify({ error: 'Rate limit exceeded' }), 'application/json', { 'retry-after': String(retryAfter) });
+    }
+
+    try {
+      const upstreamUrl = `${base.replace(/\/$/, '')}/${rest.join('/')}${url.search}`;
+      const { entry, cache: cacheStatus } = await getCached(route, upstreamUrl);
+      if (cacheStatus === 'MISS') stats.misses++;
+      else stats.hits++;
+      log(`GET ${url.pathname}${url.search} ${entry.status} ${cacheStatus} ${Date.now() - started}ms ${client}`);
+      send(res, entry.status, entry.body, entry.contentType, { 'x-gateway-cache': cacheStatus });
+    } catch (err) {
+      stats.errors++;
+      log(`GET ${url.pathname}${url.search} 502 ${Date.now() - started}ms ${client} ${err.message}`);
+      send(res, 502, JSON.stringify({ error: `Upstream failed: ${err.message}` }));
+    }
+  });
+
+  return server;
+};
+
+// Run directly: npm run gateway
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = createGateway();
+  server.listen(DEFAULT_CONFIG.port, DEFAULT_CONFIG.host, () => {
+    console.log(`[gateway] listening on http://${DEFAULT_CONFIG.host}:${DEFAULT_CONFIG.port}`);
+    Object.entries(DEFAULT_CONFIG.upstreams).forEach(([route, base]) => console.log(`[gateway]   /${route} -> ${base}`));
+    console.log(`[gateway]   /gemini -> ${DEFAULT_CONFIG.gemini.baseUrl}${DEFAULT_CONFIG.gemini.apiKey ? '' : ' (disabled: GEMINI_API_KEY not set)'}`);
+  });
+}
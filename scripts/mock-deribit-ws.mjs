@@ -0,0 +1,105 @@
+/**
+ * Local mock of Deribit's JSON-RPC WebSocket API for development.
+ * Supports public/subscribe, public/unsubscribe, public/set_heartbeat and public/test,
+ * and publishes random-walk index prices and tickers for subscribed channels.
+ *
+ * Usage: npm run mock:deribit  (then set DERIBIT_WS_URL=ws://localhost:8765 in .env.local)
+ */
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT || 8765);
+const TICK_MS = 500;
+
+const indexPrices = { btc_usdc: 95000, eth_usdc: 3500, sol_usdc: 200, xrp_usdc: 2.2 };
+
+const walk = (price, vol = 0.0005) => price * Math.exp(vol * (Math.random() * 2 - 1));
+
+const indexForInstrument = (name) => {
+  const prefix = name.split('-')[0].toLowerCase();
+  return prefix.includes('_usdc') ? prefix : `${prefix}_usdc`;
+};
+
+const buildTicker = (instrumentName) => {
+  const [, , strikeStr, type] = instrumentName.split('-');
+  const underlying = indexPrices[indexForInstrument(instrumentName)] || 1;
+  const strike = parseFloat(strikeStr.replace('d', '.'));
+  const intrinsic = Math.max(0, type === 'C' ? underlying - strike : strike - underlying);
+  const markUsd = intrinsic + underlying * 0.02;
+  const isLinear = instrumentName.includes('_USDC');
+  const mark = isLinear ? markUsd : markUsd / underlying;
+  return {
+    instrument_name: instrumentName,
+    timestamp: Date.now(),
+    mark_price: mark,
+    mark_iv: 45 + 10 * Math.abs(Math.log(strike / underlying)) + Math.random(),
+    best_bid_price: mark * 0.97,
+    best_ask_price: mark * 1.03,
+    open_interest: 100,
+    underlying_price: underlying,
+    underlying_index: indexForInstrument(instrumentName).toUpperCase(),
+    index_price: underlying
+  };
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket) => {
+  const channels = new Set();
+  let heartbeatTimer = null;
+
+  const send = (msg) => socket.readyState === socket.OPEN && socket.send(JSON.stringify({ jsonrpc: '2.0', ...msg }));
+
+  socket.on('message', (raw) => {
+    let req;
+    try {
+      req = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    const { id, method, params = {} } = req;
+
+    switch (method) {
+      case 'public/subscribe':
+        (params.channels || []).forEach((c) => channels.add(c));
+        send({ id, result: params.channels || [] });
+        break;
+      case 'public/unsubscribe':
+        (params.channels || []).forEach((c) => channels.delete(c));
+        send({ id, result: params.channels || [] });
+        break;
+      case 'public/set_heartbeat':
+        clearInterval(heartbeatTimer);
+        heartbeatTimer = setInterval(() => send({ method: 'heartbeat', params: { type: 'test_request' } }), (params.interval || 30) * 1000);
+        send({ id, result: 'ok' });
+        break;
+      case 'public/test':
+        send({ id, result: { version: 'mock' } });
+        break;
+      default:
+        send({ id, error: { code: -32601, message: 'Method not found' } });
+    }
+  });
+
+  const ticker = setInterval(() => {
+    channels.forEach((channel) => {
+      if (channel.startsWith('deribit_price_index.')) {
+        const index = channel.split('.')[1];
+        send({ method: 'subscription', params: { channel, data: { index_name: index, price: indexPrices[index] || 0, timestamp: Date.now() } } });
+      } else if (channel.startsWith('ticker.')) {
+        const instrument = channel.split('.')[1];
+        send({ method: 'subscription', params: { channel, data: buildTicker(instrument) } });
+      }
+    });
+  }, TICK_MS);
+
+  socket.on('close', () => {
+    clearInterval(ticker);
+    clearInterval(heartbeatTimer);
+  });
+});
+
+setInterval(() => {
+  Object.keys(indexPrices).forEach((k) => { indexPrices[k] = walk(indexPrices[k]); });
+}, TICK_MS);
+
+console.log(`[Mock Deribit] Listening on ws://localhost:${PORT}`);
@@ -1,4 +1,20 @@
-import { PolySearchResponse, DeribitResponse, DeribitSpotResponse, DeribitOption } from '../types';
+import { DeribitOption, OrderBookLevel, PolyEvent, PolyMarket, PolyOrderBook } from '../types';
+import { AssetConfig } from '../utils/assets';
+import { validateDeribitOptions, validateDeribitSpot, validatePolyMarketResponse, validatePolySearch } from './validation';
+
+// "gateway": route requests through the local data gateway (npm run gateway).
+// "proxy": public CORS proxies, for running without the gateway.
+export const API_MODE = process.env.API_MODE === 'gateway' ? 'gateway' : 'proxy';
+export const GATEWAY_URL = (process.env.GATEWAY_URL || '/gateway').replace(/\/$/, '');
+
+// Upstream origins and their gateway routes (see scripts/gateway.mjs)
+const GATEWAY_ROUTES: [string, string][] = [
+  ['https://gamma-api.polymarket.com', 'gamma'],
+  ['https://clob.polymarket.com', 'clob'],
+  ['https://www.deribit.com', 'deribit'],
+  ['https://www.okx.com', 'okx'],
+  ['https://api.elections.kalshi.com', 'kalshi']
+];
 
 // List of CORS proxies to try in round-robin/failover fashion.
 // These are free public proxies; rotation helps avoid rate limits (429) from the target API
@@ -56,11 +72,26 @@ const fetchWithFailover = async (targetUrl: string): Promise<any> => {
 };
 
 /**
- * Wrapper for fetching with Caching, Deduplication, and Proxy Failover.
+ * Fetches the target URL through the local gateway, which calls the upstream
+ * directly and applies its own rate limiting and cache.
+ */
+const fetchViaGateway = async (targetUrl: string): Promise<any> => {
+  const route = GATEWAY_ROUTES.find(([origin]) => targetUrl.startsWith(origin));
+  if (!route) throw new Error(`No gateway route for ${targetUrl}`);
+
+  const response = await fetch(`${GATEWAY_URL}/${route[1]}${targetUrl.slice(route[0].length)}`);
+  if (!response.ok) {
+    throw new Error(`API Error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Wrapper for fetching with Caching, Deduplication, and Gateway or Proxy Failover.
  * @param url - The raw target URL (not proxied)
  * @param duration - Cache duration in ms
  */
-const fetchWithCache = async (url: string, duration = DEFAULT_CACHE_DURATION): Promise<any> => {
+export const fetchWithCache = async (url: string, duration = DEFAULT_CACHE_DURATION): Promise<any> => {
   const now = Date.now();
   
   // 1. Check Cache
@@ -76,7 +107,7 @@ const fetchWithCache = async (url: string, duration = DEFAULT_CACHE_DURATION): P
   // 3. Perform Request
   const requestPromise = (async () => {
     try {
-      const data = await fetchWithFailover(url);
+      const data = API_MODE === 'gateway' ? await fetchViaGateway(url) : await fetchWithFailover(url);
       cache[url] = { timestamp: Date.now(), data };
       return data;
     } finally {
@@ -89,12 +120,21 @@ const fetchWithCache = async (url: string, duration = DEFAULT_CACHE_DURATION): P
 };
 
 /**
- * Fetches Polymarket data via search query.
+ * Fetches Polymarket events via search query, validated (see services/validation.ts).
  */
-export const fetchPolymarketData = async (query: string): Promise<PolySearchResponse> => {
+export const fetchPolymarketData = async (query: string): Promise<PolyEvent[]> => {
   const targetUrl = `https://gamma-api.polymarket.com/public-search?q=${encodeURIComponent(query)}&cache=true&optimized=false`;
   // Cache search results for 15 seconds
-  return fetchWithCache(targetUrl, 15 * 1000);
+  return validatePolySearch(await fetchWithCache(targetUrl, 15 * 1000));
+};
+
+/**
+ * Fetches a single Polymarket market by id, with its resolution rules.
+ */
+export const fetchPolymarketMarket = async (marketId: string): Promise<{ market: PolyMarket; description: string }> => {
+  const targetUrl = `https://gamma-api.polymarket.com/markets/${encodeURIComponent(marketId)}`;
+  // Marks for open positions: 15s cache, same as search
+  return validatePolyMarketResponse(await fetchWithCache(targetUrl, 15 * 1000), marketId);
 };
 
 /**
@@ -103,8 +143,7 @@ export const fetchPolymarketData = async (query: string): Promise<PolySearchResp
 export const fetchDeribitOptions = async (currency: string = 'BTC'): Promise<DeribitOption[]> => {
   const targetUrl = `https://www.deribit.com/api/v2/public/get_book_summary_by_currency?currency=${currency}&kind=option`;
   // Option chains are heavy. 60s cache.
-  const data: DeribitResponse = await fetchWithCache(targetUrl, 60 * 1000);
-  return data.result || [];
+  return validateDeribitOptions(await fetchWithCache(targetUrl, 60 * 1000), currency);
 };
 
 /**
@@ -113,6 +152,35 @@ export const fetchDeribitOptions = async (currency: string = 'BTC'): Promise<Der
 export const fetchDeribitSpot = async (indexName: string = 'btc_usdc'): Promise<number> => {
   const targetUrl = `https://www.deribit.com/api/v2/public/get_index_price?index_name=${indexName}`;
   // Spot price: 30s cache.
-  const data: DeribitSpotResponse = await fetchWithCache(targetUrl, 30 * 1000);
-  return data.result?.price || 0;
-};
\ No newline at end of file
+  return validateDeribitSpot(await fetchWithCache(targetUrl, 30 * 1000), indexName);
+};
+/**
+ * Fetches the option chain for a single asset.
+ * SOL and XRP share the USDC chain, so the currency response is cached once
+ * and filtered down to the asset's instruments.
+ */
+export const fetchAssetOptionChain = async (asset: AssetConfig): Promise<DeribitOption[]> => {
+  const options = await fetchDeribitOptions(asset.deribitCurrency);
+  return options.filter(opt => opt.instrument_name.startsWith(asset.instrumentPrefix));
+};
+
+/**
+ * Fetches the full Polymarket CLOB order book for one outcome token.
+ * Prices and sizes arrive as strings and are normalized to numbers.
+ */
+export const fetchPolymarketOrderBook = async (tokenId: string): Promise<PolyOrderBook> => {
+  const targetUrl = `https://clob.polymarket.com/book?token_id=${encodeURIComponent(tokenId)}`;
+  // Books move fast: 10s cache.
+  const data = await fetchWithCache(targetUrl, 10 * 1000);
+  const toLevels = (levels: any[] = []): OrderBookLevel[] =>
+    levels
+      .map(l => ({ price: parseFloat(l.price), size: parseFloat(l.size) }))
+      .filter(l => l.price > 0 && l.size > 0);
+
+  return {
+    tokenId,
+    bids: toLevels(data.bids).sort((a, b) => b.price - a.price),
+    asks: toLevels(data.asks).sort((a, b) => a.price - b.price),
+    timestamp: data.timestamp ? Number(data.timestamp) : Date.now()
+  };
+};
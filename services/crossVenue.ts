@@ -0,0 +1,31 @@
+import { BinaryContract, CostSettings, CrossVenueMatch, OptionsVenueId } from '../types';
+import { matchCrossVenue } from '../utils/crossVenue';
+import { scanOpportunity } from '../utils/scanner';
+import { fetchOpportunities } from './opportunities';
+import { fetchKalshiContracts, kalshiSupportsAsset } from './venues/kalshi';
+
+/**
+ * Searches Polymarket, prices every market against the options venue (as the
+ * scanner does) and pairs it with the equivalent Kalshi contract.
+ */
+export const fetchCrossVenueMatches = async (
+  query: string,
+  optionsVenue: OptionsVenueId,
+  costSettings: CostSettings,
+  now: number = Date.now()
+): Promise<{ matches: CrossVenueMatch[]; polymarketCount: number; kalshiCount: number }> => {
+  const opportunities = await fetchOpportunities(query, optionsVenue);
+  const rows = opportunities.flatMap(opp => scanOpportunity(opp, query, costSettings, now));
+
+  const contracts: BinaryContract[] = [];
+  // Sequential: the proxies rate-limit parallel bursts
+  for (const asset of new Set(opportunities.map(o => o.asset))) {
+    if (kalshiSupportsAsset(asset)) contracts.push(...await fetchKalshiContracts(asset!));
+  }
+
+  return {
+    matches: matchCrossVenue(rows, contracts, costSettings),
+    polymarketCount: rows.length,
+    kalshiCount: contracts.length
+  };
+};
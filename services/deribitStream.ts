@@ -0,0 +1,202 @@
+import { DeribitOption } from '../types';
+
+// Override with DERIBIT_WS_URL (e.g. ws://localhost:8765 for `npm run mock:deribit`)
+const DEFAULT_WS_URL = 'wss://www.deribit.com/ws/api/v2';
+const HEARTBEAT_INTERVAL_S = 30;
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export type TickerUpdate = Partial<DeribitOption> & { instrument_name: string };
+
+export interface DeribitStream {
+  subscribeIndex: (indexName: string, onPrice: (price: number) => void) => () => void;
+  subscribeTicker: (instrumentName: string, onTicker: (ticker: TickerUpdate) => void) => () => void;
+  onStatus: (listener: (status: StreamStatus) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * Maps a Deribit `ticker.*` notification onto the REST book summary shape.
+ */
+const mapTicker = (data: any): TickerUpdate => ({
+  instrument_name: data.instrument_name,
+  mark_price: data.mark_price,
+  mark_iv: data.mark_iv,
+  bid_price: data.best_bid_price || null,
+  ask_price: data.best_ask_price || null,
+  open_interest: data.open_interest,
+  underlying_price: data.underlying_price,
+  underlying_index: data.underlying_index,
+  creation_timestamp: data.timestamp
+});
+
+/**
+ * Deribit JSON-RPC WebSocket client.
+ * Channels are reference counted: the socket opens on the first subscription,
+ * closes when the last one goes away, and re-subscribes everything after a
+ * reconnect. Server heartbeats are answered, and a silent socket is treated
+ * as dead after two missed intervals.
+ */
+export const createDeribitStream = (url: string = process.env.DERIBIT_WS_URL || DEFAULT_WS_URL): DeribitStream => {
+  const channelListeners: Record<string, Set<(data: any) => void>> = {};
+  const statusListeners = new Set<(status: StreamStatus) => void>();
+  const pendingSubscribe = new Set<string>();
+  const pendingUnsubscribe = new Set<string>();
+
+  let ws: WebSocket | null = null;
+  let status: StreamStatus = 'idle';
+  let requestId = 0;
+  let backoff = MIN_BACKOFF_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let watchdogTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushScheduled = false;
+
+  const setStatus = (next: StreamStatus) => {
+    status = next;
+    statusListeners.forEach(listener => listener(next));
+  };
+
+  const send = (method: string, params: Record<string, any> = {}) => {
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }));
+  };
+
+  const activeChannels = () => Object.keys(channelListeners).filter(c => channelListeners[c].size > 0);
+
+  const resetWatchdog = () => {
+    if (watchdogTimer) clearTimeout(watchdogTimer);
+    watchdogTimer = setTimeout(() => {
+      console.warn('[Stream] No data within heartbeat window. Reconnecting...');
+      ws?.close();
+    }, HEARTBEAT_INTERVAL_S * 2 * 1000);
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectTimer || activeChannels().length === 0) return;
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, backoff);
+    backoff = Math.min(MAX_BACKOFF_MS, backoff * 2);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    resetWatchdog();
+    let msg: any;
+    try {
+      msg = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (msg.method === 'subscription') {
+      const { channel, data } = msg.params || {};
+      channelListeners[channel]?.forEach(listener => listener(data));
+    } else if (msg.method === 'heartbeat' && msg.params?.type === 'test_request') {
+      send('public/test');
+    } else if (msg.error) {
+      console.warn(`[Stream] RPC error ${msg.error.code}: ${msg.error.message}`);
+    }
+  };
+
+  function connect() {
+    if (ws || activeChannels().length === 0) return;
+    setStatus(status === 'reconnecting' ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(url);
+    ws = socket;
+
+    socket.onopen = () => {
+      backoff = MIN_BACKOFF_MS;
+      setStatus('open');
+      resetWatchdog();
+      send('public/set_heartbeat', { interval: HEARTBEAT_INTERVAL_S });
+      pendingSubscribe.clear();
+      pendingUnsubscribe.clear();
+      send('public/subscribe', { channels: activeChannels() });
+    };
+    socket.onmessage = handleMessage;
+    socket.onerror = () => console.warn('[Stream] WebSocket error');
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      if (watchdogTimer) clearTimeout(watchdogTimer);
+      if (activeChannels().length > 0) {
+        scheduleReconnect();
+      } else {
+        setStatus('idle');
+      }
+    };
+  }
+
+  // Batch (un)subscribe calls made in the same tick, e.g. when a panel opens
+  const scheduleFlush = () => {
+    if (flushScheduled) return;
+    flushScheduled = true;
+    queueMicrotask(() => {
+      flushScheduled = false;
+      if (pendingUnsubscribe.size > 0) send('public/unsubscribe', { channels: [...pendingUnsubscribe] });
+      if (pendingSubscribe.size > 0) send('public/subscribe', { channels: [...pendingSubscribe] });
+      pendingUnsubscribe.clear();
+      pendingSubscribe.clear();
+
+      if (activeChannels().length === 0) {
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+        ws?.close();
+      } else {
+        connect();
+      }
+    });
+  };
+
+  const subscribe = (channel: string, listener: (data: any) => void) => {
+    if (!channelListeners[channel]) channelListeners[channel] = new Set();
+    if (channelListeners[channel].size === 0) {
+      pendingUnsubscribe.delete(channel);
+      pendingSubscribe.add(channel);
+      scheduleFlush();
+    }
+    channelListeners[channel].add(listener);
+
+    return () => {
+      channelListeners[channel].delete(listener);
+      if (channelListeners[channel].size === 0) {
+        pendingSubscribe.delete(channel);
+        pendingUnsubscribe.add(channel);
+        scheduleFlush();
+      }
+    };
+  };
+
+  return {
+    subscribeIndex: (indexName, onPrice) =>
+      subscribe(`deribit_price_index.${indexName}`, data => onPrice(data.price)),
+    subscribeTicker: (instrumentName, onTicker) =>
+      subscribe(`ticker.${instrumentName}.100ms`, data => onTicker(mapTicker(data))),
+    onStatus: (listener) => {
+      statusListeners.add(listener);
+      listener(status);
+      return () => statusListeners.delete(listener);
+    },
+    close: () => {
+      Object.keys(channelListeners).forEach(c => channelListeners[c].clear());
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      ws?.close();
+    }
+  };
+};
+
+let sharedStream: DeribitStream | null = null;
+
+/**
+ * App-wide stream, so all open panels share one socket.
+ */
+export const getDeribitStream = (): DeribitStream => {
+  if (!sharedStream) sharedStream = createDeribitStream();
+  return sharedStream;
+};
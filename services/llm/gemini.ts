@@ -0,0 +1,196 @@
+import { ContractParseInput, ContractSpec, ContractType, LlmProvider, TradeRationaleInput } from '../../types';
+import { API_MODE, GATEWAY_URL } from '../api';
+
+// In gateway mode the gateway holds the key and adds it server-side
+const VIA_GATEWAY = API_MODE === 'gateway';
+const GEMINI_API_URL = VIA_GATEWAY
+  ? `${GATEWAY_URL}/gemini/v1beta/models`
+  : 'https://generativelanguage.googleapis.com/v1beta/models';
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+const REQUEST_TIMEOUT_MS = 30000;
+
+const CONTRACT_TYPES: ContractType[] = ['close', 'touch-up', 'touch-down', 'range'];
+
+const CONTRACT_INSTRUCTIONS = `You read crypto prediction-market contracts and return the exact payoff as JSON.
+- type: "close" if Yes depends on the price at resolution time, "touch-up"/"touch-down" if Yes wins the moment the price trades at or above/below a level at any time before resolution, "range" if Yes needs the price between two levels at resolution.
+- direction: "above" or "below" for close and touch contracts, null for ranges.
+- lowerBound/upperBound: the region where Yes wins, in USD. Close above and touch-up set lowerBound; close below and touch-down set upperBound; ranges set both.
+- observationStart/observationEnd: ISO 8601 UTC. For close and range contracts both are the resolution time. For touch contracts the window starts when the market opens.
+- resolutionSource: the exchange and feed the rules settle on, e.g. "Binance BTC/USDT 1m candles", or null if unstated.
+- asset: ticker symbol, e.g. "BTC".
+- confidence: 0-1, lower when the rules are ambiguous or contradict the question.
+- explanation: short sentences on how you read the rules, including anything unusual.
+The rules take precedence over the question title.`;
+
+const RATIONALE_INSTRUCTIONS = `You explain a flagged pricing edge to a trader in plain language.
+Write 2-3 sentences, no lists or headings: why the options market and Polymarket disagree, what the edge is after costs, and the main thing that could make it wrong.
+Use only the numbers given. Do not recommend a position size.`;
+
+const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type, nullable: true, ...extra });
+
+const CONTRACT_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    asset: nullable('STRING'),
+    type: { type: 'STRING', enum: CONTRACT_TYPES },
+    direction: nullable('STRING', { enum: ['above', 'below'] }),
+    lowerBound: nullable('NUMBER'),
+    upperBound: nullable('NUMBER'),
+    observationStart: nullable('STRING'),
+    observationEnd: nullable('STRING'),
+    resolutionSource: nullable('STRING'),
+    confidence: { type: 'NUMBER' },
+    explanation: { type: 'ARRAY', items: { type: 'STRING' } }
+  },
+  required: ['asset', 'type', 'direction', 'lowerBound', 'upperBound', 'observationStart', 'observationEnd', 'resolutionSource', 'confidence', 'explanation']
+};
+
+const getApiKey = (): string => process.env.GEMINI_API_KEY || '';
+
+// Whether the gateway holds a key: assumed until a 503, then read from /health
+let gatewayHasKey = true;
+
+const checkGatewayKey = async (): Promise<boolean> => {
+  try {
+    const health = await (await fetch(`${GATEWAY_URL}/health`)).json();
+    return health?.gemini === true;
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * One generateContent call over REST; returns the concatenated text parts.
+ */
+const generate = async (system: string, prompt: string, generationConfig: Record<string, unknown>): Promise<string> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${GEMINI_API_URL}/${GEMINI_MODEL}:generateContent`, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: { 'content-type': 'application/json', ...(VIA_GATEWAY ? {} : { 'x-goog-api-key': getApiKey() }) },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: system }] },
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig
+      })
+    });
+    if (!response.ok) {
+      if (VIA_GATEWAY && response.status === 503) gatewayHasKey = await checkGatewayKey();
+      // Gemini nests the message under error.message; the gateway sends error as a string
+      const detail = await response.json().catch(() => null);
+      const message = typeof detail?.error === 'string' ? detail.error : detail?.error?.message;
+      throw new Error(`Gemini API Error: ${response.status} ${message || response.statusText}`);
+    }
+    const data = await response.json();
+    const candidate = data?.candidates?.[0];
+    const text = (candidate?.content?.parts || []).map((p: { text?: string }) => p.text || '').join('').trim();
+    if (!text) throw new Error(`Gemini returned no text (${candidate?.finishReason || data?.promptFeedback?.blockReason || 'empty response'})`);
+    return text;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const optionalString = (raw: Record<string, any>, key: string): string | null =>
+  typeof raw[key] === 'string' && raw[key].trim() ? raw[key].trim() : null;
+
+const optionalDate = (raw: Record<string, any>, key: string): string | null => {
+  const value = optionalString(raw, key);
+  if (value === null) return null;
+  if (isNaN(new Date(value).getTime())) throw new Error(`Gemini spec.${key}: invalid date ${JSON.stringify(value)}`);
+  return value;
+};
+
+const optionalBound = (raw: Record<string, any>, key: string): number | null => {
+  const value = raw[key];
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) throw new Error(`Gemini spec.${key}: ${JSON.stringify(value)} is not a price`);
+  return value;
+};
+
+/**
+ * Checks the model's JSON against the bounds each contract type needs.
+ * Anything the pricers can't use is rejected rather than guessed.
+ */
+const toContractSpec = (text: string, input: ContractParseInput): ContractSpec => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Gemini spec: response is not JSON');
+  }
+  if (!raw || typeof raw !== 'object') throw new Error('Gemini spec: response is not an object');
+
+  const type = raw.type as ContractType;
+  if (!CONTRACT_TYPES.includes(type)) throw new Error(`Gemini spec.type: unknown type ${JSON.stringify(raw.type)}`);
+  const direction = raw.direction === 'above' || raw.direction === 'below' ? raw.direction : null;
+  const lowerBound = optionalBound(raw, 'lowerBound');
+  const upperBound = optionalBound(raw, 'upperBound');
+
+  const needsLower = type === 'range' || type === 'touch-up' || (type === 'close' && direction === 'above');
+  const needsUpper = type === 'range' || type === 'touch-down' || (type === 'close' && direction === 'below');
+  if (type === 'close' && !direction) throw new Error('Gemini spec.direction: required for close contracts');
+  if (needsLower && lowerBound === null) throw new Error(`Gemini spec.lowerBound: required for ${type}${direction ? ` ${direction}` : ''}`);
+  if (needsUpper && upperBound === null) throw new Error(`Gemini spec.upperBound: required for ${type}${direction ? ` ${direction}` : ''}`);
+  if (type === 'range' && lowerBound! >= upperBound!) throw new Error('Gemini spec: range lowerBound must be below upperBound');
+
+  const confidence = typeof raw.confidence === 'number' && isFinite(raw.confidence) ? Math.min(1, Math.max(0, raw.confidence)) : 0.5;
+  const explanation = Array.isArray(raw.explanation) ? raw.explanation.filter((e: unknown) => typeof e === 'string') : [];
+  const endDate = input.endDate || null;
+
+  return {
+    asset: optionalString(raw, 'asset')?.toUpperCase() || null,
+    direction: type === 'range' ? null : direction ?? (type === 'touch-up' ? 'above' : 'below'),
+    type,
+    lowerBound: needsLower ? lowerBound : null,
+    upperBound: needsUpper ? upperBound : null,
+    observationStart: optionalDate(raw, 'observationStart') ?? (type === 'touch-up' || type === 'touch-down' ? input.startDate || null : endDate),
+    observationEnd: optionalDate(raw, 'observationEnd') ?? endDate,
+    resolutionSource: optionalString(raw, 'resolutionSource'),
+    confidence,
+    explanation: [`Read by Gemini (${GEMINI_MODEL}).`, ...explanation]
+  };
+};
+
+const contractPrompt = (input: ContractParseInput): string => [
+  `Question: ${input.question}`,
+  input.eventTitle && `Event: ${input.eventTitle}`,
+  input.startDate && `Market opens: ${input.startDate}`,
+  input.endDate && `Resolution time: ${input.endDate}`,
+  input.spotPrice && `Current spot: $${input.spotPrice.toLocaleString()}`,
+  `Rules:\n${input.description || '(none given)'}`
+].filter(Boolean).join('\n');
+
+const rationalePrompt = (input: TradeRationaleInput): string => [
+  `Contract: ${input.question}`,
+  `Parsed payoff: ${JSON.stringify({ ...input.spec, explanation: undefined })}`,
+  `Polymarket Yes ask: ${(input.polyYesPrice * 100).toFixed(1)}¢`,
+  `${input.venueName} options-implied probability (${input.modelName}): ${(input.modelProb * 100).toFixed(1)}%`,
+  input.impliedVol !== null && `Implied vol at the strike: ${input.impliedVol.toFixed(1)}%`,
+  `Net edge after fees, hedge and capital cost: ${(input.netEdge * 100).toFixed(2)} points`,
+  `Time to resolution: ${input.daysToExpiry.toFixed(2)} days`
+].filter(Boolean).join('\n');
+
+/**
+ * Gemini over its REST API, keyed by GEMINI_API_KEY: held by the gateway in
+ * gateway mode, otherwise compiled into the bundle. Contracts come back as
+ * schema-constrained JSON at temperature 0; rationales as short plain text.
+ */
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  isConfigured: () => (VIA_GATEWAY ? gatewayHasKey : getApiKey() !== ''),
+  interpretContract: async (input) => {
+    const text = await generate(CONTRACT_INSTRUCTIONS, contractPrompt(input), {
+      temperature: 0,
+      thinkingConfig: { thinkingBudget: 0 },
+      responseMimeType: 'application/json',
+      responseSchema: CONTRACT_SCHEMA
+    });
+    return toContractSpec(text, input);
+  },
+  writeRationale: async (input) =>
+    generate(RATIONALE_INSTRUCTIONS, rationalePrompt(input), { temperature: 0.2, maxOutputTokens: 300, thinkingConfig: { thinkingBudget: 0 } })
+};
@@ -0,0 +1,55 @@
+import { ContractParseInput, ContractSpec, LlmProvider, LlmProviderId, TradeRationaleInput } from '../../types';
+import { geminiProvider } from './gemini';
+import { stubLlmProvider } from './stub';
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: geminiProvider,
+  stub: stubLlmProvider
+};
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderId = geminiProvider.isConfigured() ? 'gemini' : 'stub';
+
+/**
+ * Provider by id, falling back to the stub for unknown ids or Gemini without a key.
+ */
+export const getLlmProvider = (id: LlmProviderId): LlmProvider => {
+  const provider = LLM_PROVIDERS[id];
+  return provider && provider.isConfigured() ? provider : stubLlmProvider;
+};
+
+// Provider + input -> pending or settled answer; failures are evicted so a retry calls again
+const responses = new Map<string, Promise<unknown>>();
+
+const memoize = <T>(key: string, run: () => Promise<T>): Promise<T> => {
+  const cached = responses.get(key);
+  if (cached) return cached as Promise<T>;
+  const request = run();
+  responses.set(key, request);
+  request.catch(() => responses.delete(key));
+  return request;
+};
+
+// A provider that turns out to be unconfigured mid-call (Gemini behind a
+// gateway without a key) hands that call to the stub
+const withStubFallback = <T>(provider: LlmProvider, run: (p: LlmProvider) => Promise<T>): Promise<T> =>
+  run(provider).catch(err => {
+    if (provider.isConfigured()) throw err;
+    return run(stubLlmProvider);
+  });
+
+/**
+ * Contract spec read from the wording and rules, cached per input so
+ * reopening a card doesn't call the model again.
+ */
+export const interpretContract = (id: LlmProviderId, input: ContractParseInput): Promise<ContractSpec> => {
+  const provider = getLlmProvider(id);
+  return memoize(`spec|${provider.id}|${JSON.stringify(input)}`, () => withStubFallback(provider, p => p.interpretContract(input)));
+};
+
+/**
+ * Plain-language rationale for a flagged edge, cached per input.
+ */
+export const writeTradeRationale = (id: LlmProviderId, input: TradeRationaleInput): Promise<string> => {
+  const provider = getLlmProvider(id);
+  return memoize(`rationale|${provider.id}|${JSON.stringify(input)}`, () => withStubFallback(provider, p => p.writeRationale(input)));
+};
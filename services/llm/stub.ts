@@ -0,0 +1,53 @@
+import { ContractSpec, LlmProvider, TradeRationaleInput } from '../../types';
+import { parseContract } from '../../utils/contractParser';
+
+const usd = (v: number | null) => (v === null ? '?' : `$${v.toLocaleString()}`);
+
+const describeContract = (spec: ContractSpec): string => {
+  const asset = spec.asset || 'the asset';
+  switch (spec.type) {
+    case 'range':
+      return `${asset} settles between ${usd(spec.lowerBound)} and ${usd(spec.upperBound)}`;
+    case 'touch-up':
+      return `${asset} trades at or above ${usd(spec.lowerBound)} before resolution`;
+    case 'touch-down':
+      return `${asset} trades at or below ${usd(spec.upperBound)} before resolution`;
+    default:
+      return `${asset} settles ${spec.direction || 'above'} ${usd(spec.direction === 'below' ? spec.upperBound : spec.lowerBound)}`;
+  }
+};
+
+// The first risk that applies, most contract-specific first
+const mainRisk = (input: TradeRationaleInput): string => {
+  const { spec, daysToExpiry, venueName } = input;
+  if (spec.confidence < 0.8) return 'The wording was ambiguous, so check the resolution rules before trading.';
+  if (spec.type === 'touch-up' || spec.type === 'touch-down') {
+    return 'A touch pays on a single print, so the result depends on how often the source is sampled.';
+  }
+  if (spec.resolutionSource) return `It settles on ${spec.resolutionSource}, not the ${venueName} index, so the two can disagree near the strike.`;
+  if (daysToExpiry < 1) return 'With under a day left, small moves in spot swing the fair price sharply.';
+  return `The edge only holds if ${venueName} volatility is a fair forecast.`;
+};
+
+const templateRationale = (input: TradeRationaleInput): string => {
+  const { spec, polyYesPrice, modelProb, modelName, netEdge, daysToExpiry, impliedVol, venueName } = input;
+  const days = daysToExpiry < 1 ? `${(daysToExpiry * 24).toFixed(0)} hours` : `${daysToExpiry.toFixed(0)} days`;
+  const vol = impliedVol !== null ? `, ${impliedVol.toFixed(0)}% IV at the strike` : '';
+  return [
+    `${venueName} options imply a ${(modelProb * 100).toFixed(1)}% chance that ${describeContract(spec)}, while Polymarket sells Yes at ${(polyYesPrice * 100).toFixed(1)}¢.`,
+    `After fees, hedging and capital cost that leaves ${netEdge > 0 ? '+' : ''}${(netEdge * 100).toFixed(2)} points over ${days} (${modelName}${vol}).`,
+    mainRisk(input)
+  ].join(' ');
+};
+
+/**
+ * Offline stand-in for the LLM: the regex parser for contracts and a template
+ * for rationales. Deterministic, so it also serves as the test double.
+ */
+export const stubLlmProvider: LlmProvider = {
+  id: 'stub',
+  name: 'Local (offline)',
+  isConfigured: () => true,
+  interpretContract: async (input) => parseContract(input),
+  writeRationale: async (input) => templateRationale(input)
+};
@@ -0,0 +1,48 @@
+import { executeModelJob, ModelJob, ModelJobResult } from '../utils/models';
+import { MC_CANCELLED, MonteCarloTask } from './monteCarloPool';
+
+/**
+ * Runs a calibration or model pricing job in its own Web Worker, so Heston's
+ * Nelder-Mead and jump/stochastic-vol path simulations stay off the main thread.
+ * Cancelling terminates the worker.
+ */
+export const runModelJob = <J extends ModelJob>(job: J): MonteCarloTask<ModelJobResult<J>> => {
+  let worker: Worker | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let rejectJob: (err: Error) => void = () => {};
+
+  const promise = new Promise<ModelJobResult<J>>((resolve, reject) => {
+    rejectJob = reject;
+    if (typeof Worker === 'undefined') {
+      // Inline fallback, deferred so callers can paint first
+      timer = setTimeout(() => {
+        try {
+          resolve(executeModelJob(job));
+        } catch (err: any) {
+          reject(err);
+        }
+      }, 0);
+      return;
+    }
+
+    const w = new Worker(new URL('../workers/models.worker.ts', import.meta.url), { type: 'module' });
+    worker = w;
+    w.onmessage = (e: MessageEvent<ModelJobResult<J>>) => {
+      w.terminate();
+      resolve(e.data);
+    };
+    w.onerror = (e) => {
+      w.terminate();
+      reject(new Error(e.message || 'Model worker failed'));
+    };
+    w.postMessage(job);
+  });
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    worker?.terminate();
+    rejectJob(new Error(MC_CANCELLED));
+  };
+
+  return { promise, cancel };
+};
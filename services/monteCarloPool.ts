@@ -0,0 +1,185 @@
+import { ContractSpec, MonteCarloParams, MonteCarloResult, MonteCarloStats } from '../types';
+import { simulateMonteCarlo, summarizeMonteCarlo } from '../utils/math';
+import { getMonteCarloLegs, needsSimulation, priceContract, PricingParams } from '../utils/pricing';
+
+// Fixed chunk count, so a seed gives the same answer whatever the pool size
+const CHUNKS_PER_RUN = 4;
+const CHUNK_SEED_STRIDE = 7919;
+const MAX_WORKERS = 4;
+
+export const MC_CANCELLED = 'Monte Carlo run cancelled';
+
+export interface MonteCarloTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+interface Chunk {
+  id: number;
+  params: MonteCarloParams;
+  resolve: (stats: MonteCarloStats) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker | null; // Null when Web Workers are unavailable: chunks run inline
+  chunk: Chunk | null;
+}
+
+export interface MonteCarloPool {
+  run: (params: MonteCarloParams) => MonteCarloTask<MonteCarloResult>;
+  close: () => void;
+}
+
+/**
+ * Pool of Monte Carlo Web Workers. A run is split into seeded chunks that
+ * are spread over the workers and merged exactly from their running sums.
+ * Cancelling terminates the workers busy with the run (a tight simulation
+ * loop cannot be interrupted otherwise) and replaces them.
+ */
+export const createMonteCarloPool = (
+  size: number = Math.max(1, Math.min(MAX_WORKERS, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2) - 1))
+): MonteCarloPool => {
+  const hasWorkers = typeof Worker !== 'undefined';
+  const queue: Chunk[] = [];
+  let nextChunkId = 0;
+
+  const spawn = (): PoolWorker => {
+    const slot: PoolWorker = { worker: null, chunk: null };
+    if (!hasWorkers) return slot;
+
+    slot.worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    slot.worker.onmessage = (e: MessageEvent<{ chunkId: number; stats: MonteCarloStats }>) => {
+      const chunk = slot.chunk;
+      slot.chunk = null;
+      if (chunk && chunk.id === e.data.chunkId) chunk.resolve(e.data.stats);
+      dispatch();
+    };
+    slot.worker.onerror = (e) => {
+      const chunk = slot.chunk;
+      slot.chunk = null;
+      if (chunk) chunk.reject(new Error(e.message || 'Monte Carlo worker failed'));
+      dispatch();
+    };
+    return slot;
+  };
+
+  const slots: PoolWorker[] = Array.from({ length: size }, spawn);
+
+  const dispatch = () => {
+    slots.forEach(slot => {
+      if (slot.chunk || queue.length === 0) return;
+      const chunk = queue.shift()!;
+      slot.chunk = chunk;
+      if (slot.worker) {
+        slot.worker.postMessage({ chunkId: chunk.id, params: chunk.params });
+        return;
+      }
+      // Inline fallback, deferred so callers can paint first
+      setTimeout(() => {
+        if (slot.chunk !== chunk) return;
+        slot.chunk = null;
+        chunk.resolve(simulateMonteCarlo(chunk.params));
+        dispatch();
+      }, 0);
+    });
+  };
+
+  const run = (params: MonteCarloParams): MonteCarloTask<MonteCarloResult> => {
+    const chunkIds = new Set<number>();
+    let rejectRun: (err: Error) => void = () => {};
+
+    const chunkPromises = Array.from({ length: CHUNKS_PER_RUN }, (_, i) =>
+      new Promise<MonteCarloStats>((resolve, reject) => {
+        const id = nextChunkId++;
+        chunkIds.add(id);
+        queue.push({
+          id,
+          params: { ...params, iterations: Math.ceil(params.iterations / CHUNKS_PER_RUN), seed: params.seed + i * CHUNK_SEED_STRIDE },
+          resolve,
+          reject
+        });
+      })
+    );
+    dispatch();
+
+    const promise = new Promise<MonteCarloResult>((resolve, reject) => {
+      rejectRun = reject;
+      Promise.all(chunkPromises).then(stats => resolve(summarizeMonteCarlo(stats)), reject);
+    });
+
+    const cancel = () => {
+      for (let i = queue.length - 1; i >= 0; i--) {
+        if (chunkIds.has(queue[i].id)) queue.splice(i, 1);
+      }
+      slots.forEach((slot, idx) => {
+        if (!slot.chunk || !chunkIds.has(slot.chunk.id)) return;
+        slot.worker?.terminate();
+        slots[idx] = spawn();
+      });
+      rejectRun(new Error(MC_CANCELLED));
+      dispatch();
+    };
+
+    return { promise, cancel };
+  };
+
+  const close = () => {
+    queue.length = 0;
+    slots.forEach(slot => slot.worker?.terminate());
+  };
+
+  return { run, close };
+};
+
+let sharedPool: MonteCarloPool | null = null;
+
+export const getMonteCarloPool = (): MonteCarloPool => {
+  if (!sharedPool) sharedPool = createMonteCarloPool();
+  return sharedPool;
+};
+
+/**
+ * Prices a contract with Monte Carlo on the shared pool. Range and "below"
+ * contracts combine digital legs; their standard errors add in quadrature.
+ */
+export const runContractMonteCarlo = (
+  spec: ContractSpec,
+  params: PricingParams,
+  options: { seed: number; antithetic: boolean; controlVariate: boolean }
+): MonteCarloTask<MonteCarloResult | null> => {
+  const plan = getMonteCarloLegs(spec, params, options);
+  if (!plan) return { promise: Promise.resolve(null), cancel: () => {} };
+
+  const pool = getMonteCarloPool();
+  const tasks = plan.legs.map(leg => pool.run(leg.params));
+
+  const promise = Promise.all(tasks.map(t => t.promise)).then(results => {
+    const prob = plan.offset + results.reduce((sum, r, i) => sum + plan.legs[i].weight * r.prob, 0);
+    const stdError = Math.sqrt(results.reduce((sum, r, i) => sum + (plan.legs[i].weight * r.stdError) ** 2, 0));
+    const clamped = Math.min(1, Math.max(0, prob));
+    return {
+      prob: clamped,
+      stdError,
+      ci95Low: Math.max(0, clamped - 1.96 * stdError),
+      ci95High: Math.min(1, clamped + 1.96 * stdError),
+      paths: results.reduce((sum, r) => sum + r.paths, 0)
+    };
+  });
+
+  return { promise, cancel: () => tasks.forEach(t => t.cancel()) };
+};
+
+/**
+ * Prices a contract like priceContract, but any path simulation runs on the
+ * shared pool. Closed forms are computed inline.
+ */
+export const priceContractOffMainThread = (
+  spec: ContractSpec,
+  params: PricingParams,
+  options: { seed: number; antithetic: boolean; controlVariate: boolean }
+): MonteCarloTask<number | null> => {
+  if (!needsSimulation(spec, params.model)) return { promise: Promise.resolve(priceContract(spec, params)), cancel: () => {} };
+  const task = runContractMonteCarlo(spec, params, options);
+  return { promise: task.promise.then(result => (result ? result.prob : null)), cancel: task.cancel };
+};
@@ -0,0 +1,30 @@
+import { FiredAlert } from '../types';
+
+/**
+ * Asks for browser notification permission if it has not been decided yet.
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const sendBrowserNotification = (alert: FiredAlert): void => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(`PolyBit: ${alert.ruleName}`, { body: `${alert.question}\n${alert.message}`, tag: `${alert.ruleId}:${alert.marketKey}` });
+};
+
+/**
+ * Posts a Slack-compatible `{ text }` payload to a webhook.
+ * Sent as a simple request (no custom headers) so browsers skip the CORS
+ * preflight, which incoming webhooks generally don't answer.
+ */
+export const postWebhookAlert = async (webhookUrl: string, alert: FiredAlert): Promise<void> => {
+  if (!webhookUrl) return;
+  const text = `*${alert.ruleName}*\n${alert.question}\n${alert.message}`;
+  try {
+    await fetch(webhookUrl, { method: 'POST', mode: 'no-cors', body: JSON.stringify({ text }) });
+  } catch (error: any) {
+    console.warn(`[Alerts] Webhook failed: ${error.message}`);
+  }
+};
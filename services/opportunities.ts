@@ -0,0 +1,66 @@
+import { ArbitrageOpportunity, OptionQuote, OptionsVenueId } from '../types';
+import { detectAsset } from '../utils/assets';
+import { findExpiryBracket, getEventResolutionIso, getPrimarySlice } from '../utils/termStructure';
+import { DEFAULT_OPTIONS_VENUE, getOptionsProvider } from './venues';
+import { searchPolymarketEvents } from './venues/polymarket';
+
+/**
+ * Searches Polymarket and matches every event to its asset's option chain
+ * on the chosen options venue. Shared by the search view and the scanner.
+ */
+export const fetchOpportunities = async (
+  query: string,
+  optionsVenue: OptionsVenueId = DEFAULT_OPTIONS_VENUE
+): Promise<ArbitrageOpportunity[]> => {
+  const provider = getOptionsProvider(optionsVenue);
+
+  // 1. Fetch Polymarket Events first (lightweight)
+  const polyEvents = await searchPolymarketEvents(query);
+  if (polyEvents.length === 0) {
+    return [];
+  }
+
+  // 2. Detect each event's underlying asset
+  const eventAssets = polyEvents.map((polyEvent) =>
+     detectAsset(polyEvent.title, polyEvent.markets[0]?.question, polyEvent.description)
+  );
+
+  // 3. Only if we have events, Fetch Option Chains (Heavy) once per supported asset
+  const marketData: Record<string, { spotPrice: number; options: OptionQuote[] }> = {};
+  for (const asset of new Set(eventAssets)) {
+     if (!asset || !provider.supportsAsset(asset)) continue;
+     const spotPrice = await provider.fetchSpot(asset);
+     const options = await provider.fetchChain(asset);
+     marketData[asset] = { spotPrice, options };
+  }
+
+  // 4. Match Logic: Polymarket resolution time -> bracketing listed expiries
+  return polyEvents.map((polyEvent, idx) => {
+     const asset = eventAssets[idx];
+     const data = asset ? marketData[asset] : undefined;
+     if (!data) {
+        // Unsupported or unknown asset: never compare against another asset's chain
+        return {
+           polyEvent,
+           asset,
+           isAssetSupported: false,
+           optionsVenue: provider.id,
+           matchedOptions: [],
+           expiryBracket: null,
+           spotPrice: 0
+        };
+     }
+
+     const expiryBracket = findExpiryBracket(data.options, getEventResolutionIso(polyEvent));
+
+     return {
+        polyEvent,
+        asset,
+        isAssetSupported: true,
+        optionsVenue: provider.id,
+        matchedOptions: expiryBracket ? getPrimarySlice(expiryBracket).options : [],
+        expiryBracket,
+        spotPrice: data.spotPrice
+     };
+  });
+};
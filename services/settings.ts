@@ -0,0 +1,116 @@
+import { AlertRule, AlertSettings, CostSettings, FiredAlert, LlmSettings, PositionLeg, RecorderSettings, ScannerSettings, VenueSettings } from '../types';
+import { DEFAULT_COST_SETTINGS } from '../utils/costs';
+import { DEFAULT_LLM_PROVIDER } from './llm';
+
+const COST_SETTINGS_KEY = 'polybit.costSettings';
+const SCANNER_SETTINGS_KEY = 'polybit.scannerSettings';
+const ALERT_RULES_KEY = 'polybit.alertRules';
+const ALERT_HISTORY_KEY = 'polybit.alertHistory';
+const ALERT_SETTINGS_KEY = 'polybit.alertSettings';
+const RECORDER_SETTINGS_KEY = 'polybit.recorderSettings';
+const POSITIONS_KEY = 'polybit.positions';
+const VENUE_SETTINGS_KEY = 'polybit.venueSettings';
+const LLM_SETTINGS_KEY = 'polybit.llmSettings';
+
+export const MAX_ALERT_HISTORY = 200;
+
+const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    console.warn(`Error loading ${key}`, e);
+    return fallback;
+  }
+};
+
+const writeStorage = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Error saving ${key}`, e);
+  }
+};
+
+/**
+ * Loads the user's cost settings from localStorage, filling gaps with defaults.
+ */
+export const loadCostSettings = (): CostSettings => ({
+  ...DEFAULT_COST_SETTINGS,
+  ...readStorage<Partial<CostSettings>>(COST_SETTINGS_KEY, {})
+});
+
+export const saveCostSettings = (settings: CostSettings): void => writeStorage(COST_SETTINGS_KEY, settings);
+
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
+  queries: ['bitcoin price', 'ethereum price'],
+  refreshIntervalSec: 120,
+  enabled: false
+};
+
+export const loadScannerSettings = (): ScannerSettings => ({
+  ...DEFAULT_SCANNER_SETTINGS,
+  ...readStorage<Partial<ScannerSettings>>(SCANNER_SETTINGS_KEY, {})
+});
+
+export const saveScannerSettings = (settings: ScannerSettings): void => writeStorage(SCANNER_SETTINGS_KEY, settings);
+
+export const loadAlertRules = (): AlertRule[] => readStorage<AlertRule[]>(ALERT_RULES_KEY, []);
+
+export const saveAlertRules = (rules: AlertRule[]): void => writeStorage(ALERT_RULES_KEY, rules);
+
+export const loadAlertHistory = (): FiredAlert[] => readStorage<FiredAlert[]>(ALERT_HISTORY_KEY, []);
+
+/**
+ * Saves the fired-alert history, newest first, capped at MAX_ALERT_HISTORY entries.
+ */
+export const saveAlertHistory = (history: FiredAlert[]): void =>
+  writeStorage(ALERT_HISTORY_KEY, history.slice(0, MAX_ALERT_HISTORY));
+
+export const loadAlertSettings = (): AlertSettings => ({
+  webhookUrl: '',
+  ...readStorage<Partial<AlertSettings>>(ALERT_SETTINGS_KEY, {})
+});
+
+export const saveAlertSettings = (settings: AlertSettings): void => writeStorage(ALERT_SETTINGS_KEY, settings);
+
+export const DEFAULT_RECORDER_SETTINGS: RecorderSettings = {
+  enabled: true,
+  retentionDays: 30
+};
+
+export const loadRecorderSettings = (): RecorderSettings => ({
+  ...DEFAULT_RECORDER_SETTINGS,
+  ...readStorage<Partial<RecorderSettings>>(RECORDER_SETTINGS_KEY, {})
+});
+
+export const saveRecorderSettings = (settings: RecorderSettings): void => writeStorage(RECORDER_SETTINGS_KEY, settings);
+
+/**
+ * Loads saved legs. Deribit quotes saved before the venue-neutral quote shape
+ * are dropped; the next refresh fetches them again.
+ */
+export const loadPositions = (): PositionLeg[] =>
+  readStorage<PositionLeg[]>(POSITIONS_KEY, []).map(leg =>
+    leg.venue === 'deribit' && leg.option && !('instrument' in leg.option) ? { ...leg, option: null } : leg
+  );
+
+export const savePositions = (legs: PositionLeg[]): void => writeStorage(POSITIONS_KEY, legs);
+
+export const DEFAULT_VENUE_SETTINGS: VenueSettings = {
+  optionsVenue: 'deribit'
+};
+
+export const loadVenueSettings = (): VenueSettings => ({
+  ...DEFAULT_VENUE_SETTINGS,
+  ...readStorage<Partial<VenueSettings>>(VENUE_SETTINGS_KEY, {})
+});
+
+export const saveVenueSettings = (settings: VenueSettings): void => writeStorage(VENUE_SETTINGS_KEY, settings);
+
+export const loadLlmSettings = (): LlmSettings => ({
+  provider: DEFAULT_LLM_PROVIDER,
+  ...readStorage<Partial<LlmSettings>>(LLM_SETTINGS_KEY, {})
+});
+
+export const saveLlmSettings = (settings: LlmSettings): void => writeStorage(LLM_SETTINGS_KEY, settings);
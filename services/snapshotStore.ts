@@ -0,0 +1,126 @@
+import { MarketSnapshot, RecorderSettings, ScanRow } from '../types';
+import { buildSnapshot } from '../utils/snapshots';
+
+const DB_NAME = 'polybit';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Live refreshes can re-price a market every few seconds; one point a minute is plenty
+const MIN_SNAPSHOT_INTERVAL_MS = 60 * 1000;
+const lastRecorded: Record<string, number> = {};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('marketKey', 'marketKey');
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const saveSnapshots = async (snapshots: MarketSnapshot[]): Promise<void> => {
+  if (snapshots.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  snapshots.forEach(s => store.add(s));
+  await transactionDone(tx);
+};
+
+/**
+ * Records a snapshot for every priced row, at most one per market per minute.
+ * Failures are logged and swallowed: recording must never break a fetch.
+ */
+export const recordScanRows = async (rows: ScanRow[], settings: RecorderSettings): Promise<void> => {
+  if (!settings.enabled) return;
+  const snapshots = rows
+    .filter(row => row.scannedAt - (lastRecorded[row.key] || 0) >= MIN_SNAPSHOT_INTERVAL_MS)
+    .map(buildSnapshot);
+
+  try {
+    await saveSnapshots(snapshots);
+    snapshots.forEach(s => { lastRecorded[s.marketKey] = s.timestamp; });
+  } catch (e) {
+    console.warn('[Recorder] Failed to save snapshots', e);
+  }
+};
+
+/**
+ * All snapshots of one market, oldest first.
+ */
+export const getMarketSnapshots = async (marketKey: string): Promise<MarketSnapshot[]> => {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('marketKey');
+  const snapshots = await requestToPromise<MarketSnapshot[]>(index.getAll(IDBKeyRange.only(marketKey)));
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const getAllSnapshots = async (): Promise<MarketSnapshot[]> => {
+  const db = await openDb();
+  return requestToPromise<MarketSnapshot[]>(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+};
+
+export const countSnapshots = async (): Promise<number> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).count());
+};
+
+/**
+ * Deletes snapshots older than the retention window. Returns how many were removed.
+ */
+export const pruneSnapshots = async (retentionDays: number, now: number = Date.now()): Promise<number> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const index = tx.objectStore(STORE).index('timestamp');
+  const cutoff = now - retentionDays * MS_PER_DAY;
+  let removed = 0;
+
+  const cursorRequest = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    removed++;
+    cursor.continue();
+  };
+
+  await transactionDone(tx);
+  return removed;
+};
+
+export const clearSnapshots = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+  Object.keys(lastRecorded).forEach(key => delete lastRecorded[key]);
+};
@@ -0,0 +1,289 @@
+import { DeribitOption, PolyEvent, PolyMarket, ValidationIssue } from '../types';
+import { parseDeribitInstrument } from '../utils/helpers';
+
+const MAX_ISSUES = 200;
+
+// Newest first; one entry per source/path/message, so cached payloads that are
+// re-validated on every read don't flood the log
+const issues: ValidationIssue[] = [];
+
+export const getValidationIssues = (): ValidationIssue[] => [...issues];
+
+export const clearValidationIssues = (): void => {
+  issues.length = 0;
+};
+
+const recordIssues = (found: ValidationIssue[]): void => {
+  found.forEach(issue => {
+    const idx = issues.findIndex(i => i.source === issue.source && i.path === issue.path && i.message === issue.message);
+    if (idx >= 0) issues.splice(idx, 1);
+    issues.unshift(issue);
+  });
+  issues.length = Math.min(issues.length, MAX_ISSUES);
+};
+
+interface Reporter {
+  repaired: (path: string, message: string) => void;
+  dropped: (path: string, message: string) => void;
+}
+
+/**
+ * Runs a validator over one payload and records every repair or drop it reports.
+ */
+const withReporter = <T>(source: string, validate: (report: Reporter) => T): T => {
+  const found: ValidationIssue[] = [];
+  const at = Date.now();
+  const result = validate({
+    repaired: (path, message) => found.push({ source, path, message, action: 'repaired', at }),
+    dropped: (path, message) => found.push({ source, path, message, action: 'dropped', at })
+  });
+  recordIssues(found);
+  return result;
+};
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Gamma sends most numbers as strings
+const toFiniteNumber = (v: unknown): number | null => {
+  const n = typeof v === 'string' ? parseFloat(v) : typeof v === 'number' ? v : NaN;
+  return isFinite(n) ? n : null;
+};
+
+const isValidDate = (v: unknown): v is string => typeof v === 'string' && !isNaN(new Date(v).getTime());
+
+/**
+ * Polymarket list fields arrive as JSON strings, arrays, or a bare string for one item.
+ */
+const parseList = (v: unknown): unknown[] | null => {
+  if (Array.isArray(v)) return v;
+  if (typeof v !== 'string') return null;
+  if (!v.trim().startsWith('[')) return [v];
+  try {
+    const parsed = JSON.parse(v);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A number field that may be absent. Missing means `fallback` silently;
+ * present but invalid (or outside [min, max]) is repaired to `fallback`.
+ */
+const optionalNumber = (
+  raw: Record<string, any>, key: string, path: string, report: Reporter, fallback: number, min = -Infinity, max = Infinity
+): number => {
+  const value = raw[key];
+  if (value === undefined || value === null || value === '') return fallback;
+  const n = toFiniteNumber(value);
+  if (n === null || n < min || n > max) {
+    report.repaired(`${path}.${key}`, `${JSON.stringify(value)} is not a number in [${min}, ${max}]; using ${fallback}`);
+    return fallback;
+  }
+  return n;
+};
+
+const validatePolyMarket = (raw: unknown, path: string, report: Reporter, fallbackEndDate: string | null): PolyMarket | null => {
+  if (!isRecord(raw)) {
+    report.dropped(path, 'Market is not an object');
+    return null;
+  }
+  if (raw.id === undefined || raw.id === null || raw.id === '') {
+    report.dropped(`${path}.id`, 'Missing market id');
+    return null;
+  }
+  if (typeof raw.question !== 'string' || !raw.question.trim()) {
+    report.dropped(`${path}.question`, 'Missing question');
+    return null;
+  }
+
+  const names = parseList(raw.outcomes);
+  if (!names || names.length === 0 || names.some(n => typeof n !== 'string')) {
+    report.dropped(`${path}.outcomes`, `Malformed outcomes ${JSON.stringify(raw.outcomes)}`);
+    return null;
+  }
+  const rawPrices = parseList(raw.outcomePrices);
+  if (!rawPrices) {
+    report.dropped(`${path}.outcomePrices`, `Malformed outcome prices ${JSON.stringify(raw.outcomePrices)}`);
+    return null;
+  }
+  if (rawPrices.length !== names.length) {
+    report.dropped(`${path}.outcomePrices`, `${rawPrices.length} prices for ${names.length} outcomes`);
+    return null;
+  }
+  const prices = rawPrices.map(toFiniteNumber);
+  const badPrice = prices.findIndex(p => p === null || p < 0 || p > 1);
+  if (badPrice >= 0) {
+    report.dropped(`${path}.outcomePrices[${badPrice}]`, `${JSON.stringify(rawPrices[badPrice])} is not a price in [0, 1]`);
+    return null;
+  }
+
+  let endDate: string;
+  if (isValidDate(raw.endDate)) {
+    endDate = raw.endDate;
+  } else if (fallbackEndDate) {
+    report.repaired(`${path}.endDate`, `Invalid end date ${JSON.stringify(raw.endDate)}; using the event's`);
+    endDate = fallbackEndDate;
+  } else {
+    report.dropped(`${path}.endDate`, `Invalid end date ${JSON.stringify(raw.endDate)}`);
+    return null;
+  }
+
+  return {
+    id: String(raw.id),
+    question: raw.question,
+    // Canonical JSON, so parsePolymarketOutcomes never sees malformed input
+    outcomes: JSON.stringify(names),
+    outcomePrices: JSON.stringify(prices.map(String)),
+    bestBid: optionalNumber(raw, 'bestBid', path, report, 0, 0, 1),
+    bestAsk: optionalNumber(raw, 'bestAsk', path, report, 0, 0, 1),
+    volume: optionalNumber(raw, 'volume', path, report, 0, 0),
+    liquidity: optionalNumber(raw, 'liquidity', path, report, 0, 0),
+    endDate,
+    clobTokenIds: Array.isArray(raw.clobTokenIds) ? JSON.stringify(raw.clobTokenIds) : typeof raw.clobTokenIds === 'string' ? raw.clobTokenIds : undefined
+  };
+};
+
+const validatePolyEvent = (raw: unknown, path: string, report: Reporter): PolyEvent | null => {
+  if (!isRecord(raw)) {
+    report.dropped(path, 'Event is not an object');
+    return null;
+  }
+  if (raw.id === undefined || raw.id === null || raw.id === '') {
+    report.dropped(`${path}.id`, 'Missing event id');
+    return null;
+  }
+  if (!Array.isArray(raw.markets)) {
+    report.dropped(`${path}.markets`, 'Missing markets array');
+    return null;
+  }
+
+  const eventEnd = isValidDate(raw.endDate) ? raw.endDate : null;
+  const markets = raw.markets
+    .map((m: unknown, i: number) => validatePolyMarket(m, `${path}.markets[${i}]`, report, eventEnd))
+    .filter((m: PolyMarket | null): m is PolyMarket => m !== null);
+  if (markets.length === 0) {
+    report.dropped(`${path}.markets`, 'No valid markets');
+    return null;
+  }
+
+  let title = raw.title;
+  if (typeof title !== 'string' || !title.trim()) {
+    title = markets[0].question;
+    report.repaired(`${path}.title`, 'Missing title; using the first market question');
+  }
+  if (!eventEnd) report.repaired(`${path}.endDate`, `Invalid end date ${JSON.stringify(raw.endDate)}; using the first market's`);
+
+  return {
+    id: String(raw.id),
+    ticker: typeof raw.ticker === 'string' ? raw.ticker : '',
+    title,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    startDate: typeof raw.startDate === 'string' ? raw.startDate : '',
+    endDate: eventEnd || markets[0].endDate,
+    volume: optionalNumber(raw, 'volume', path, report, 0, 0),
+    markets,
+    image: typeof raw.image === 'string' ? raw.image : undefined
+  };
+};
+
+/**
+ * Validates a Gamma public-search payload. A payload that isn't an object,
+ * or whose `events` isn't an array, is rejected; bad events and markets are
+ * repaired or dropped.
+ */
+export const validatePolySearch = (data: unknown): PolyEvent[] =>
+  withReporter('Polymarket search', report => {
+    if (!isRecord(data)) throw new Error('Invalid Polymarket search response: expected an object');
+    if (data.events === undefined || data.events === null) return [];
+    if (!Array.isArray(data.events)) throw new Error('Invalid Polymarket search response at events: expected an array');
+    return data.events
+      .map((e: unknown, i: number) => validatePolyEvent(e, `events[${i}]`, report))
+      .filter((e: PolyEvent | null): e is PolyEvent => e !== null);
+  });
+
+/**
+ * Validates a Gamma market payload; a market that can't be repaired is rejected.
+ */
+export const validatePolyMarketResponse = (data: unknown, marketId: string): { market: PolyMarket; description: string } =>
+  withReporter(`Polymarket market ${marketId}`, report => {
+    const market = validatePolyMarket(data, 'market', report, null);
+    if (!market) throw new Error(`Invalid Polymarket market ${marketId}`);
+    return { market, description: isRecord(data) && typeof data.description === 'string' ? data.description : '' };
+  });
+
+const validateDeribitOption = (raw: unknown, path: string, report: Reporter): DeribitOption | null => {
+  if (!isRecord(raw)) {
+    report.dropped(path, 'Option is not an object');
+    return null;
+  }
+  if (typeof raw.instrument_name !== 'string' || !parseDeribitInstrument(raw.instrument_name)) {
+    report.dropped(`${path}.instrument_name`, `Unparseable instrument ${JSON.stringify(raw.instrument_name)}`);
+    return null;
+  }
+  const name = raw.instrument_name;
+  const mark = toFiniteNumber(raw.mark_price);
+  if (mark === null || mark < 0) {
+    report.dropped(`${path}.mark_price`, `${name}: invalid mark price ${JSON.stringify(raw.mark_price)}`);
+    return null;
+  }
+  const iv = toFiniteNumber(raw.mark_iv);
+  if (iv === null || iv < 0) {
+    report.dropped(`${path}.mark_iv`, `${name}: invalid mark IV ${JSON.stringify(raw.mark_iv)}`);
+    return null;
+  }
+  const underlying = toFiniteNumber(raw.underlying_price);
+  if (underlying === null || underlying <= 0) {
+    report.dropped(`${path}.underlying_price`, `${name}: invalid underlying price ${JSON.stringify(raw.underlying_price)}`);
+    return null;
+  }
+
+  // Null and zero both mean an empty side of the book
+  const side = (key: 'bid_price' | 'ask_price'): number | null => {
+    const value = raw[key];
+    if (value === undefined || value === null || value === 0) return null;
+    const n = toFiniteNumber(value);
+    if (n === null || n < 0) {
+      report.repaired(`${path}.${key}`, `${name}: invalid ${key.replace('_', ' ')} ${JSON.stringify(value)}; treated as empty`);
+      return null;
+    }
+    return n;
+  };
+
+  return {
+    instrument_name: name,
+    mark_price: mark,
+    mark_iv: iv,
+    bid_price: side('bid_price'),
+    ask_price: side('ask_price'),
+    open_interest: optionalNumber(raw, 'open_interest', path, report, 0, 0),
+    underlying_price: underlying,
+    underlying_index: typeof raw.underlying_index === 'string' ? raw.underlying_index : '',
+    creation_timestamp: optionalNumber(raw, 'creation_timestamp', path, report, 0, 0)
+  };
+};
+
+/**
+ * Validates a Deribit book summary payload. A payload without a `result`
+ * array is rejected; bad options are dropped.
+ */
+export const validateDeribitOptions = (data: unknown, currency: string): DeribitOption[] =>
+  withReporter(`Deribit ${currency} options`, report => {
+    if (!isRecord(data) || !Array.isArray(data.result)) {
+      throw new Error(`Invalid Deribit ${currency} options response at result: expected an array`);
+    }
+    return data.result
+      .map((o: unknown, i: number) => validateDeribitOption(o, `result[${i}]`, report))
+      .filter((o: DeribitOption | null): o is DeribitOption => o !== null);
+  });
+
+/**
+ * Validates a Deribit index price payload; anything but a positive price is rejected.
+ */
+export const validateDeribitSpot = (data: unknown, indexName: string): number => {
+  const price = isRecord(data) && isRecord(data.result) ? toFiniteNumber(data.result.price) : null;
+  if (price === null || price <= 0) {
+    throw new Error(`Invalid Deribit ${indexName} index response at result.price: expected a positive number`);
+  }
+  return price;
+};
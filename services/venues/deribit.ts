@@ -0,0 +1,54 @@
+import { DeribitOption, OptionQuote, OptionsProvider } from '../../types';
+import { fetchAssetOptionChain, fetchDeribitSpot } from '../api';
+import { getAssetConfig, getAssetConfigForInstrument, isLinearInstrument } from '../../utils/assets';
+import { parseDeribitExpiry, parseDeribitInstrument } from '../../utils/helpers';
+
+/**
+ * Maps a Deribit book summary onto the venue-neutral quote.
+ * Returns null for instruments that don't parse.
+ */
+export const normalizeDeribitOption = (raw: DeribitOption): OptionQuote | null => {
+  const parsed = parseDeribitInstrument(raw.instrument_name);
+  const expiryTimestamp = parsed ? parseDeribitExpiry(parsed.expiry) : null;
+  if (!parsed || expiryTimestamp === null) return null;
+  const config = getAssetConfigForInstrument(raw.instrument_name);
+
+  return {
+    venue: 'deribit',
+    instrument: raw.instrument_name,
+    asset: config?.symbol || parsed.currency,
+    expiryCode: parsed.expiry,
+    expiryTimestamp,
+    strike: parsed.strike,
+    type: parsed.type,
+    bid: raw.bid_price ?? null,
+    ask: raw.ask_price ?? null,
+    mark: raw.mark_price,
+    iv: raw.mark_iv,
+    isInverse: !isLinearInstrument(raw.instrument_name),
+    underlyingPrice: raw.underlying_price,
+    openInterest: raw.open_interest || 0,
+    lotSize: config?.lotSize || 0.1,
+    quotedAt: raw.creation_timestamp || null
+  };
+};
+
+/**
+ * Deribit: BTC and ETH inverse options, SOL and XRP USDC-settled linear options.
+ */
+export const deribitProvider: OptionsProvider = {
+  id: 'deribit',
+  name: 'Deribit',
+  supportsAsset: asset => getAssetConfig(asset) !== null,
+  fetchSpot: async asset => {
+    const config = getAssetConfig(asset);
+    if (!config) throw new Error(`Deribit lists no options on ${asset}`);
+    return fetchDeribitSpot(config.indexName);
+  },
+  fetchChain: async asset => {
+    const config = getAssetConfig(asset);
+    if (!config) throw new Error(`Deribit lists no options on ${asset}`);
+    const options = await fetchAssetOptionChain(config);
+    return options.map(normalizeDeribitOption).filter((o): o is OptionQuote => o !== null);
+  }
+};
@@ -0,0 +1,23 @@
+import { OptionsProvider, OptionsVenueId, PredictionMarketProvider, PredictionVenueId } from '../../types';
+import { deribitProvider } from './deribit';
+import { kalshiProvider } from './kalshi';
+import { okxProvider } from './okx';
+import { polymarketProvider } from './polymarket';
+
+export const OPTIONS_PROVIDERS: Record<OptionsVenueId, OptionsProvider> = {
+  deribit: deribitProvider,
+  okx: okxProvider
+};
+
+export const PREDICTION_PROVIDERS: Record<PredictionVenueId, PredictionMarketProvider> = {
+  polymarket: polymarketProvider,
+  kalshi: kalshiProvider
+};
+
+export const DEFAULT_OPTIONS_VENUE: OptionsVenueId = 'deribit';
+
+/**
+ * Options venue by id, falling back to Deribit for unknown (e.g. stale saved) ids.
+ */
+export const getOptionsProvider = (id: OptionsVenueId): OptionsProvider =>
+  OPTIONS_PROVIDERS[id] || OPTIONS_PROVIDERS[DEFAULT_OPTIONS_VENUE];
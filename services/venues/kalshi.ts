@@ -0,0 +1,135 @@
+import { BinaryContract, ContractSpec, PredictionMarketProvider } from '../../types';
+import { fetchWithCache } from '../api';
+import { detectAsset } from '../../utils/assets';
+
+const KALSHI_BASE_URL = 'https://api.elections.kalshi.com/trade-api/v2';
+
+// Price series per asset: daily/hourly above-below and range contracts
+const KALSHI_SERIES: Record<string, string[]> = {
+  BTC: ['KXBTCD', 'KXBTC'],
+  ETH: ['KXETHD', 'KXETH']
+};
+
+// Kalshi settles crypto contracts on the CF Benchmarks real-time index,
+// averaged over the last 60 seconds before the close
+const KALSHI_RESOLUTION_SOURCE = 'CF Benchmarks Real-Time Index (60s average)';
+
+interface KalshiMarket {
+  ticker: string; // e.g. "KXBTCD-25OCT2017-T99999.99"
+  event_ticker: string;
+  title: string;
+  subtitle?: string;
+  yes_sub_title?: string;
+  status: string;
+  close_time: string; // ISO; the strike is observed at the close
+  yes_bid: number; // Cents
+  yes_ask: number;
+  last_price: number;
+  volume: number; // Contracts
+  liquidity: number; // Cents
+  rules_primary?: string;
+  strike_type?: 'greater' | 'greater_or_equal' | 'less' | 'less_or_equal' | 'between' | string;
+  floor_strike?: number;
+  cap_strike?: number;
+}
+
+interface KalshiMarketsResponse {
+  markets: KalshiMarket[];
+  cursor?: string;
+}
+
+const centsToProb = (cents: number | undefined): number | null =>
+  typeof cents === 'number' && cents > 0 && cents < 100 ? cents / 100 : null;
+
+/**
+ * Contract spec straight from Kalshi's structured strike, so no text parsing
+ * is needed. Returns null for strike types other than above/below/between.
+ */
+const toContractSpec = (m: KalshiMarket, asset: string): ContractSpec | null => {
+  const base = {
+    asset,
+    observationStart: null,
+    observationEnd: m.close_time,
+    resolutionSource: KALSHI_RESOLUTION_SOURCE,
+    confidence: 1
+  };
+  const floor = m.floor_strike ?? null;
+  const cap = m.cap_strike ?? null;
+
+  switch (m.strike_type) {
+    case 'greater':
+    case 'greater_or_equal':
+      return floor === null ? null : {
+        ...base, direction: 'above', type: 'close', lowerBound: floor, upperBound: null,
+        explanation: [`Kalshi strike: ${asset} above ${floor} at the close.`]
+      };
+    case 'less':
+    case 'less_or_equal':
+      return cap === null ? null : {
+        ...base, direction: 'below', type: 'close', lowerBound: null, upperBound: cap,
+        explanation: [`Kalshi strike: ${asset} below ${cap} at the close.`]
+      };
+    case 'between':
+      return floor === null || cap === null ? null : {
+        ...base, direction: null, type: 'range', lowerBound: floor, upperBound: cap,
+        explanation: [`Kalshi strike: ${asset} between ${floor} and ${cap} at the close.`]
+      };
+    default:
+      return null;
+  }
+};
+
+const toBinaryContract = (m: KalshiMarket, asset: string, seriesTicker: string): BinaryContract => ({
+  venue: 'kalshi',
+  id: m.ticker,
+  eventId: m.event_ticker,
+  eventTitle: m.title,
+  question: [m.title, m.yes_sub_title || m.subtitle].filter(Boolean).join(' '),
+  description: m.rules_primary || '',
+  yesBid: centsToProb(m.yes_bid),
+  yesAsk: centsToProb(m.yes_ask),
+  lastPrice: centsToProb(m.last_price),
+  // Contracts pay $1, so contract volume is the USD notional
+  volume: m.volume || 0,
+  liquidity: (m.liquidity || 0) / 100,
+  endDate: m.close_time,
+  url: `https://kalshi.com/markets/${seriesTicker.toLowerCase()}`,
+  spec: toContractSpec(m, asset) ?? undefined
+});
+
+/**
+ * Open markets of one Kalshi series. Public market data needs no API key.
+ */
+export const fetchKalshiSeries = async (seriesTicker: string, asset: string): Promise<BinaryContract[]> => {
+  const targetUrl = `${KALSHI_BASE_URL}/markets?series_ticker=${seriesTicker}&status=open&limit=1000`;
+  // Same 15s cache as Polymarket search
+  const data: KalshiMarketsResponse = await fetchWithCache(targetUrl, 15 * 1000);
+  return (data.markets || []).map(m => toBinaryContract(m, asset, seriesTicker));
+};
+
+export const kalshiSupportsAsset = (asset: string | null): boolean => !!asset && asset in KALSHI_SERIES;
+
+/**
+ * Every open above/below and range market for an asset.
+ */
+export const fetchKalshiContracts = async (asset: string): Promise<BinaryContract[]> => {
+  const contracts: BinaryContract[] = [];
+  // Sequential: the proxies rate-limit parallel bursts
+  for (const seriesTicker of KALSHI_SERIES[asset] || []) {
+    contracts.push(...await fetchKalshiSeries(seriesTicker, asset));
+  }
+  return contracts;
+};
+
+/**
+ * Kalshi has no free-text search: the query only selects the asset, and every
+ * open market of that asset's price series is returned.
+ */
+export const kalshiProvider: PredictionMarketProvider = {
+  id: 'kalshi',
+  name: 'Kalshi',
+  searchContracts: async query => {
+    const asset = detectAsset(query);
+    return kalshiSupportsAsset(asset) ? fetchKalshiContracts(asset!) : [];
+  }
+};
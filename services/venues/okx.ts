@@ -0,0 +1,136 @@
+import { OptionQuote, OptionsProvider } from '../../types';
+import { fetchWithCache } from '../api';
+
+const OKX_BASE_URL = 'https://www.okx.com/api/v5';
+
+// Coin-margined (inverse) option families listed on OKX
+const OKX_UNDERLYINGS: Record<string, string> = {
+  BTC: 'BTC-USD',
+  ETH: 'ETH-USD'
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+interface OkxResponse<T> {
+  code: string; // "0" on success
+  msg: string;
+  data: T[];
+}
+
+interface OkxInstrument {
+  instId: string; // e.g. "BTC-USD-261225-100000-C"
+  stk: string;
+  optType: 'C' | 'P';
+  expTime: string; // ms
+  ctVal: string; // Underlying per contract
+  ctMult: string;
+  minSz: string; // Contracts
+  state: string;
+}
+
+interface OkxTicker {
+  instId: string;
+  bidPx: string; // Empty when there is no bid
+  askPx: string;
+  ts: string; // ms
+}
+
+interface OkxOptSummary {
+  instId: string;
+  markVol: string; // Decimal, e.g. "0.52"
+  fwdPx: string;
+}
+
+interface OkxMarkPrice {
+  instId: string;
+  markPx: string;
+}
+
+interface OkxOpenInterest {
+  instId: string;
+  oiCcy: string; // In the underlying
+}
+
+const fetchOkx = async <T>(path: string, duration: number): Promise<T[]> => {
+  const data: OkxResponse<T> = await fetchWithCache(`${OKX_BASE_URL}${path}`, duration);
+  if (data.code !== '0') throw new Error(`OKX Error: ${data.msg || data.code}`);
+  return data.data || [];
+};
+
+const toNumber = (value: string | undefined): number | null => {
+  const n = parseFloat(value ?? '');
+  return isNaN(n) ? null : n;
+};
+
+/**
+ * OKX expiry timestamp as a DMMMYY code, matching Deribit's naming.
+ */
+const toExpiryCode = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getUTCDate()}${MONTHS[d.getUTCMonth()]}${String(d.getUTCFullYear()).slice(2)}`;
+};
+
+/**
+ * OKX: BTC and ETH coin-margined options. Premiums are quoted in the
+ * underlying per unit of it, the same convention as Deribit's inverse chain.
+ */
+export const okxProvider: OptionsProvider = {
+  id: 'okx',
+  name: 'OKX',
+  supportsAsset: asset => asset in OKX_UNDERLYINGS,
+  fetchSpot: async asset => {
+    const uly = OKX_UNDERLYINGS[asset];
+    if (!uly) throw new Error(`OKX lists no options on ${asset}`);
+    const [index] = await fetchOkx<{ idxPx: string }>(`/market/index-tickers?instId=${uly}`, 30 * 1000);
+    return toNumber(index?.idxPx) || 0;
+  },
+  fetchChain: async asset => {
+    const uly = OKX_UNDERLYINGS[asset];
+    if (!uly) throw new Error(`OKX lists no options on ${asset}`);
+
+    // Sequential: the proxies rate-limit parallel bursts
+    const instruments = await fetchOkx<OkxInstrument>(`/public/instruments?instType=OPTION&uly=${uly}`, 5 * 60 * 1000);
+    const tickers = await fetchOkx<OkxTicker>(`/market/tickers?instType=OPTION&uly=${uly}`, 60 * 1000);
+    const summaries = await fetchOkx<OkxOptSummary>(`/public/opt-summary?uly=${uly}`, 60 * 1000);
+    const marks = await fetchOkx<OkxMarkPrice>(`/public/mark-price?instType=OPTION&uly=${uly}`, 60 * 1000);
+    const openInterest = await fetchOkx<OkxOpenInterest>(`/public/open-interest?instType=OPTION&uly=${uly}`, 60 * 1000);
+
+    const byId = <T extends { instId: string }>(rows: T[]) => new Map(rows.map(r => [r.instId, r]));
+    const tickerById = byId(tickers);
+    const summaryById = byId(summaries);
+    const markById = byId(marks);
+    const oiById = byId(openInterest);
+
+    const quotes: OptionQuote[] = [];
+    instruments.forEach(inst => {
+      const summary = summaryById.get(inst.instId);
+      const mark = toNumber(markById.get(inst.instId)?.markPx);
+      const strike = toNumber(inst.stk);
+      const expiryTimestamp = toNumber(inst.expTime);
+      if (inst.state !== 'live' || !summary || mark === null || strike === null || expiryTimestamp === null) return;
+
+      const ticker = tickerById.get(inst.instId);
+      const contractSize = (toNumber(inst.ctVal) || 1) * (toNumber(inst.ctMult) || 1);
+      quotes.push({
+        venue: 'okx',
+        instrument: inst.instId,
+        asset,
+        expiryCode: toExpiryCode(expiryTimestamp),
+        expiryTimestamp,
+        strike,
+        type: inst.optType,
+        // Zero means an empty side of the book
+        bid: toNumber(ticker?.bidPx) || null,
+        ask: toNumber(ticker?.askPx) || null,
+        mark,
+        iv: (toNumber(summary.markVol) || 0) * 100,
+        isInverse: true,
+        underlyingPrice: toNumber(summary.fwdPx) || 0,
+        openInterest: toNumber(oiById.get(inst.instId)?.oiCcy) || 0,
+        lotSize: contractSize * (toNumber(inst.minSz) || 1),
+        quotedAt: toNumber(ticker?.ts)
+      });
+    });
+    return quotes;
+  }
+};
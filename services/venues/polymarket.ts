@@ -0,0 +1,39 @@
+import { BinaryContract, PolyEvent, PredictionMarketProvider } from '../../types';
+import { fetchPolymarketData } from '../api';
+import { parsePolymarketOutcomes } from '../../utils/helpers';
+
+/**
+ * Searches Polymarket. Events arrive validated from the API layer.
+ */
+export const searchPolymarketEvents = (query: string): Promise<PolyEvent[]> => fetchPolymarketData(query);
+
+/**
+ * One binary contract per market of the event. Multi-outcome markets use
+ * their first listed outcome as "Yes".
+ */
+export const toBinaryContracts = (event: PolyEvent): BinaryContract[] =>
+  event.markets.map(m => {
+    const outcomes: { name: string; price: number }[] = parsePolymarketOutcomes(m.outcomes || '[]', m.outcomePrices || '[]');
+    const yes = outcomes.find(o => o.name.toLowerCase() === 'yes') || outcomes[0];
+    return {
+      venue: 'polymarket',
+      id: String(m.id),
+      eventId: String(event.id),
+      eventTitle: event.title,
+      question: m.question,
+      description: event.description || '',
+      yesBid: m.bestBid || null,
+      yesAsk: m.bestAsk || null,
+      lastPrice: yes && !isNaN(yes.price) ? yes.price : null,
+      volume: Number(m.volume) || 0,
+      liquidity: m.liquidity || 0,
+      endDate: m.endDate || event.endDate,
+      url: event.ticker ? `https://polymarket.com/event/${event.ticker}` : null
+    };
+  });
+
+export const polymarketProvider: PredictionMarketProvider = {
+  id: 'polymarket',
+  name: 'Polymarket',
+  searchContracts: async query => (await searchPolymarketEvents(query)).flatMap(toBinaryContracts)
+};
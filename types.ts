@@ -13,7 +13,9 @@ export interface PolyMarket {
   bestBid: number;
   bestAsk: number;
   volume: number;
+  liquidity?: number; // USD resting on the CLOB
   endDate: string; // ISO String
+  clobTokenIds?: string; // JSON string array of CLOB token ids, same order as outcomes
 }
 
 export interface PolyEvent {
@@ -28,8 +30,26 @@ export interface PolyEvent {
   volume: number;
 }
 
-export interface PolySearchResponse {
-  events: any[]; // Raw events from API need mapping
+export interface OrderBookLevel {
+  price: number; // 0-1
+  size: number; // Shares
+}
+
+export interface PolyOrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  timestamp: number;
+}
+
+export interface FillEstimate {
+  avgPrice: number | null; // Volume-weighted fill price, null if nothing fills
+  bestPrice: number | null;
+  slippage: number | null; // avgPrice - bestPrice
+  shares: number;
+  filledUsd: number;
+  unfilledUsd: number; // Size left over when the book is too thin
+  levelsUsed: number;
 }
 
 // Deribit Types
@@ -45,23 +65,571 @@ export interface DeribitOption {
   creation_timestamp: number;
 }
 
-export interface DeribitResponse {
-  jsonrpc: string;
-  result: DeribitOption[];
+// Venue Types
+export type OptionsVenueId = 'deribit' | 'okx';
+export type PredictionVenueId = 'polymarket' | 'kalshi';
+
+/**
+ * One listed option, normalized across venues. Prices are per unit of the
+ * underlying: in the underlying for inverse options, in USD for linear ones.
+ */
+export interface OptionQuote {
+  venue: OptionsVenueId;
+  instrument: string; // Venue instrument name, e.g. "BTC-27MAR26-100000-C"
+  asset: string; // e.g. "BTC"
+  expiryCode: string; // DMMMYY, e.g. "27MAR26"
+  expiryTimestamp: number; // ms
+  strike: number;
+  type: 'C' | 'P';
+  bid: number | null;
+  ask: number | null;
+  mark: number;
+  iv: number; // Mark IV, percent
+  isInverse: boolean;
+  underlyingPrice: number; // Forward for the expiry
+  openInterest: number;
+  lotSize: number; // Minimum order size, in units of the underlying
+  quotedAt: number | null; // ms, when the venue produced the quote
 }
 
-export interface DeribitSpotResponse {
-  jsonrpc: string;
-  result: {
-    index_name: string;
-    price: number;
-    timestamp: number;
-  };
+export interface OptionsProvider {
+  id: OptionsVenueId;
+  name: string;
+  supportsAsset: (asset: string) => boolean;
+  fetchSpot: (asset: string) => Promise<number>;
+  fetchChain: (asset: string) => Promise<OptionQuote[]>;
+}
+
+/**
+ * A Yes/No contract normalized across prediction-market venues. Prices 0-1.
+ */
+export interface BinaryContract {
+  venue: PredictionVenueId;
+  id: string;
+  eventId: string;
+  eventTitle: string;
+  question: string;
+  description: string; // Resolution rules
+  yesBid: number | null;
+  yesAsk: number | null;
+  lastPrice: number | null;
+  volume: number;
+  liquidity: number;
+  endDate: string; // ISO
+  url: string | null;
+  spec?: ContractSpec; // Set by venues that publish structured strikes (Kalshi); others are parsed from the question
+}
+
+export interface PredictionMarketProvider {
+  id: PredictionVenueId;
+  name: string;
+  searchContracts: (query: string) => Promise<BinaryContract[]>;
+}
+
+export interface VenueSettings {
+  optionsVenue: OptionsVenueId; // Where the vol comes from
+}
+
+// Data Quality Types
+/**
+ * A record the API boundary repaired or dropped. `path` points into the raw
+ * payload, e.g. "events[2].markets[0].outcomePrices".
+ */
+export interface ValidationIssue {
+  source: string; // Endpoint, e.g. "Polymarket search"
+  path: string;
+  message: string;
+  action: 'repaired' | 'dropped';
+  at: number; // ms
+}
+
+export type DataQualityKind = 'stale-quote' | 'missing-bid' | 'zero-volume' | 'iv-outlier' | 'crossed-book';
+
+export interface DataQualityFlag {
+  kind: DataQualityKind;
+  severity: 'warning' | 'error';
+  subject: string; // Instrument or market the flag is about
+  message: string;
 }
 
 // Combined/Processed Data for UI
 export interface ArbitrageOpportunity {
   polyEvent: PolyEvent;
-  matchedOptions: DeribitOption[];
+  asset: string | null; // Detected underlying, e.g. "ETH"
+  isAssetSupported: boolean; // False if the options venue lists no chain for the asset
+  optionsVenue: OptionsVenueId;
+  matchedOptions: OptionQuote[]; // Options of the primary (highest-weight) expiry
+  expiryBracket: ExpiryBracket | null; // Listed expiries around the resolution time
   spotPrice: number;
-}
\ No newline at end of file
+}
+
+// Pricing Types
+export interface CallSpreadQuote {
+  lowerCall: OptionQuote;
+  upperCall: OptionQuote;
+  lowerStrike: number;
+  upperStrike: number;
+  // Probabilities implied by the spread price (0-1). Null when a side has no quote.
+  bidProb: number | null; // Sell the spread: bid lower call, ask upper call
+  askProb: number | null; // Buy the spread: ask lower call, bid upper call
+  midProb: number; // From mark prices
+}
+
+export interface SmilePoint {
+  strike: number;
+  logMoneyness: number; // ln(K / F)
+  iv: number; // Percent, as quoted by the venue
+  type: 'C' | 'P';
+  instrumentName: string;
+}
+
+export interface VolSmile {
+  forward: number;
+  points: SmilePoint[]; // Market points used in the fit, sorted by strike
+  ivAt: (strike: number) => number; // Interpolated IV (percent) at any strike
+}
+
+// Term Structure Types
+export interface ExpirySlice {
+  code: string; // Expiry code, e.g. "27DEC24"
+  expiryTimestamp: number; // ms, 08:00 UTC on the expiry date
+  options: OptionQuote[];
+}
+
+export interface ExpiryBracket {
+  lower: ExpirySlice;
+  upper: ExpirySlice; // Same slice as lower when the target is outside the listed expiries
+  targetTimestamp: number; // Polymarket resolution time (ms)
+}
+
+// Contract Types
+export type ContractType = 'close' | 'touch-up' | 'touch-down' | 'range';
+
+export interface ContractParseInput {
+  question: string;
+  description?: string;
+  eventTitle?: string;
+  startDate?: string; // ISO, event start
+  endDate?: string; // ISO, resolution time
+  spotPrice?: number; // Used to resolve "reach"/"hit" as an up or down barrier
+}
+
+export interface ContractSpec {
+  asset: string | null; // e.g. "BTC"
+  direction: 'above' | 'below' | null; // Null for ranges
+  type: ContractType;
+  // Bounds of the region where "Yes" wins. Above/touch-up use lowerBound,
+  // below/touch-down use upperBound, ranges use both.
+  lowerBound: number | null;
+  upperBound: number | null;
+  observationStart: string | null; // ISO
+  observationEnd: string | null; // ISO
+  resolutionSource: string | null; // e.g. "Binance BTC/USDT 1m candles"
+  confidence: number; // 0-1
+  explanation: string[];
+}
+
+export interface PricedBucket {
+  market: PolyMarket;
+  spec: ContractSpec;
+  polyProb: number; // Polymarket "Yes" price (0-1)
+  modelProb: number | null; // Deribit-implied probability (0-1)
+  mispricing: number | null; // polyProb - modelProb; positive = Polymarket overpriced
+}
+
+// Cost Model Types
+export interface CostSettings {
+  polyTakerFeePct: number; // Polymarket taker fee, % of notional
+  kalshiFeeRate: number; // Kalshi taker fee per contract = rate × P × (1 − P), rounded up to the cent
+  deribitFeePct: number; // Deribit option fee, % of underlying per contract
+  deribitFeeCapPct: number; // Deribit fee cap, % of option premium
+  hedgeSlippagePct: number; // Expected slippage on the hedge, % of hedge premium
+  capitalCostPct: number; // Annual cost of capital, %
+  minNetEdgePct: number; // Net edge that flags a good opportunity
+}
+
+export interface NetEdgeBreakdown {
+  grossEdge: number; // Probability points (0-1 scale)
+  polyFee: number;
+  hedgeFee: number | null; // Null when the contract has no static hedge
+  hedgeSlippage: number | null;
+  capitalCost: number;
+  netEdge: number;
+  capital: number; // Cash per $1 payout
+  returnOnCapital: number; // netEdge / capital
+  annualizedReturn: number | null; // returnOnCapital / T, null at or past expiry
+}
+
+// Hedge Types
+export interface PolyPosition {
+  side: 'YES' | 'NO';
+  shares: number; // $1 payout per share
+  entryPrice: number; // 0-1
+}
+
+export interface HedgeLeg {
+  option: OptionQuote;
+  strike: number;
+  type: 'C' | 'P';
+  direction: 'buy' | 'sell';
+  contracts: number; // Rounded to the asset's lot size
+  priceUsd: number; // Executable per-contract price (ask for buys, bid for sells)
+}
+
+export interface HedgeProposal {
+  structure: 'call-spread' | 'put-spread';
+  legs: HedgeLeg[];
+  lowerStrike: number;
+  upperStrike: number;
+  premiumUsd: number; // Net cash paid (negative = credit received)
+  targetContracts: number; // Before lot rounding
+}
+
+// Position Types
+export interface PolyPositionLeg {
+  id: string;
+  venue: 'polymarket';
+  marketId: string;
+  outcome: string; // Outcome token held, as listed (e.g. "Yes")
+  shares: number; // $1 payout per share
+  entryPrice: number; // 0-1
+  market: PolyMarket | null; // Last fetched quote
+  description: string; // Resolution rules, for contract parsing
+  openedAt: number;
+}
+
+export interface DeribitPositionLeg {
+  id: string;
+  venue: 'deribit';
+  instrumentName: string; // e.g. "BTC-27MAR26-100000-C"
+  contracts: number; // Negative = short
+  entryPriceUsd: number; // Per contract
+  option: OptionQuote | null; // Last fetched quote
+  openedAt: number;
+}
+
+export type PositionLeg = PolyPositionLeg | DeribitPositionLeg;
+
+export interface MarkedPosition {
+  leg: PositionLeg;
+  asset: string | null;
+  expiry: number | null; // ms
+  markPrice: number | null; // Per share (0-1) or per contract (USD)
+  modelPrice: number | null; // Poly: model probability of the held outcome; Deribit: mark
+  valueUsd: number | null; // At market
+  pnlUsd: number | null; // Unrealized vs entry, at market
+  modelPnlUsd: number | null; // Unrealized vs entry, at model
+  delta: number | null; // Units of the underlying
+  vegaUsd: number | null; // Per vol point
+}
+
+export interface ExpiryLadderRow {
+  expiry: number; // ms
+  legs: number;
+  valueUsd: number;
+  pnlUsd: number;
+  deltaByAsset: Record<string, number>;
+  vegaUsd: number;
+}
+
+export interface AssetQuotes {
+  spotPrice: number;
+  options: OptionQuote[]; // Full chain for the asset
+}
+
+export interface PortfolioSummary {
+  valueUsd: number;
+  pnlUsd: number;
+  modelPnlUsd: number;
+  deltaByAsset: Record<string, number>;
+  vegaUsd: number;
+  ladder: ExpiryLadderRow[]; // Sorted by expiry
+  unmarked: number; // Legs without a current quote
+}
+
+// Monte Carlo Types
+export interface MonteCarloParams {
+  S: number;
+  K: number;
+  T: number; // Years
+  sigma: number; // Decimal
+  r: number;
+  volMultiplier: number;
+  isTouch: boolean;
+  barrierDirection: 'up' | 'down';
+  iterations: number; // Paths
+  seed: number;
+  antithetic: boolean;
+  controlVariate: boolean;
+}
+
+// Running sums, so results from several workers can be merged exactly
+export interface MonteCarloStats {
+  n: number; // Samples (antithetic pairs count once)
+  paths: number;
+  sumY: number;
+  sumYY: number;
+  sumX: number; // Control variate
+  sumXX: number;
+  sumXY: number;
+  controlMean: number; // Known expectation of the control
+  controlVariate: boolean;
+  exact: number | null; // Set when no simulation was needed (expired or already touched)
+}
+
+export interface MonteCarloResult {
+  prob: number;
+  stdError: number;
+  ci95Low: number;
+  ci95High: number;
+  paths: number;
+}
+
+// Alternative Model Types
+export interface MertonParams {
+  sigma: number; // Diffusion vol (decimal)
+  lambda: number; // Jumps per year
+  muJ: number; // Mean log jump size
+  deltaJ: number; // Std dev of log jump size
+}
+
+export interface HestonParams {
+  v0: number; // Initial variance
+  kappa: number; // Mean reversion speed
+  theta: number; // Long-run variance
+  xi: number; // Vol of variance
+  rho: number; // Spot/variance correlation
+}
+
+export interface ModelCalibration<P> {
+  params: P;
+  rmseVolPts: number; // Vega-weighted fit error, in vol points
+  points: number; // Options used in the fit
+  expiryT: number; // Years to the calibrated expiry
+  calibratedAt: number;
+}
+
+export interface ModelCalibrations {
+  merton: ModelCalibration<MertonParams> | null;
+  heston: ModelCalibration<HestonParams> | null;
+}
+
+// Density Types
+export interface RiskNeutralDensity {
+  label: string; // Expiry code, or "interpolated" for a smile built across expiries
+  forward: number;
+  T: number; // Years to expiry
+  strikes: number[]; // Evenly spaced price grid
+  density: number[]; // Probability per unit of price at each grid strike
+  cdf: number[]; // P(S_T <= strike), including the mass below the grid
+  negativeMass: number; // Mass clipped where the smile implies a negative density (butterfly arbitrage)
+}
+
+// Risk Types
+export interface ContractGreeks {
+  // Per $1 payout of the "Yes" side
+  delta: number; // Per $1 move in spot
+  gamma: number; // Change in delta per $1 move in spot
+  vega: number; // Per 1 vol point
+  theta: number; // Per calendar day
+  method: 'closed-form' | 'bump';
+}
+
+export interface SensitivityCell {
+  spotShiftPct: number;
+  volShiftPts: number;
+  prob: number | null;
+  edge: number | null; // Percentage points vs the Polymarket ask
+}
+
+// Scanner Types
+export interface ScanRow {
+  key: string; // `${eventId}:${marketId}`
+  opportunity: ArbitrageOpportunity;
+  market: PolyMarket;
+  query: string; // Saved query that found it
+  spec: ContractSpec;
+  polyYesPrice: number;
+  modelProb: number | null;
+  iv: number | null; // Percent, at the contract strike
+  edge: number | null; // Percentage points
+  netEdge: number | null; // Percentage points
+  annualizedReturn: number | null;
+  daysToExpiry: number;
+  liquidity: number; // USD
+  volume: number; // USD
+  spread: number; // %
+  scannedAt: number;
+}
+
+// Cross-Venue Types
+/**
+ * Buying Yes on one venue and No on the other: pays exactly $1 whichever way
+ * the contract resolves, so a cost below $1 is a locked-in profit.
+ */
+export interface CrossVenueBox {
+  buyYesOn: PredictionVenueId;
+  buyNoOn: PredictionVenueId;
+  yesPrice: number; // Ask, 0-1
+  noPrice: number; // Ask, 0-1
+  fees: number; // Taker fees on both legs, per $1 payout
+  cost: number; // yesPrice + noPrice + fees
+  profit: number; // 1 - cost; positive = arbitrage
+}
+
+export interface CrossVenueMatch {
+  key: string; // `${eventId}:${marketId}:${kalshiTicker}`
+  polyEvent: PolyEvent;
+  market: PolyMarket;
+  spec: ContractSpec; // Polymarket contract, as parsed
+  kalshi: BinaryContract;
+  resolutionGapMinutes: number; // Kalshi close minus Polymarket end
+  modelProb: number | null; // Options-implied, from the scanner's pricing
+  boxes: CrossVenueBox[]; // Both directions that have quotes, cheapest first
+}
+
+export interface ScannerSettings {
+  queries: string[]; // Saved Polymarket search queries
+  refreshIntervalSec: number;
+  enabled: boolean;
+}
+
+// Alert Types
+export type AlertMetric = 'edge' | 'netEdge' | 'spread' | 'volume' | 'liquidity' | 'modelProb' | 'daysToExpiry' | 'modelProbChange';
+
+export interface AlertCondition {
+  metric: AlertMetric;
+  op: '>' | '<';
+  value: number; // Percent for edge/spread/prob metrics, USD for volume/liquidity
+  windowMinutes?: number; // Only for modelProbChange
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  conditions: AlertCondition[]; // All must hold
+  asset: string | null; // Null = any asset
+  query: string | null; // Null = any saved query
+  channels: { browser: boolean; webhook: boolean };
+  cooldownMinutes: number; // Per market, to avoid repeat notifications
+  enabled: boolean;
+}
+
+export interface FiredAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  marketKey: string;
+  question: string;
+  message: string;
+  firedAt: number;
+}
+
+export interface AlertSettings {
+  webhookUrl: string; // Slack-compatible incoming webhook
+}
+
+// Snapshot Types
+export interface MarketSnapshot {
+  id?: number; // Assigned by IndexedDB
+  marketKey: string; // Same as ScanRow.key
+  timestamp: number;
+  question: string;
+  endDate: string; // ISO
+  polyBid: number;
+  polyAsk: number;
+  polyPrice: number; // Last "Yes" outcome price
+  spot: number;
+  iv: number | null; // Percent, at the contract strike
+  modelProb: number | null; // 0-1
+  edge: number | null; // Percentage points, modelProb - ask
+}
+
+export interface RecorderSettings {
+  enabled: boolean;
+  retentionDays: number;
+}
+
+// Backtest Types
+export interface BacktestSnapshot extends MarketSnapshot {
+  options?: OptionQuote[]; // Recorded option chain; when present the IV is re-derived from it
+}
+
+export interface BacktestDataset {
+  name: string;
+  snapshots: BacktestSnapshot[];
+  resolutions: Record<string, 'YES' | 'NO'>; // Keyed by marketKey
+}
+
+export interface BacktestRules {
+  model: 'BS' | 'MC';
+  entryEdgePct: number; // Enter when the edge against the entry price is at least this
+  exitMode: 'convergence' | 'expiry';
+  exitEdgePct: number; // Convergence: exit once the edge against the exit price falls to this
+  stakeUsd: number; // Per trade
+  feePct: number; // Polymarket fee, % of notional on each fill
+  allowNo: boolean; // Also buy "No" when Polymarket is overpriced
+  mcIterations: number;
+}
+
+export interface BacktestTrade {
+  marketKey: string;
+  question: string;
+  side: 'YES' | 'NO';
+  entryTime: number;
+  entryPrice: number; // 0-1, of the side bought
+  entryModelProb: number; // Model probability of the side bought
+  entryEdge: number; // Percentage points
+  exitTime: number;
+  exitPrice: number; // 0-1; the settlement value for resolved trades
+  exitReason: 'convergence' | 'resolution' | 'unresolved';
+  shares: number;
+  fees: number;
+  pnl: number; // USD
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  totalPnl: number;
+  totalStaked: number;
+  hitRate: number | null; // Share of settled trades with positive P&L
+  maxDrawdown: number; // USD, peak-to-trough of cumulative P&L
+  equityCurve: { t: number; equity: number }[];
+  skippedSnapshots: number; // No IV or no quote to price
+  unresolvedMarkets: string[];
+}
+
+// LLM Types
+export type LlmProviderId = 'gemini' | 'stub';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+}
+
+/**
+ * A flagged edge, as the rationale writer sees it: buying Polymarket "Yes"
+ * against the options-implied probability. Prices and edges on the 0-1 scale.
+ */
+export interface TradeRationaleInput {
+  question: string;
+  spec: ContractSpec;
+  polyYesPrice: number;
+  modelProb: number;
+  modelName: string; // e.g. "Black-Scholes"
+  netEdge: number; // After fees, hedge and capital cost
+  daysToExpiry: number;
+  impliedVol: number | null; // Percent, at the strike
+  venueName: string; // Options venue
+}
+
+/**
+ * Reads contract wording into a spec and explains edges in plain language.
+ * Every provider returns the same shapes, so the stub can stand in offline.
+ */
+export interface LlmProvider {
+  id: LlmProviderId;
+  name: string;
+  isConfigured: () => boolean;
+  interpretContract: (input: ContractParseInput) => Promise<ContractSpec>;
+  writeRationale: (input: TradeRationaleInput) => Promise<string>;
+}
@@ -0,0 +1,91 @@
+import { AlertCondition, AlertRule, FiredAlert, ScanRow } from '../types';
+
+export type ProbHistory = Record<string, { t: number; p: number }[]>;
+
+export const ALERT_METRIC_LABELS: Record<AlertCondition['metric'], string> = {
+  edge: 'Edge (%)',
+  netEdge: 'Net edge (%)',
+  spread: 'Spread (%)',
+  volume: 'Volume ($)',
+  liquidity: 'Liquidity ($)',
+  modelProb: 'Model prob (%)',
+  daysToExpiry: 'Days to expiry',
+  modelProbChange: 'Model prob move (pts)'
+};
+
+/**
+ * Largest absolute move (percentage points) of the model probability
+ * within the trailing window.
+ */
+const maxProbMove = (history: { t: number; p: number }[] | undefined, current: number, windowMinutes: number, now: number): number => {
+  if (!history) return 0;
+  const since = now - windowMinutes * 60 * 1000;
+  return history
+    .filter(h => h.t >= since)
+    .reduce((max, h) => Math.max(max, Math.abs(current - h.p) * 100), 0);
+};
+
+const metricValue = (condition: AlertCondition, row: ScanRow, history: ProbHistory, now: number): number | null => {
+  switch (condition.metric) {
+    case 'edge': return row.edge;
+    case 'netEdge': return row.netEdge;
+    case 'spread': return row.spread;
+    case 'volume': return row.volume;
+    case 'liquidity': return row.liquidity;
+    case 'modelProb': return row.modelProb !== null ? row.modelProb * 100 : null;
+    case 'daysToExpiry': return row.daysToExpiry;
+    case 'modelProbChange':
+      return row.modelProb !== null ? maxProbMove(history[row.key], row.modelProb, condition.windowMinutes || 10, now) : null;
+    default: return null;
+  }
+};
+
+/**
+ * Checks a rule against a scanned market. Returns a description of the
+ * matched conditions, or null if the rule does not fire.
+ */
+export const evaluateAlertRule = (rule: AlertRule, row: ScanRow, history: ProbHistory, now: number = Date.now()): string | null => {
+  if (!rule.enabled || rule.conditions.length === 0) return null;
+  if (rule.asset && row.opportunity.asset !== rule.asset) return null;
+  if (rule.query && row.query !== rule.query) return null;
+
+  const parts: string[] = [];
+  for (const condition of rule.conditions) {
+    const value = metricValue(condition, row, history, now);
+    if (value === null) return null;
+    const holds = condition.op === '>' ? value > condition.value : value < condition.value;
+    if (!holds) return null;
+    const window = condition.metric === 'modelProbChange' ? ` in ${condition.windowMinutes || 10}m` : '';
+    parts.push(`${ALERT_METRIC_LABELS[condition.metric]} ${value.toFixed(2)}${window}`);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Records the latest model probabilities and drops points older than `maxAgeMinutes`.
+ */
+export const updateProbHistory = (history: ProbHistory, rows: ScanRow[], now: number, maxAgeMinutes: number = 24 * 60): ProbHistory => {
+  const cutoff = now - maxAgeMinutes * 60 * 1000;
+  const next: ProbHistory = {};
+  Object.entries(history).forEach(([key, points]) => {
+    const kept = points.filter(p => p.t >= cutoff);
+    if (kept.length > 0) next[key] = kept;
+  });
+  rows.forEach(row => {
+    if (row.modelProb === null) return;
+    next[row.key] = [...(next[row.key] || []), { t: now, p: row.modelProb }];
+  });
+  return next;
+};
+
+/**
+ * Latest firing per `ruleId:marketKey`, so cooldowns survive a reload.
+ */
+export const getLastFiredTimes = (history: FiredAlert[]): Record<string, number> => {
+  const lastFired: Record<string, number> = {};
+  history.forEach(alert => {
+    const key = `${alert.ruleId}:${alert.marketKey}`;
+    lastFired[key] = Math.max(lastFired[key] || 0, alert.firedAt);
+  });
+  return lastFired;
+};
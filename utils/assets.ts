@@ -0,0 +1,65 @@
+export interface AssetConfig {
+  symbol: string; // e.g. "BTC"
+  deribitCurrency: string; // Currency passed to get_book_summary_by_currency
+  indexName: string; // Deribit index for spot
+  instrumentPrefix: string; // Filters the currency's chain down to this asset
+  isLinear: boolean; // USDC-settled options are quoted in USD, inverse ones in the underlying
+  lotSize: number; // Minimum option contract increment, in units of the underlying
+}
+
+/**
+ * Assets with a Deribit option chain.
+ * BTC and ETH trade inverse options; SOL and XRP trade USDC-settled linear options.
+ */
+export const SUPPORTED_ASSETS: Record<string, AssetConfig> = {
+  BTC: { symbol: 'BTC', deribitCurrency: 'BTC', indexName: 'btc_usdc', instrumentPrefix: 'BTC-', isLinear: false, lotSize: 0.1 },
+  ETH: { symbol: 'ETH', deribitCurrency: 'ETH', indexName: 'eth_usdc', instrumentPrefix: 'ETH-', isLinear: false, lotSize: 1 },
+  SOL: { symbol: 'SOL', deribitCurrency: 'USDC', indexName: 'sol_usdc', instrumentPrefix: 'SOL_USDC-', isLinear: true, lotSize: 1 },
+  XRP: { symbol: 'XRP', deribitCurrency: 'USDC', indexName: 'xrp_usdc', instrumentPrefix: 'XRP_USDC-', isLinear: true, lotSize: 10 }
+};
+
+const ASSET_PATTERNS: [RegExp, string][] = [
+  [/\b(bitcoin|btc)\b/i, 'BTC'],
+  [/\b(ethereum|ether|eth)\b/i, 'ETH'],
+  [/\b(solana|sol)\b/i, 'SOL'],
+  [/\b(xrp|ripple)\b/i, 'XRP'],
+  // Known assets without a Deribit chain, detected so they can be flagged
+  [/\b(dogecoin|doge)\b/i, 'DOGE'],
+  [/\b(bnb|binance coin)\b/i, 'BNB'],
+  [/\b(cardano|ada)\b/i, 'ADA'],
+  [/\b(hyperliquid|hype)\b/i, 'HYPE'],
+  [/\b(avalanche|avax)\b/i, 'AVAX'],
+  [/\b(chainlink)\b/i, 'LINK'],
+  [/\b(litecoin|ltc)\b/i, 'LTC'],
+  [/\b(sui)\b/i, 'SUI'],
+  [/\b(pepe)\b/i, 'PEPE']
+];
+
+/**
+ * Detects the asset a text refers to. Texts are checked in order, so pass the
+ * most specific one (market question, event title) first.
+ */
+export const detectAsset = (...texts: (string | undefined)[]): string | null => {
+  for (const text of texts) {
+    if (!text) continue;
+    for (const [re, asset] of ASSET_PATTERNS) {
+      if (re.test(text)) return asset;
+    }
+  }
+  return null;
+};
+
+export const getAssetConfig = (asset: string | null): AssetConfig | null =>
+  asset ? SUPPORTED_ASSETS[asset] || null : null;
+
+/**
+ * USDC-settled instruments (e.g. SOL_USDC-27DEC24-200-C) quote premiums in USD.
+ */
+export const isLinearInstrument = (instrumentName: string): boolean =>
+  instrumentName.split('-')[0].endsWith('_USDC');
+
+/**
+ * Looks up the asset config for a Deribit instrument by its prefix.
+ */
+export const getAssetConfigForInstrument = (instrumentName: string): AssetConfig | null =>
+  Object.values(SUPPORTED_ASSETS).find(a => instrumentName.startsWith(a.instrumentPrefix)) || null;
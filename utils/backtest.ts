@@ -0,0 +1,202 @@
+import { BacktestDataset, BacktestResult, BacktestRules, BacktestSnapshot, BacktestTrade, ContractSpec, MarketSnapshot } from '../types';
+import { getContractStrike, parseContract } from './contractParser';
+import { createIvLookup, priceContract, PricingParams } from './pricing';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+
+export type BacktestPricer = (spec: ContractSpec, params: PricingParams) => Promise<number | null>;
+
+export const DEFAULT_BACKTEST_RULES: BacktestRules = {
+  model: 'BS',
+  entryEdgePct: 5,
+  exitMode: 'convergence',
+  exitEdgePct: 0,
+  stakeUsd: 100,
+  feePct: 0,
+  allowNo: true,
+  mcIterations: 5000
+};
+
+/**
+ * Resolved markets trade at (or very near) $1 / $0. Used when the dataset
+ * has no explicit resolution for a market.
+ */
+export const inferResolution = (snapshots: MarketSnapshot[]): 'YES' | 'NO' | null => {
+  const last = snapshots[snapshots.length - 1];
+  if (!last || last.timestamp < new Date(last.endDate).getTime()) return null;
+  if (last.polyPrice >= 0.99) return 'YES';
+  if (last.polyPrice <= 0.01) return 'NO';
+  return null;
+};
+
+/**
+ * Re-prices a snapshot with the same parser and pricing functions as the live panel.
+ * The recorded chain is preferred over the recorded IV when the snapshot carries one.
+ */
+const repriceSnapshot = async (snapshot: BacktestSnapshot, rules: BacktestRules, price: BacktestPricer): Promise<number | null> => {
+  const spec = parseContract({ question: snapshot.question, endDate: snapshot.endDate, spotPrice: snapshot.spot });
+  const strike = getContractStrike(spec);
+  if (strike === null || !snapshot.spot) return null;
+
+  const resolution = new Date(snapshot.endDate).getTime();
+  const chainIvAt = snapshot.options && snapshot.options.length > 0
+    ? createIvLookup(snapshot.options, null, snapshot.spot, resolution)
+    : null;
+  const ivAt = (K: number) => (chainIvAt ? chainIvAt(K) : null) ?? snapshot.iv;
+  if (!ivAt(strike)) return null;
+
+  return price(spec, {
+    spot: snapshot.spot,
+    T: Math.max(0, (resolution - snapshot.timestamp) / MS_PER_YEAR),
+    ivAt: (K) => ivAt(K) ?? 0,
+    model: rules.model,
+    iterations: rules.mcIterations
+  });
+};
+
+const closeTrade = (
+  open: Omit<BacktestTrade, 'exitTime' | 'exitPrice' | 'exitReason' | 'fees' | 'pnl'> & { entryFee: number },
+  exitTime: number,
+  exitPrice: number,
+  exitReason: BacktestTrade['exitReason'],
+  feePct: number
+): BacktestTrade => {
+  const { entryFee, ...trade } = open;
+  // Settlement is free; selling back into the book pays the taker fee
+  const exitFee = exitReason === 'resolution' ? 0 : trade.shares * exitPrice * feePct / 100;
+  const fees = entryFee + exitFee;
+  return {
+    ...trade,
+    exitTime,
+    exitPrice,
+    exitReason,
+    fees,
+    pnl: trade.shares * (exitPrice - trade.entryPrice) - fees
+  };
+};
+
+const backtestMarket = async (
+  marketKey: string,
+  snapshots: BacktestSnapshot[],
+  resolution: 'YES' | 'NO' | null,
+  rules: BacktestRules,
+  price: BacktestPricer
+) => {
+  const trades: BacktestTrade[] = [];
+  let skipped = 0;
+  let open: Parameters<typeof closeTrade>[0] | null = null;
+  let lastMark: { t: number; yesBid: number; yesAsk: number } | null = null;
+
+  for (const s of snapshots) {
+    if (s.timestamp >= new Date(s.endDate).getTime()) break;
+    const modelProb = await repriceSnapshot(s, rules, price);
+    if (modelProb === null || !(s.polyAsk > 0) || !(s.polyBid > 0)) {
+      skipped++;
+      continue;
+    }
+    lastMark = { t: s.timestamp, yesBid: s.polyBid, yesAsk: s.polyAsk };
+
+    if (open) {
+      if (rules.exitMode !== 'convergence') continue;
+      // Edge left if we sold now: YES sells at the bid, NO sells at 1 - ask
+      const exitPrice = open.side === 'YES' ? s.polyBid : 1 - s.polyAsk;
+      const sideProb = open.side === 'YES' ? modelProb : 1 - modelProb;
+      if ((sideProb - exitPrice) * 100 <= rules.exitEdgePct) {
+        trades.push(closeTrade(open, s.timestamp, exitPrice, 'convergence', rules.feePct));
+        open = null;
+      }
+      continue;
+    }
+
+    const yesEdge = (modelProb - s.polyAsk) * 100;
+    const noEdge = (s.polyBid - modelProb) * 100; // (1 - model) - (1 - bid)
+    let side: 'YES' | 'NO' | null = null;
+    if (yesEdge >= rules.entryEdgePct) side = 'YES';
+    else if (rules.allowNo && noEdge >= rules.entryEdgePct) side = 'NO';
+    if (!side) continue;
+
+    const entryPrice = side === 'YES' ? s.polyAsk : 1 - s.polyBid;
+    const shares = rules.stakeUsd / entryPrice;
+    open = {
+      marketKey,
+      question: s.question,
+      side,
+      entryTime: s.timestamp,
+      entryPrice,
+      entryModelProb: side === 'YES' ? modelProb : 1 - modelProb,
+      entryEdge: side === 'YES' ? yesEdge : noEdge,
+      shares,
+      entryFee: rules.stakeUsd * rules.feePct / 100
+    };
+  }
+
+  if (open) {
+    const endTime = new Date(snapshots[snapshots.length - 1].endDate).getTime();
+    if (resolution) {
+      trades.push(closeTrade(open, endTime, resolution === open.side ? 1 : 0, 'resolution', rules.feePct));
+    } else if (lastMark) {
+      // Marked at the last executable price, not counted in the hit rate
+      const markPrice = open.side === 'YES' ? lastMark.yesBid : 1 - lastMark.yesAsk;
+      trades.push(closeTrade(open, lastMark.t, markPrice, 'unresolved', rules.feePct));
+    }
+  }
+
+  return { trades, skipped };
+};
+
+/**
+ * Replays recorded snapshots market by market, one position at a time,
+ * and settles open positions on the resolved outcome.
+ * `price` defaults to priceContract inline; pass a pool-backed pricer to keep
+ * Monte Carlo off the main thread.
+ */
+export const runBacktest = async (
+  dataset: BacktestDataset,
+  rules: BacktestRules,
+  price: BacktestPricer = async (spec, params) => priceContract(spec, params)
+): Promise<BacktestResult> => {
+  const byMarket: Record<string, BacktestSnapshot[]> = {};
+  dataset.snapshots.forEach(s => {
+    (byMarket[s.marketKey] = byMarket[s.marketKey] || []).push(s);
+  });
+
+  const trades: BacktestTrade[] = [];
+  const unresolvedMarkets: string[] = [];
+  let skippedSnapshots = 0;
+
+  // Sequential, so snapshots reprice in order and the pool isn't flooded
+  for (const [marketKey, snapshots] of Object.entries(byMarket)) {
+    snapshots.sort((a, b) => a.timestamp - b.timestamp);
+    const resolution = dataset.resolutions[marketKey] || inferResolution(snapshots);
+    if (!resolution) unresolvedMarkets.push(marketKey);
+
+    const result = await backtestMarket(marketKey, snapshots, resolution, rules, price);
+    trades.push(...result.trades);
+    skippedSnapshots += result.skipped;
+  }
+
+  trades.sort((a, b) => a.exitTime - b.exitTime);
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const equityCurve = trades.map(t => {
+    equity += t.pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    return { t: t.exitTime, equity };
+  });
+
+  const settled = trades.filter(t => t.exitReason !== 'unresolved');
+
+  return {
+    trades,
+    totalPnl: equity,
+    totalStaked: trades.length * rules.stakeUsd,
+    hitRate: settled.length > 0 ? settled.filter(t => t.pnl > 0).length / settled.length : null,
+    maxDrawdown,
+    equityCurve,
+    skippedSnapshots,
+    unresolvedMarkets
+  };
+};
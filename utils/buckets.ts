@@ -0,0 +1,93 @@
+import { ExpiryBracket, OptionQuote, PolyEvent, PricedBucket, RiskNeutralDensity } from '../types';
+import { parseContract } from './contractParser';
+import { extractRiskNeutralDensity, priceContractFromDensity } from './density';
+import { parsePolymarketOutcomes } from './helpers';
+import { createIvLookup, priceContract } from './pricing';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+const RISK_FREE_RATE = 0.04; // As priceContract
+
+const formatLevel = (value: number): string =>
+  value >= 1000 ? `${(value / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}k` : value.toLocaleString();
+
+/**
+ * Short label for a bucket, e.g. "94k–96k", "<90k", ">110k".
+ */
+export const formatBucketLabel = (bucket: PricedBucket): string => {
+  const { spec } = bucket;
+  if (spec.type === 'range') return `${formatLevel(spec.lowerBound!)}–${formatLevel(spec.upperBound!)}`;
+  if (spec.direction === 'below') return `<${formatLevel(spec.upperBound!)}`;
+  return `>${formatLevel(spec.lowerBound!)}`;
+};
+
+/**
+ * Polymarket "Yes" price for a binary market.
+ */
+export const getYesPrice = (outcomes: string, outcomePrices: string): number => {
+  const parsed = parsePolymarketOutcomes(outcomes || "[]", outcomePrices || "[]");
+  const yes = parsed.find((o: { name: string }) => o.name.toLowerCase() === 'yes') || parsed[0];
+  return yes ? yes.price : 0;
+};
+
+/**
+ * Prices every bucket (range, or open-ended above/below close) of a
+ * multi-market event by integrating the risk-neutral density of the smile,
+ * so buckets are priced off one consistent distribution. The smiles and the
+ * density are built once per resolution time, not once per bucket.
+ * Touch markets and unparseable questions are skipped.
+ * Buckets are returned in ascending price order.
+ */
+export const priceEventBuckets = (
+  polyEvent: PolyEvent,
+  matchedOptions: OptionQuote[],
+  expiryBracket: ExpiryBracket | null,
+  spotPrice: number,
+  now: number = Date.now()
+): PricedBucket[] => {
+  const buckets: PricedBucket[] = [];
+  const distributions = new Map<number, { ivAt: (strike: number) => number; T: number; rnd: RiskNeutralDensity | null }>();
+
+  const distributionAt = (resolution: number) => {
+    const cached = distributions.get(resolution);
+    if (cached) return cached;
+    const lookup = createIvLookup(matchedOptions, expiryBracket, spotPrice, resolution);
+    const ivAt = (K: number) => lookup(K) ?? 0;
+    const T = Math.max(0, (resolution - now) / MS_PER_YEAR);
+    const distribution = { ivAt, T, rnd: extractRiskNeutralDensity(ivAt, spotPrice * Math.exp(RISK_FREE_RATE * T), T) };
+    distributions.set(resolution, distribution);
+    return distribution;
+  };
+
+  polyEvent.markets.forEach(market => {
+    const spec = parseContract({
+      question: market.question,
+      description: polyEvent.description,
+      eventTitle: polyEvent.title,
+      startDate: polyEvent.startDate,
+      endDate: market.endDate || polyEvent.endDate,
+      spotPrice
+    });
+    if (spec.type !== 'close' && spec.type !== 'range') return;
+    if (spec.lowerBound === null && spec.upperBound === null) return;
+
+    let modelProb: number | null = null;
+    if (matchedOptions.length > 0) {
+      const { ivAt, T, rnd } = distributionAt(new Date(market.endDate || polyEvent.endDate).getTime());
+      // Without a usable density, Black-Scholes digitals, as the DENSITY model falls back
+      modelProb = rnd ? priceContractFromDensity(spec, rnd) : priceContract(spec, { spot: spotPrice, T, ivAt, model: 'BS' });
+    }
+
+    const polyProb = getYesPrice(market.outcomes, market.outcomePrices);
+    buckets.push({
+      market,
+      spec,
+      polyProb,
+      modelProb,
+      mispricing: modelProb !== null ? polyProb - modelProb : null
+    });
+  });
+
+  // "Below X" buckets sort first, "above X" last
+  const sortKey = (b: PricedBucket) => b.spec.lowerBound ?? -Infinity;
+  return buckets.sort((a, b) => sortKey(a) - sortKey(b) || (a.spec.upperBound ?? Infinity) - (b.spec.upperBound ?? Infinity));
+};
@@ -0,0 +1,213 @@
+import { ContractParseInput, ContractSpec, ContractType } from '../types';
+import { detectAsset } from './assets';
+
+interface Amount {
+  value: number;
+  index: number;
+}
+
+const RESOLUTION_SOURCES = ['Binance', 'Coinbase', 'Kraken', 'Bitstamp', 'CoinGecko', 'CoinMarketCap', 'Chainlink', 'Pyth', 'Deribit'];
+
+const DOWN_VERBS = /\b(dip|drop|fall|sink|crash|plunge|tumble|decline)s?\b/;
+const UP_VERBS = /\b(surge|pump|rise|climb|rally|soar)s?\b/;
+const NEUTRAL_TOUCH_VERBS = /\b(reach|hit|touch|tap)(es|s)?\b/;
+const ABOVE_WORDS = /\b(above|greater than|higher than|over|at least)\b|>=?/;
+const BELOW_WORDS = /\b(below|less than|lower than|under)\b|<=?/;
+
+const scaleSuffix = (value: number, suffix?: string): number => {
+  if (suffix === 'k') return value * 1000;
+  if (suffix === 'm') return value * 1000000;
+  return value;
+};
+
+/**
+ * Extracts all price amounts: "$95,000", "$95k", "95k", "↑ 120,000".
+ * Bare numbers are ignored so dates and years don't parse as strikes.
+ */
+const extractAmounts = (text: string): Amount[] => {
+  const clean = text.replace(/,/g, '').toLowerCase();
+  const amounts: Amount[] = [];
+  const re = /(?:\$|[↑↓]\s*\$?)(\d+(?:\.\d+)?)(k|m)?\b|(\d+(?:\.\d+)?)(k|m)\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(clean)) !== null) {
+    const value = match[1] !== undefined
+      ? scaleSuffix(parseFloat(match[1]), match[2])
+      : scaleSuffix(parseFloat(match[3]), match[4]);
+    amounts.push({ value, index: match.index });
+  }
+  return amounts;
+};
+
+/**
+ * Shorthand ranges like "94-96k" where the suffix applies to both ends.
+ */
+const extractShorthandRange = (text: string): [number, number] | null => {
+  const clean = text.replace(/,/g, '').toLowerCase();
+  const match = clean.match(/\$?(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*\$?(\d+(?:\.\d+)?)(k|m)\b/);
+  if (!match) return null;
+  return [scaleSuffix(parseFloat(match[1]), match[3]), scaleSuffix(parseFloat(match[2]), match[3])];
+};
+
+const detectResolutionSource = (description?: string): string | null => {
+  if (!description) return null;
+  const source = RESOLUTION_SOURCES.find(s => new RegExp(`\\b${s}\\b`, 'i').test(description));
+  if (!source) return null;
+
+  const pair = description.match(/\b([A-Z]{2,5})\s?\/\s?(USDT|USDC|USD)\b/);
+  const candle = description.match(/\b(\d+)\s*-?\s*(minute|min|hour|h|m)\b[^.]*\bcandle/i);
+
+  const parts = [source];
+  if (pair) parts.push(`${pair[1]}/${pair[2]}`);
+  if (candle) {
+    const unit = candle[2].toLowerCase().startsWith('h') ? 'h' : 'm';
+    parts.push(`${candle[1]}${unit} candles`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Monitoring interval of a touch contract, in minutes, from the resolution
+ * source's candle size (e.g. "Binance BTC/USDT 1m candles" -> 1).
+ * Null when the source doesn't say.
+ */
+export const getMonitoringMinutes = (spec: ContractSpec): number | null => {
+  const candle = spec.resolutionSource?.match(/(\d+)(m|h) candles/);
+  if (!candle) return null;
+  return parseInt(candle[1]) * (candle[2] === 'h' ? 60 : 1);
+};
+
+/**
+ * Turns a Polymarket question (plus event context) into a typed contract spec.
+ * Order of precedence: range > touch > close. Every default or ambiguity
+ * lowers the confidence score and is recorded in the explanation.
+ */
+export const parseContract = (input: ContractParseInput): ContractSpec => {
+  const { question, description, eventTitle, startDate, endDate, spotPrice } = input;
+  const explanation: string[] = [];
+  let confidence = 1;
+
+  const q = (question || '').toLowerCase();
+
+  // 1. Amounts: prefer the market question, then the event title
+  let amounts = extractAmounts(question || '');
+  if (amounts.length === 0 && eventTitle) {
+    amounts = extractAmounts(eventTitle);
+    if (amounts.length > 0) {
+      explanation.push('Strike taken from the event title; the question has no price.');
+      confidence -= 0.1;
+    }
+  }
+
+  const asset = detectAsset(question, eventTitle, description);
+  if (asset) {
+    explanation.push(`Asset detected as ${asset}.`);
+  } else {
+    explanation.push('No known asset mentioned.');
+    confidence -= 0.2;
+  }
+
+  const resolutionSource = detectResolutionSource(description);
+  if (resolutionSource) explanation.push(`Resolves on ${resolutionSource}.`);
+
+  const base = {
+    asset,
+    resolutionSource,
+    observationEnd: endDate || null
+  };
+
+  if (amounts.length === 0) {
+    return {
+      ...base,
+      direction: null,
+      type: 'close',
+      lowerBound: null,
+      upperBound: null,
+      observationStart: endDate || null,
+      confidence: 0,
+      explanation: [...explanation, 'No price level found in the question.']
+    };
+  }
+
+  // 2. Range: "between $A and $B", "$A-$B", "94-96k"
+  const shorthand = extractShorthandRange(question || '');
+  const isBetween = /\bbetween\b/.test(q) && amounts.length >= 2;
+  if (isBetween || shorthand || (amounts.length >= 2 && /\d\s*(-|–|to)\s*\$/.test(q.replace(/,/g, '')))) {
+    const [a, b] = shorthand || [amounts[0].value, amounts[1].value];
+    return {
+      ...base,
+      direction: null,
+      type: 'range',
+      lowerBound: Math.min(a, b),
+      upperBound: Math.max(a, b),
+      observationStart: endDate || null,
+      confidence: Math.max(0, confidence),
+      explanation: [...explanation, `Range: closes between $${Math.min(a, b).toLocaleString()} and $${Math.max(a, b).toLocaleString()}.`]
+    };
+  }
+
+  const level = amounts[0].value;
+
+  // 3. Touch: explicit arrows, directional verbs, or neutral "reach/hit"
+  const isCloseQuestion = /\b(close|closes|closing|settle|on [a-z]+ \d{1,2})\b/.test(q) && !NEUTRAL_TOUCH_VERBS.test(q);
+  let touchType: ContractType | null = null;
+
+  if (q.includes('↓') || /\blow\b/.test(q) || DOWN_VERBS.test(q)) {
+    touchType = 'touch-down';
+    explanation.push('Down-barrier wording (dip/drop/fall/↓).');
+  } else if (q.includes('↑') || /\bhigh\b/.test(q) || UP_VERBS.test(q)) {
+    touchType = 'touch-up';
+    explanation.push('Up-barrier wording (rise/surge/↑).');
+  } else if (NEUTRAL_TOUCH_VERBS.test(q)) {
+    if (spotPrice) {
+      touchType = level >= spotPrice ? 'touch-up' : 'touch-down';
+      explanation.push(`"Reach/hit" resolved as ${touchType === 'touch-up' ? 'up' : 'down'}-barrier relative to spot.`);
+      confidence -= 0.1;
+    } else {
+      touchType = 'touch-up';
+      explanation.push('"Reach/hit" assumed to be an up-barrier (no spot available).');
+      confidence -= 0.3;
+    }
+  }
+
+  if (touchType && !isCloseQuestion) {
+    const isUp = touchType === 'touch-up';
+    if (!startDate) explanation.push('Observation window start unknown; assuming from now.');
+    return {
+      ...base,
+      direction: isUp ? 'above' : 'below',
+      type: touchType,
+      lowerBound: isUp ? level : null,
+      upperBound: isUp ? null : level,
+      observationStart: startDate || null,
+      confidence: Math.max(0, confidence),
+      explanation: [...explanation, `Yes if price trades ${isUp ? 'at or above' : 'at or below'} $${level.toLocaleString()} at any time before resolution.`]
+    };
+  }
+
+  // 4. Close: above / below at resolution
+  let direction: 'above' | 'below' = 'above';
+  if (BELOW_WORDS.test(q) && !ABOVE_WORDS.test(q)) {
+    direction = 'below';
+  } else if (!ABOVE_WORDS.test(q)) {
+    explanation.push('No explicit direction; assuming "above".');
+    confidence -= 0.3;
+  }
+
+  return {
+    ...base,
+    direction,
+    type: 'close',
+    lowerBound: direction === 'above' ? level : null,
+    upperBound: direction === 'below' ? level : null,
+    observationStart: endDate || null,
+    confidence: Math.max(0, confidence),
+    explanation: [...explanation, `Yes if price is ${direction} $${level.toLocaleString()} at resolution.`]
+  };
+};
+
+/**
+ * The level that drives vol lookup and replication for a spec
+ * (the lower bound for ranges).
+ */
+export const getContractStrike = (spec: ContractSpec): number | null =>
+  spec.lowerBound ?? spec.upperBound;
@@ -0,0 +1,82 @@
+import { CallSpreadQuote, CostSettings, NetEdgeBreakdown, PredictionVenueId } from '../types';
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  polyTakerFeePct: 0,
+  kalshiFeeRate: 0.07,
+  deribitFeePct: 0.03,
+  deribitFeeCapPct: 12.5,
+  hedgeSlippagePct: 2,
+  capitalCostPct: 5,
+  minNetEdgePct: 3
+};
+
+/**
+ * Option fee for one contract in USD: a % of the underlying, capped at a %
+ * of the option premium. Deribit's schedule; OKX charges on the same basis.
+ */
+const deribitOptionFeeUsd = (quote: CallSpreadQuote, leg: 'lower' | 'upper', settings: CostSettings): number => {
+  const opt = leg === 'lower' ? quote.lowerCall : quote.upperCall;
+  const underlying = opt.underlyingPrice || 0;
+  const premiumUsd = opt.isInverse ? opt.mark * underlying : opt.mark;
+  return Math.min((settings.deribitFeePct / 100) * underlying, (settings.deribitFeeCapPct / 100) * premiumUsd);
+};
+
+/**
+ * Taker fee for buying one $1-payout contract at `price` (0-1).
+ * Kalshi rounds each order's fee up to the cent; rounding per contract is the
+ * worst case for small orders.
+ */
+export const predictionTakerFee = (venue: PredictionVenueId, price: number, settings: CostSettings): number => {
+  if (venue === 'kalshi') return Math.ceil(settings.kalshiFeeRate * price * (1 - price) * 100 - 1e-9) / 100;
+  return (settings.polyTakerFeePct / 100) * price;
+};
+
+/**
+ * Net edge per $1 payout of buying a Polymarket outcome at `entryPrice`,
+ * hedged on the options venue with the given call spread legs and held to resolution.
+ * All amounts are on the 0-1 probability scale.
+ */
+export const computeNetEdge = (
+  modelProb: number,
+  entryPrice: number,
+  T: number, // Years to resolution
+  settings: CostSettings,
+  hedgeLegs: CallSpreadQuote[] | null
+): NetEdgeBreakdown => {
+  const grossEdge = modelProb - entryPrice;
+  const polyFee = (settings.polyTakerFeePct / 100) * entryPrice;
+
+  // A digital with $1 payout needs 1/width contracts on each leg of each spread
+  let hedgeFee: number | null = null;
+  let hedgeSlippage: number | null = null;
+  if (hedgeLegs && hedgeLegs.length > 0) {
+    let fee = 0;
+    let slippage = 0;
+    hedgeLegs.forEach(quote => {
+      const contracts = 1 / (quote.upperStrike - quote.lowerStrike);
+      fee += contracts * (deribitOptionFeeUsd(quote, 'lower', settings) + deribitOptionFeeUsd(quote, 'upper', settings));
+      slippage += (settings.hedgeSlippagePct / 100) * quote.midProb;
+    });
+    hedgeFee = fee;
+    hedgeSlippage = slippage;
+  }
+
+  const capital = entryPrice + polyFee;
+  const capitalCost = capital * (settings.capitalCostPct / 100) * Math.max(0, T);
+  const netEdge = grossEdge - polyFee - (hedgeFee || 0) - (hedgeSlippage || 0) - capitalCost;
+  const returnOnCapital = capital > 0 ? netEdge / capital : 0;
+  // Simple, not compounded: short-dated returns can't be rolled at the same edge
+  const annualizedReturn = T > 0 ? returnOnCapital / T : null;
+
+  return {
+    grossEdge,
+    polyFee,
+    hedgeFee,
+    hedgeSlippage,
+    capitalCost,
+    netEdge,
+    capital,
+    returnOnCapital,
+    annualizedReturn
+  };
+};
@@ -0,0 +1,102 @@
+import { BinaryContract, ContractSpec, CostSettings, CrossVenueBox, CrossVenueMatch, PolyMarket, PredictionVenueId, ScanRow } from '../types';
+import { predictionTakerFee } from './costs';
+
+const MS_PER_MINUTE = 1000 * 60;
+
+// Resolution times further apart than this are different contracts
+export const DEFAULT_MAX_RESOLUTION_GAP_MINUTES = 5;
+
+/**
+ * Two strike levels are the same when they differ by cents, e.g. Kalshi's
+ * "above 99,999.99" and Polymarket's "above 100,000".
+ */
+const sameLevel = (a: number | null, b: number | null): boolean => {
+  if (a === null || b === null) return a === b;
+  return Math.abs(a - b) <= Math.max(0.01, Math.abs(a) * 1e-5);
+};
+
+/**
+ * Whether two specs pay out in the same region: same asset, type, direction
+ * and bounds. Resolution time and source are checked separately.
+ */
+export const areEquivalentSpecs = (a: ContractSpec, b: ContractSpec): boolean =>
+  !!a.asset &&
+  a.asset === b.asset &&
+  a.type === b.type &&
+  (a.type === 'range' || a.direction === b.direction) &&
+  sameLevel(a.lowerBound, b.lowerBound) &&
+  sameLevel(a.upperBound, b.upperBound);
+
+const makeBox = (
+  buyYesOn: PredictionVenueId,
+  yesPrice: number | null,
+  buyNoOn: PredictionVenueId,
+  noPrice: number | null,
+  settings: CostSettings
+): CrossVenueBox | null => {
+  if (yesPrice === null || noPrice === null) return null;
+  const fees = predictionTakerFee(buyYesOn, yesPrice, settings) + predictionTakerFee(buyNoOn, noPrice, settings);
+  const cost = yesPrice + noPrice + fees;
+  return { buyYesOn, buyNoOn, yesPrice, noPrice, fees, cost, profit: 1 - cost };
+};
+
+/**
+ * Both Yes/No combinations across the two venues, at the asks, cheapest first.
+ * A venue's No ask is 1 minus its Yes bid.
+ */
+export const priceCrossVenueBoxes = (market: PolyMarket, kalshi: BinaryContract, settings: CostSettings): CrossVenueBox[] => {
+  const polyYesAsk = market.bestAsk > 0 && market.bestAsk < 1 ? market.bestAsk : null;
+  const polyNoAsk = market.bestBid > 0 && market.bestBid < 1 ? 1 - market.bestBid : null;
+  const kalshiNoAsk = kalshi.yesBid !== null ? 1 - kalshi.yesBid : null;
+
+  return [
+    makeBox('polymarket', polyYesAsk, 'kalshi', kalshiNoAsk, settings),
+    makeBox('kalshi', kalshi.yesAsk, 'polymarket', polyNoAsk, settings)
+  ]
+    .filter((b): b is CrossVenueBox => b !== null)
+    .sort((a, b) => a.cost - b.cost);
+};
+
+/**
+ * Pairs every scanned Polymarket market with the equivalent Kalshi contract:
+ * same payout region and a resolution time within `maxGapMinutes`. The
+ * closest resolution time wins when several Kalshi contracts qualify.
+ * Sorted by the best box's profit, arbitrage first.
+ */
+export const matchCrossVenue = (
+  rows: ScanRow[],
+  contracts: BinaryContract[],
+  settings: CostSettings,
+  maxGapMinutes: number = DEFAULT_MAX_RESOLUTION_GAP_MINUTES
+): CrossVenueMatch[] => {
+  const matches: CrossVenueMatch[] = [];
+
+  rows.forEach(row => {
+    const polyEnd = new Date(row.market.endDate || row.opportunity.polyEvent.endDate).getTime();
+    if (isNaN(polyEnd)) return;
+
+    let best: { contract: BinaryContract; gap: number } | null = null;
+    contracts.forEach(contract => {
+      if (!contract.spec || !areEquivalentSpecs(row.spec, contract.spec)) return;
+      const gap = (new Date(contract.endDate).getTime() - polyEnd) / MS_PER_MINUTE;
+      if (isNaN(gap) || Math.abs(gap) > maxGapMinutes) return;
+      if (!best || Math.abs(gap) < Math.abs(best.gap)) best = { contract, gap };
+    });
+    if (!best) return;
+    const { contract, gap } = best;
+
+    matches.push({
+      key: `${row.key}:${contract.id}`,
+      polyEvent: row.opportunity.polyEvent,
+      market: row.market,
+      spec: row.spec,
+      kalshi: contract,
+      resolutionGapMinutes: gap,
+      modelProb: row.modelProb,
+      boxes: priceCrossVenueBoxes(row.market, contract, settings)
+    });
+  });
+
+  const bestProfit = (m: CrossVenueMatch) => m.boxes[0]?.profit ?? -Infinity;
+  return matches.sort((a, b) => bestProfit(b) - bestProfit(a));
+};
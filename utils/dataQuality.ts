@@ -0,0 +1,83 @@
+import { ArbitrageOpportunity, DataQualityFlag, OptionQuote } from '../types';
+
+const MS_PER_MINUTE = 1000 * 60;
+
+// Older than this, a quote no longer reflects the market
+export const STALE_QUOTE_MS = 5 * MS_PER_MINUTE;
+// Mark IVs outside this range (percent) are treated as bad data
+const IV_BOUNDS = { min: 1, max: 400 };
+// Distance from the expiry's median IV that flags an outlier: vol points, or median absolute deviations
+const IV_OUTLIER_MIN_PTS = 25;
+const IV_OUTLIER_MADS = 5;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const assessSlice = (code: string, options: OptionQuote[], now: number): DataQualityFlag[] => {
+  const flags: DataQualityFlag[] = [];
+  if (options.length === 0) return flags;
+  const subject = `${options[0].venue} ${code}`;
+
+  const stale = options.filter(o => o.quotedAt !== null && now - o.quotedAt > STALE_QUOTE_MS);
+  if (stale.length > 0) {
+    const oldest = Math.max(...stale.map(o => now - o.quotedAt!));
+    flags.push({
+      kind: 'stale-quote',
+      severity: stale.length === options.length ? 'error' : 'warning',
+      subject,
+      message: `${stale.length} of ${options.length} quotes older than ${STALE_QUOTE_MS / MS_PER_MINUTE}m (oldest ${Math.round(oldest / MS_PER_MINUTE)}m)`
+    });
+  }
+
+  const noBid = options.filter(o => o.bid === null);
+  if (noBid.length > 0) {
+    flags.push({
+      kind: 'missing-bid',
+      severity: 'warning',
+      subject,
+      message: `${noBid.length} of ${options.length} options have no bid; call spread bid prices are unavailable at those strikes`
+    });
+  }
+
+  const ivs = options.map(o => o.iv).filter(iv => iv >= IV_BOUNDS.min && iv <= IV_BOUNDS.max);
+  const mid = ivs.length > 0 ? median(ivs) : null;
+  const mad = mid !== null ? median(ivs.map(iv => Math.abs(iv - mid))) : 0;
+  options.forEach(o => {
+    if (o.iv < IV_BOUNDS.min || o.iv > IV_BOUNDS.max) {
+      flags.push({ kind: 'iv-outlier', severity: 'error', subject: o.instrument, message: `Mark IV ${o.iv.toFixed(1)}% is outside ${IV_BOUNDS.min}-${IV_BOUNDS.max}%` });
+    } else if (mid !== null && Math.abs(o.iv - mid) > Math.max(IV_OUTLIER_MIN_PTS, IV_OUTLIER_MADS * mad)) {
+      flags.push({ kind: 'iv-outlier', severity: 'warning', subject: o.instrument, message: `Mark IV ${o.iv.toFixed(1)}% vs ${mid.toFixed(1)}% median for the expiry` });
+    }
+  });
+
+  return flags;
+};
+
+/**
+ * Flags data that would silently distort the edge of an opportunity:
+ * stale or one-sided option quotes, IV outliers in the expiries used for
+ * pricing, zero-volume markets and crossed Polymarket books.
+ */
+export const assessDataQuality = (opportunity: ArbitrageOpportunity, now: number = Date.now()): DataQualityFlag[] => {
+  const flags: DataQualityFlag[] = [];
+
+  opportunity.polyEvent.markets.forEach(m => {
+    if (!m.volume) {
+      flags.push({ kind: 'zero-volume', severity: 'warning', subject: m.question, message: 'No volume traded; the price may be a stale seed' });
+    }
+    if (m.bestBid > 0 && m.bestAsk > 0 && m.bestBid > m.bestAsk) {
+      flags.push({ kind: 'crossed-book', severity: 'error', subject: m.question, message: `Bid ${m.bestBid} above ask ${m.bestAsk}` });
+    }
+  });
+
+  const { expiryBracket } = opportunity;
+  if (expiryBracket) {
+    const slices = expiryBracket.lower === expiryBracket.upper ? [expiryBracket.lower] : [expiryBracket.lower, expiryBracket.upper];
+    slices.forEach(s => flags.push(...assessSlice(s.code, s.options, now)));
+  }
+
+  return flags;
+};
@@ -0,0 +1,105 @@
+import { ContractSpec, ExpirySlice, RiskNeutralDensity } from '../types';
+import { calculateBlackScholesCall } from './math';
+import { fitVolSmile } from './smile';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+
+// Grid spans ±GRID_STDEVS at-the-money standard deviations around the forward
+const GRID_POINTS = 241;
+const GRID_STDEVS = 5;
+
+/**
+ * Risk-neutral density of S_T by Breeden-Litzenberger: f(K) = d²C/dK².
+ * Call prices come from the smoothed smile (undiscounted, on the forward),
+ * so the second difference is taken on a smooth curve rather than raw marks.
+ * Negative values from a smile with butterfly arbitrage are clipped to zero,
+ * and the density is renormalized so grid plus tails integrate to 1.
+ * Returns null without a usable vol.
+ */
+export const extractRiskNeutralDensity = (
+  ivAt: (strike: number) => number, // Percent
+  forward: number,
+  T: number,
+  label: string = 'interpolated'
+): RiskNeutralDensity | null => {
+  const atmVol = ivAt(forward) / 100;
+  if (!forward || T <= 0 || !(atmVol > 0)) return null;
+
+  const width = GRID_STDEVS * atmVol * Math.sqrt(T);
+  const lo = forward * Math.exp(-width);
+  const hi = forward * Math.exp(width);
+  const h = (hi - lo) / (GRID_POINTS - 1);
+
+  const call = (K: number) => calculateBlackScholesCall(forward, K, T, Math.max(1e-4, ivAt(K) / 100), 0);
+
+  const strikes: number[] = [];
+  const raw: number[] = [];
+  let negativeMass = 0;
+  for (let i = 0; i < GRID_POINTS; i++) {
+    const K = lo + i * h;
+    const f = (call(K - h) - 2 * call(K) + call(K + h)) / (h * h);
+    strikes.push(K);
+    if (f < 0) negativeMass -= f * h;
+    raw.push(Math.max(0, f));
+  }
+
+  // Tails outside the grid from the call slope: P(S_T > K) = -dC/dK
+  const tailBelow = Math.min(1, Math.max(0, 1 + (call(lo + h) - call(lo - h)) / (2 * h)));
+  const tailAbove = Math.min(1, Math.max(0, -(call(hi + h) - call(hi - h)) / (2 * h)));
+
+  let interior = 0;
+  for (let i = 1; i < GRID_POINTS; i++) interior += 0.5 * (raw[i - 1] + raw[i]) * h;
+  if (interior <= 0) return null;
+  const scale = Math.max(0, 1 - tailBelow - tailAbove) / interior;
+
+  const density = raw.map(f => f * scale);
+  const cdf = [tailBelow];
+  for (let i = 1; i < GRID_POINTS; i++) {
+    cdf.push(cdf[i - 1] + 0.5 * (density[i - 1] + density[i]) * h);
+  }
+
+  return { label, forward, T, strikes, density, cdf, negativeMass };
+};
+
+/**
+ * Density for one Deribit expiry, from that expiry's fitted smile.
+ */
+export const extractSliceDensity = (
+  slice: ExpirySlice,
+  spotFallback: number,
+  now: number = Date.now()
+): RiskNeutralDensity | null => {
+  const smile = fitVolSmile(slice.options, spotFallback);
+  if (!smile) return null;
+  return extractRiskNeutralDensity(smile.ivAt, smile.forward, (slice.expiryTimestamp - now) / MS_PER_YEAR, slice.code);
+};
+
+/**
+ * P(S_T <= price), linear between grid points and flat beyond the grid.
+ */
+export const densityCdf = (rnd: RiskNeutralDensity, price: number): number => {
+  const { strikes, cdf } = rnd;
+  const n = strikes.length;
+  if (price <= strikes[0]) return cdf[0];
+  if (price >= strikes[n - 1]) return cdf[n - 1];
+  const h = strikes[1] - strikes[0];
+  const i = Math.min(n - 2, Math.floor((price - strikes[0]) / h));
+  const w = (price - strikes[i]) / h;
+  return Math.min(1, Math.max(0, cdf[i] + w * (cdf[i + 1] - cdf[i])));
+};
+
+/**
+ * "Yes" probability of a close/range contract by integrating the density.
+ * Touch contracts depend on the path, not just S_T, so they return null.
+ */
+export const priceContractFromDensity = (spec: ContractSpec, rnd: RiskNeutralDensity): number | null => {
+  if (spec.type === 'range') {
+    if (spec.lowerBound === null || spec.upperBound === null) return null;
+    return Math.max(0, densityCdf(rnd, spec.upperBound) - densityCdf(rnd, spec.lowerBound));
+  }
+  if (spec.type !== 'close') return null;
+  if (spec.direction === 'below') {
+    return spec.upperBound === null ? null : densityCdf(rnd, spec.upperBound);
+  }
+  return spec.lowerBound === null ? null : 1 - densityCdf(rnd, spec.lowerBound);
+};
@@ -0,0 +1,143 @@
+import { ContractGreeks, ContractSpec, SensitivityCell } from '../types';
+import { calculateDigitalGreeks } from './math';
+import { priceContract, PricingParams } from './pricing';
+
+const ONE_DAY = 1 / 365;
+
+export const SPOT_SHIFTS_PCT = [-10, -7.5, -5, -2.5, 0, 2.5, 5, 7.5, 10];
+export const VOL_SHIFTS_PTS = [-20, -15, -10, -5, 0, 5, 10, 15, 20];
+
+const withShift = (params: PricingParams, spotShiftPct: number, volShiftPts: number): PricingParams => ({
+  ...params,
+  spot: params.spot * (1 + spotShiftPct / 100),
+  ivAt: (K) => Math.max(1, params.ivAt(K) + volShiftPts)
+});
+
+/**
+ * Prices one contract for bump-and-reprice; simulated models run off the main thread.
+ */
+export type GreeksPricer = (spec: ContractSpec, params: PricingParams) => Promise<number | null>;
+
+/**
+ * Closed form for close/range contracts under Black-Scholes: each bound is a
+ * digital call priced with its own smile vol.
+ */
+const closedFormGreeks = (spec: ContractSpec, params: PricingParams): ContractGreeks | null => {
+  const { spot, T, ivAt, r = 0.04 } = params;
+  const digital = (K: number) => calculateDigitalGreeks(spot, K, T, ivAt(K) / 100, r);
+  const combine = (a: ReturnType<typeof digital>, b: ReturnType<typeof digital> | null, sign: number): ContractGreeks => ({
+    delta: sign * (a.delta - (b ? b.delta : 0)),
+    gamma: sign * (a.gamma - (b ? b.gamma : 0)),
+    vega: sign * (a.vega - (b ? b.vega : 0)),
+    theta: sign * (a.theta - (b ? b.theta : 0)),
+    method: 'closed-form'
+  });
+
+  if (spec.type === 'range') {
+    if (spec.lowerBound === null || spec.upperBound === null) return null;
+    return combine(digital(spec.lowerBound), digital(spec.upperBound), 1);
+  }
+  // "Below" pays 1 - digital
+  if (spec.direction === 'below' && spec.upperBound !== null) return combine(digital(spec.upperBound), null, -1);
+  if (spec.lowerBound !== null) return combine(digital(spec.lowerBound), null, 1);
+  return null;
+};
+
+// Base, spot up/down, vol up/down, one day later
+const bumpScenarios = (params: PricingParams): PricingParams[] => {
+  const h = params.spot * 0.01;
+  return [
+    params,
+    { ...params, spot: params.spot + h },
+    { ...params, spot: params.spot - h },
+    withShift(params, 0, 1),
+    withShift(params, 0, -1),
+    { ...params, T: Math.max(0, params.T - ONE_DAY) }
+  ];
+};
+
+const greeksFromBumps = (params: PricingParams, prices: (number | null)[]): ContractGreeks | null => {
+  const [base] = prices;
+  if (base === null) return null;
+  const [, up, down, volUp, volDown, later] = prices.map(p => p ?? base);
+  const h = params.spot * 0.01;
+  return {
+    delta: (up - down) / (2 * h),
+    gamma: (up - 2 * base + down) / (h * h),
+    vega: (volUp - volDown) / 2,
+    theta: later - base,
+    method: 'bump'
+  };
+};
+
+/**
+ * Greeks for models priced in closed form or by quadrature. Close/range
+ * contracts under Black-Scholes use the digital Greeks; touch contracts and
+ * the density model are bumped and repriced inline. Simulated models go
+ * through simulateContractGreeks instead.
+ */
+export const computeContractGreeks = (spec: ContractSpec, params: PricingParams): ContractGreeks | null => {
+  if (params.T <= 0) return null;
+  const isTouch = spec.type === 'touch-up' || spec.type === 'touch-down';
+  if ((params.model === 'BS' || params.model === 'BARRIER') && !isTouch) return closedFormGreeks(spec, params);
+  return greeksFromBumps(params, bumpScenarios(params).map(p => priceContract(spec, p)));
+};
+
+/**
+ * Central-difference Greeks by repricing with bumped spot, vol and time through
+ * an async pricer. Give it a fixed seed so every bump sees the same paths;
+ * otherwise simulation noise swamps the differences.
+ */
+export const simulateContractGreeks = async (
+  spec: ContractSpec,
+  params: PricingParams,
+  price: GreeksPricer
+): Promise<ContractGreeks | null> => {
+  if (params.T <= 0) return null;
+  return greeksFromBumps(params, await Promise.all(bumpScenarios(params).map(p => price(spec, p))));
+};
+
+const toCell = (spotShiftPct: number, volShiftPts: number, prob: number | null, polyYesPrice: number): SensitivityCell => ({
+  spotShiftPct,
+  volShiftPts,
+  prob,
+  edge: prob !== null && polyYesPrice > 0 ? (prob - polyYesPrice) * 100 : null
+});
+
+/**
+ * Model probability and edge over a grid of spot (%) and IV (vol point) shifts.
+ * Rows are vol shifts, columns spot shifts.
+ */
+export const buildSensitivityGrid = (
+  spec: ContractSpec,
+  params: PricingParams,
+  polyYesPrice: number,
+  spotShifts: number[] = SPOT_SHIFTS_PCT,
+  volShifts: number[] = VOL_SHIFTS_PTS
+): SensitivityCell[][] =>
+  volShifts.map(volShiftPts =>
+    spotShifts.map(spotShiftPct =>
+      toCell(spotShiftPct, volShiftPts, priceContract(spec, withShift(params, spotShiftPct, volShiftPts)), polyYesPrice)
+    )
+  );
+
+/**
+ * buildSensitivityGrid through an async pricer, for simulated models. Edges
+ * are left null so a new Polymarket price doesn't rerun the simulations;
+ * fill them with withGridEdges.
+ */
+export const simulateSensitivityGrid = (
+  spec: ContractSpec,
+  params: PricingParams,
+  price: GreeksPricer,
+  spotShifts: number[] = SPOT_SHIFTS_PCT,
+  volShifts: number[] = VOL_SHIFTS_PTS
+): Promise<SensitivityCell[][]> =>
+  Promise.all(volShifts.map(volShiftPts =>
+    Promise.all(spotShifts.map(async spotShiftPct =>
+      toCell(spotShiftPct, volShiftPts, await price(spec, withShift(params, spotShiftPct, volShiftPts)), 0)
+    ))
+  ));
+
+export const withGridEdges = (grid: SensitivityCell[][], polyYesPrice: number): SensitivityCell[][] =>
+  grid.map(row => row.map(cell => toCell(cell.spotShiftPct, cell.volShiftPts, cell.prob, polyYesPrice)));
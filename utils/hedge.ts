@@ -0,0 +1,116 @@
+import { ContractSpec, HedgeLeg, HedgeProposal, OptionQuote, PolyPosition } from '../types';
+
+/**
+ * Option price in USD per unit of the underlying; inverse options quote in the underlying.
+ */
+export const optionPriceUsd = (price: number | null, opt: OptionQuote): number | null => {
+  if (price === null || price === undefined) return null;
+  return opt.isInverse ? price * (opt.underlyingPrice || 0) : price;
+};
+
+/**
+ * Whether a position pays out when the price ends above the contract level.
+ */
+const paysAbove = (spec: ContractSpec, side: PolyPosition['side']): boolean => {
+  const yesPaysAbove = spec.direction !== 'below';
+  return side === 'YES' ? yesPaysAbove : !yesPaysAbove;
+};
+
+/**
+ * Proposes an option spread that offsets a Polymarket binary at expiry.
+ * Strikes are the listed pair bracketing the contract level. A position that
+ * pays above the level is hedged with a spread that pays below it:
+ *  - call-spread: sell K1 call, buy K2 call (credit)
+ *  - put-spread: buy K2 put, sell K1 put (debit)
+ * and vice versa for positions that pay below the level.
+ * Size is shares / (K2 - K1) units of the underlying, rounded to lot size.
+ * Only close contracts have a single-level payoff a static spread can offset,
+ * so ranges and touches return null.
+ */
+export const buildHedgeProposal = (
+  spec: ContractSpec,
+  position: PolyPosition,
+  options: OptionQuote[],
+  structure: HedgeProposal['structure']
+): HedgeProposal | null => {
+  if (spec.type !== 'close') return null;
+  const level = spec.direction === 'below' ? spec.upperBound : spec.lowerBound;
+  if (level === null || position.shares <= 0) return null;
+
+  const type = structure === 'call-spread' ? 'C' : 'P';
+  const listed = options
+    .filter(opt => opt.type === type)
+    .map(opt => ({ opt, strike: opt.strike }))
+    .sort((a, b) => a.strike - b.strike);
+
+  const lower = [...listed].reverse().find(o => o.strike <= level);
+  const upper = listed.find(o => o.strike > level);
+  if (!lower || !upper) return null;
+
+  const width = upper.strike - lower.strike;
+  const targetContracts = position.shares / width;
+  const lotSize = lower.opt.lotSize || 0.1;
+  const contracts = Math.max(lotSize, Math.round(targetContracts / lotSize) * lotSize);
+
+  // The hedge must pay in the region where the position does not
+  const hedgePaysAbove = !paysAbove(spec, position.side);
+  // Long K1 / short K2 gains as spot rises for both calls and puts
+  const buyLower = hedgePaysAbove;
+
+  const makeLeg = (entry: { opt: OptionQuote; strike: number }, direction: HedgeLeg['direction']): HedgeLeg => ({
+    option: entry.opt,
+    strike: entry.strike,
+    type,
+    direction,
+    contracts,
+    priceUsd: optionPriceUsd(direction === 'buy' ? entry.opt.ask : entry.opt.bid, entry.opt)
+      ?? optionPriceUsd(entry.opt.mark, entry.opt) ?? 0
+  });
+
+  const legs = [
+    makeLeg(lower, buyLower ? 'buy' : 'sell'),
+    makeLeg(upper, buyLower ? 'sell' : 'buy')
+  ];
+
+  const premiumUsd = legs.reduce((sum, leg) => sum + (leg.direction === 'buy' ? 1 : -1) * leg.priceUsd * leg.contracts, 0);
+
+  return {
+    structure,
+    legs,
+    lowerStrike: lower.strike,
+    upperStrike: upper.strike,
+    premiumUsd,
+    targetContracts
+  };
+};
+
+/**
+ * P&L at expiry (USD) of the Polymarket position alone, for a terminal spot.
+ * Null for touch contracts, whose payoff depends on the path rather than the close.
+ */
+export const positionPnlAtExpiry = (spec: ContractSpec, position: PolyPosition, spot: number): number | null => {
+  let yesWins: boolean;
+  if (spec.type === 'range') {
+    if (spec.lowerBound === null || spec.upperBound === null) return null;
+    yesWins = spot > spec.lowerBound && spot <= spec.upperBound;
+  } else if (spec.type === 'close') {
+    const level = spec.direction === 'below' ? spec.upperBound : spec.lowerBound;
+    if (level === null) return null;
+    yesWins = spec.direction === 'below' ? spot <= level : spot > level;
+  } else {
+    return null;
+  }
+  const wins = position.side === 'YES' ? yesWins : !yesWins;
+  return position.shares * ((wins ? 1 : 0) - position.entryPrice);
+};
+
+/**
+ * P&L at expiry (USD) of the hedge legs, net of premium.
+ */
+export const hedgePnlAtExpiry = (hedge: HedgeProposal, spot: number): number => {
+  const payoff = hedge.legs.reduce((sum, leg) => {
+    const intrinsic = leg.type === 'C' ? Math.max(0, spot - leg.strike) : Math.max(0, leg.strike - spot);
+    return sum + (leg.direction === 'buy' ? 1 : -1) * intrinsic * leg.contracts;
+  }, 0);
+  return payoff - hedge.premiumUsd;
+};
@@ -17,6 +17,27 @@ export const convertIsoToDeribitDate = (isoDate: string): string => {
   return `${day}${month}${year}`;
 };
 
+/**
+ * Converts a Deribit expiry code (DMMMYY) to its UTC timestamp.
+ * Deribit options expire at 08:00 UTC on the expiry date.
+ * Example: 27DEC24 -> 2024-12-27T08:00:00Z
+ */
+export const parseDeribitExpiry = (code: string): number | null => {
+  const match = code.match(/^(\d{1,2})([A-Z]{3})(\d{2})$/);
+  if (!match) return null;
+
+  const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+  const month = monthNames.indexOf(match[2]);
+  if (month < 0) return null;
+
+  return Date.UTC(2000 + parseInt(match[3]), month, parseInt(match[1]), 8, 0, 0);
+};
+
+/**
+ * Pairs outcome names with prices. API payloads are validated to canonical JSON
+ * of equal lengths (services/validation.ts), so the [] fallback only catches
+ * hand-built or stored data.
+ */
 export const parsePolymarketOutcomes = (outcomesStr: string, pricesStr: string) => {
   try {
     // Polymarket sometimes returns stringified JSON, sometimes plain arrays/strings
@@ -31,4 +52,24 @@ export const parsePolymarketOutcomes = (outcomesStr: string, pricesStr: string)
     console.warn("Error parsing outcomes", e);
     return [];
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Parses a Deribit instrument name into its components.
+ * Example: BTC-27MAR26-300000-C -> { currency: 'BTC', expiry: '27MAR26', strike: 300000, type: 'C' }
+ * Example: SOL_USDC-27MAR26-200-P -> { currency: 'SOL_USDC', expiry: '27MAR26', strike: 200, type: 'P' }
+ */
+export const parseDeribitInstrument = (instrumentName: string) => {
+  const parts = instrumentName.split('-');
+  if (parts.length < 4) return null;
+  // Linear (USDC) instruments encode decimal strikes with "d", e.g. XRP_USDC-27DEC24-2d5-C
+  const strike = parseFloat(parts[2].replace('d', '.'));
+  const type = parts[3];
+  if (isNaN(strike) || (type !== 'C' && type !== 'P')) return null;
+  return {
+    currency: parts[0],
+    expiry: parts[1],
+    strike,
+    type: type as 'C' | 'P'
+  };
+};
@@ -1,3 +1,5 @@
+import { MonteCarloParams, MonteCarloResult, MonteCarloStats } from '../types';
+
 /**
  * Standard Normal Cumulative Distribution Function (CDF)
  * Approximation using Abramowitz and Stegun 26.2.17
@@ -17,33 +19,45 @@ function normalCDF(x: number): number {
   );
 }
 
+/**
+ * Standard Normal Probability Density Function (PDF)
+ */
+function normalPDF(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
 /**
  * Box-Muller transform to generate normally distributed random numbers
  */
-function randn_bm(): number {
+function randn_bm(rng: () => number = Math.random): number {
   let u = 0, v = 0;
-  while(u === 0) u = Math.random(); 
-  while(v === 0) v = Math.random();
+  while(u === 0) u = rng(); 
+  while(v === 0) v = rng();
   return Math.sqrt( -2.0 * Math.log( u ) ) * Math.cos( 2.0 * Math.PI * v );
 }
 
 /**
- * Extracts a strike price from a text string (e.g. "Bitcoin > $95,000")
+ * Mulberry32: small, fast seedable PRNG returning floats in [0, 1).
  */
-export const extractStrikePrice = (text: string): number | null => {
-  if (!text) return null;
-  // Match $100,000 or 100k or just numbers near keywords
-  const cleanText = text.replace(/,/g, '').toLowerCase();
-  
-  // Pattern 1: $number
-  const dollarMatch = cleanText.match(/\$(\d+(\.\d+)?)/);
-  if (dollarMatch) return parseFloat(dollarMatch[1]);
-  
-  // Pattern 2: number followed by k (e.g. 100k)
-  const kMatch = cleanText.match(/(\d+(\.\d+)?)k\b/);
-  if (kMatch) return parseFloat(kMatch[1]) * 1000;
-  
-  return null;
+export const createSeededRng = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const DEFAULT_MC_SEED = 20240601;
+
+/**
+ * Seeded standard normal sampler, for simulations outside this module.
+ */
+export const createSeededNormal = (seed: number): (() => number) => {
+  const rng = createSeededRng(seed);
+  return () => randn_bm(rng);
 };
 
 /**
@@ -63,59 +77,255 @@ export const calculateBlackScholesProb = (
   return normalCDF(d2);
 };
 
+// Broadie-Glasserman-Kou constant: -zeta(1/2) / sqrt(2 * pi)
+const BGK_BETA = 0.5826;
+
 /**
- * Monte Carlo Simulation for Barrier/Touch or complex paths
- * "Event Vol" logic: simulates price paths
+ * One-touch probability under GBM: P(price touches H before T).
+ * Closed form for continuous monitoring (reflection principle with drift).
+ * With a monitoring interval, the barrier is shifted away from spot by
+ * exp(±0.5826 σ √Δt) (Broadie-Glasserman-Kou), since discrete checks miss
+ * touches between observations.
  */
-export const runMonteCarloSimulation = (
+export const calculateOneTouchProb = (
   S: number,
-  K: number,
+  H: number, // Barrier
   T: number,
   sigma: number,
   r: number = 0.04,
-  iterations: number = 50000,
-  volMultiplier: number = 1.0,
-  isTouch: boolean = false // If true, checks if price EVER hits K. If false, checks if price ENDS > K.
+  direction: 'up' | 'down' = 'up',
+  monitoringIntervalYears: number = 0 // 0 = continuous
 ): number => {
-  if (T <= 0) return S > K ? 1.0 : 0.0;
-  
+  const isDown = direction === 'down';
+  if (isDown ? S <= H : S >= H) return 1.0; // Already touched
+  if (T <= 0 || sigma <= 0) return 0.0;
+
+  const shift = Math.exp((isDown ? -1 : 1) * BGK_BETA * sigma * Math.sqrt(monitoringIntervalYears));
+  const h = Math.log((H * shift) / S);
+  const nu = r - 0.5 * sigma * sigma;
+  const sqrtT = sigma * Math.sqrt(T);
+  const reflection = Math.exp((2 * nu * h) / (sigma * sigma));
+
+  const prob = isDown
+    ? normalCDF((h - nu * T) / sqrtT) + reflection * normalCDF((h + nu * T) / sqrtT)
+    : normalCDF((-h + nu * T) / sqrtT) + reflection * normalCDF((-h - nu * T) / sqrtT);
+  return Math.min(1, Math.max(0, prob));
+};
+
+/**
+ * Black-Scholes price of a vanilla call, in units of the underlying's quote currency.
+ */
+export const calculateBlackScholesCall = (
+  S: number,
+  K: number,
+  T: number,
+  sigma: number,
+  r: number = 0.04
+): number => {
+  if (T <= 0 || sigma <= 0) return Math.max(0, S - K * Math.exp(-r * Math.max(0, T)));
+  const sqrtT = Math.sqrt(T);
+  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  return S * normalCDF(d1) - K * Math.exp(-r * T) * normalCDF(d2);
+};
+
+/**
+ * Closed-form Greeks of the Black-Scholes digital call, per $1 payout.
+ * delta/gamma are per $1 of spot, vega per 1 vol point, theta per calendar day.
+ */
+export const calculateDigitalGreeks = (
+  S: number,
+  K: number,
+  T: number,
+  sigma: number,
+  r: number = 0.04
+): { delta: number; gamma: number; vega: number; theta: number } => {
+  if (T <= 0 || sigma <= 0) return { delta: 0, gamma: 0, vega: 0, theta: 0 };
+
+  const sqrtT = Math.sqrt(T);
+  const d2 = (Math.log(S / K) + (r - 0.5 * sigma * sigma) * T) / (sigma * sqrtT);
+  const d1 = d2 + sigma * sqrtT;
+  const pdf = normalPDF(d2);
+  // d(d2)/dT; time passing shortens T, hence the sign flip for theta
+  const dd2dT = ((r - 0.5 * sigma * sigma) * T - Math.log(S / K)) / (2 * sigma * T * sqrtT);
+
+  return {
+    delta: pdf / (S * sigma * sqrtT),
+    gamma: (-pdf * d1) / (S * S * sigma * sigma * T),
+    vega: ((-pdf * d1) / sigma) / 100,
+    theta: (-pdf * dd2dT) / 365
+  };
+};
+
+/**
+ * Black-Scholes delta (per unit of the underlying) and vega (per 1 vol point)
+ * of a vanilla call or put.
+ */
+export const calculateVanillaGreeks = (
+  S: number,
+  K: number,
+  T: number,
+  sigma: number,
+  r: number = 0.04,
+  type: 'C' | 'P' = 'C'
+): { delta: number; vega: number } => {
+  if (T <= 0 || sigma <= 0) {
+    const itm = type === 'C' ? S > K : S < K;
+    return { delta: itm ? (type === 'C' ? 1 : -1) : 0, vega: 0 };
+  }
+
+  const sqrtT = Math.sqrt(T);
+  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * sqrtT);
+  return {
+    delta: type === 'C' ? normalCDF(d1) : normalCDF(d1) - 1,
+    vega: (S * normalPDF(d1) * sqrtT) / 100
+  };
+};
+
+const exactStats = (value: number, params: MonteCarloParams): MonteCarloStats => ({
+  n: 0, paths: 0, sumY: 0, sumYY: 0, sumX: 0, sumXX: 0, sumXY: 0,
+  controlMean: 0, controlVariate: params.controlVariate, exact: value
+});
+
+/**
+ * Simulates GBM paths and returns running sums of the payoff and its control.
+ * Antithetic: each draw Z is paired with -Z and the pair counts as one sample.
+ * Control variate: the terminal digital for touch contracts (known in closed
+ * form and strongly correlated with touching), S_T / S for closes.
+ */
+export const simulateMonteCarlo = (params: MonteCarloParams): MonteCarloStats => {
+  const { S, K, T, sigma, r, volMultiplier, isTouch, barrierDirection, iterations, seed, antithetic, controlVariate } = params;
+  const isDown = isTouch && barrierDirection === 'down';
+  if (T <= 0) return exactStats(isDown ? (S <= K ? 1.0 : 0.0) : (S > K ? 1.0 : 0.0), params);
+  if (isTouch && (isDown ? S <= K : S >= K)) return exactStats(1.0, params); // Already touched
+
   const effectiveSigma = sigma * volMultiplier;
-  const dt = T; // For simple European we can do 1 step. For Touch, we need steps.
-  
-  // For 'Touch' options (Barrier), we need granular steps. 
-  // To keep it performant in JS, we'll do daily steps if T > 1 day, else hourly.
-  const steps = isTouch ? Math.max(1, Math.ceil(T * 365)) : 1; 
+  // For 'Touch' options (Barrier), we need granular steps: daily. Closes need one step.
+  const steps = isTouch ? Math.max(1, Math.ceil(T * 365)) : 1;
   const stepDt = T / steps;
   const drift = (r - 0.5 * effectiveSigma * effectiveSigma) * stepDt;
   const volShock = effectiveSigma * Math.sqrt(stepDt);
-  
-  let successCount = 0;
-  
-  for (let i = 0; i < iterations; i++) {
-    let currentS = S;
+
+  const controlMean = !isTouch
+    ? Math.exp(r * T)
+    : isDown
+      ? 1 - calculateBlackScholesProb(S, K, T, effectiveSigma, r)
+      : calculateBlackScholesProb(S, K, T, effectiveSigma, r);
+
+  const rng = createSeededRng(seed);
+  const shocks = new Float64Array(steps);
+
+  // Returns [payoff, control] for one path driven by sign * shocks
+  const runPath = (sign: number): [number, number] => {
+    let logS = 0;
     let hit = false;
-    
+    const logK = Math.log(K / S);
     for (let j = 0; j < steps; j++) {
-      const Z = randn_bm();
-      currentS = currentS * Math.exp(drift + volShock * Z);
-      
-      if (isTouch && currentS >= K) {
-        hit = true;
-        break; 
-      }
+      logS += drift + volShock * sign * shocks[j];
+      if (isTouch && !hit && (isDown ? logS <= logK : logS >= logK)) hit = true;
     }
-    
-    if (isTouch) {
-      if (hit) successCount++;
-    } else {
-      // European (Close > K)
-      if (currentS > K) successCount++;
+    if (!isTouch) return [logS > logK ? 1 : 0, Math.exp(logS)];
+    return [hit ? 1 : 0, (isDown ? logS <= logK : logS >= logK) ? 1 : 0];
+  };
+
+  const samples = antithetic ? Math.ceil(iterations / 2) : iterations;
+  let sumY = 0, sumYY = 0, sumX = 0, sumXX = 0, sumXY = 0;
+
+  for (let i = 0; i < samples; i++) {
+    for (let j = 0; j < steps; j++) shocks[j] = randn_bm(rng);
+
+    let [y, x] = runPath(1);
+    if (antithetic) {
+      const [y2, x2] = runPath(-1);
+      y = (y + y2) / 2;
+      x = (x + x2) / 2;
     }
+    sumY += y;
+    sumYY += y * y;
+    sumX += x;
+    sumXX += x * x;
+    sumXY += x * y;
   }
-  
-  return successCount / iterations;
+
+  return {
+    n: samples,
+    paths: antithetic ? samples * 2 : samples,
+    sumY, sumYY, sumX, sumXX, sumXY,
+    controlMean,
+    controlVariate,
+    exact: null
+  };
 };
 
+/**
+ * Merges the running sums of one or more simulations into an estimate with
+ * a standard error and a 95% confidence interval.
+ */
+export const summarizeMonteCarlo = (stats: MonteCarloStats[]): MonteCarloResult => {
+  const exact = stats.find(s => s.exact !== null);
+  if (exact && exact.exact !== null) {
+    return { prob: exact.exact, stdError: 0, ci95Low: exact.exact, ci95High: exact.exact, paths: 0 };
+  }
+
+  const total = stats.reduce((acc, s) => ({
+    n: acc.n + s.n,
+    paths: acc.paths + s.paths,
+    sumY: acc.sumY + s.sumY,
+    sumYY: acc.sumYY + s.sumYY,
+    sumX: acc.sumX + s.sumX,
+    sumXX: acc.sumXX + s.sumXX,
+    sumXY: acc.sumXY + s.sumXY
+  }), { n: 0, paths: 0, sumY: 0, sumYY: 0, sumX: 0, sumXX: 0, sumXY: 0 });
+
+  const { n } = total;
+  if (n === 0) return { prob: 0, stdError: 0, ci95Low: 0, ci95High: 0, paths: 0 };
+
+  const meanY = total.sumY / n;
+  const meanX = total.sumX / n;
+  const varY = total.sumYY / n - meanY * meanY;
+  const varX = total.sumXX / n - meanX * meanX;
+  const covXY = total.sumXY / n - meanX * meanY;
+
+  let estimate = meanY;
+  let residualVar = varY;
+  if (stats[0].controlVariate && varX > 1e-12) {
+    const beta = covXY / varX;
+    estimate = meanY - beta * (meanX - stats[0].controlMean);
+    residualVar = varY - (covXY * covXY) / varX;
+  }
+
+  const stdError = Math.sqrt(Math.max(0, residualVar) / Math.max(1, n - 1));
+  const prob = Math.min(1, Math.max(0, estimate));
+  return {
+    prob,
+    stdError,
+    ci95Low: Math.max(0, prob - 1.96 * stdError),
+    ci95High: Math.min(1, prob + 1.96 * stdError),
+    paths: total.paths
+  };
+};
+
+/**
+ * Monte Carlo Simulation for Barrier/Touch or complex paths
+ * "Event Vol" logic: simulates price paths.
+ * Seeded, so the same inputs always give the same answer.
+ */
+export const runMonteCarloSimulation = (
+  S: number,
+  K: number,
+  T: number,
+  sigma: number,
+  r: number = 0.04,
+  iterations: number = 50000,
+  volMultiplier: number = 1.0,
+  isTouch: boolean = false, // If true, checks if price EVER hits K. If false, checks if price ENDS > K.
+  barrierDirection: 'up' | 'down' = 'up', // For touch: 'down' checks if price EVER falls to K
+  seed: number = DEFAULT_MC_SEED
+): number =>
+  summarizeMonteCarlo([
+    simulateMonteCarlo({ S, K, T, sigma, r, volMultiplier, isTouch, barrierDirection, iterations, seed, antithetic: true, controlVariate: true })
+  ]).prob;
+
 /**
  * Calculates Spread Percentage
  */
@@ -0,0 +1,376 @@
+import { ContractSpec, HestonParams, MertonParams, ModelCalibration, ModelCalibrations, OptionQuote } from '../types';
+import { calculateBlackScholesCall, calculateBlackScholesProb, createSeededNormal, createSeededRng, DEFAULT_MC_SEED } from './math';
+import { fitVolSmile } from './smile';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+const MAX_JUMPS = 40;
+
+// A single expiry cannot separate mean-reversion speed from long-run variance
+const HESTON_KAPPA = 2;
+
+// ---------------------------------------------------------------------------
+// Merton jump-diffusion
+// ---------------------------------------------------------------------------
+
+const poissonWeights = (mean: number): number[] => {
+  const weights: number[] = [];
+  let w = Math.exp(-mean);
+  for (let n = 0; n <= MAX_JUMPS; n++) {
+    weights.push(w);
+    w *= mean / (n + 1);
+  }
+  return weights;
+};
+
+/**
+ * Merton P(S_T > K): conditional on n jumps, ln S_T is normal, so the answer
+ * is a Poisson-weighted sum of Black-Scholes digitals.
+ */
+export const mertonDigitalProb = (S: number, K: number, T: number, p: MertonParams, r: number = 0.04): number => {
+  if (T <= 0) return S > K ? 1 : 0;
+  const k = Math.exp(p.muJ + 0.5 * p.deltaJ * p.deltaJ) - 1;
+  return poissonWeights(p.lambda * T).reduce((sum, w, n) => {
+    const sigmaN = Math.sqrt(p.sigma * p.sigma + (n * p.deltaJ * p.deltaJ) / T);
+    // Drift that reproduces the conditional mean of ln S_T under BS's d2
+    const rN = r - p.lambda * k - 0.5 * p.sigma * p.sigma + 0.5 * sigmaN * sigmaN + (n * p.muJ) / T;
+    return sum + w * calculateBlackScholesProb(S, K, T, sigmaN, rN);
+  }, 0);
+};
+
+export const mertonCallPrice = (S: number, K: number, T: number, p: MertonParams, r: number = 0.04): number => {
+  const k = Math.exp(p.muJ + 0.5 * p.deltaJ * p.deltaJ) - 1;
+  return poissonWeights(p.lambda * T).reduce((sum, w, n) => {
+    const sigmaN = Math.sqrt(p.sigma * p.sigma + (n * p.deltaJ * p.deltaJ) / T);
+    const rN = r - p.lambda * k + (n * (p.muJ + 0.5 * p.deltaJ * p.deltaJ)) / T;
+    return sum + w * Math.exp((rN - r) * T) * calculateBlackScholesCall(S, K, T, sigmaN, rN);
+  }, 0);
+};
+
+// ---------------------------------------------------------------------------
+// Heston stochastic volatility
+// ---------------------------------------------------------------------------
+
+type Complex = [number, number];
+
+const cAdd = (a: Complex, b: Complex): Complex => [a[0] + b[0], a[1] + b[1]];
+const cSub = (a: Complex, b: Complex): Complex => [a[0] - b[0], a[1] - b[1]];
+const cMul = (a: Complex, b: Complex): Complex => [a[0] * b[0] - a[1] * b[1], a[0] * b[1] + a[1] * b[0]];
+const cDiv = (a: Complex, b: Complex): Complex => {
+  const d = b[0] * b[0] + b[1] * b[1];
+  return [(a[0] * b[0] + a[1] * b[1]) / d, (a[1] * b[0] - a[0] * b[1]) / d];
+};
+const cExp = (a: Complex): Complex => {
+  const m = Math.exp(a[0]);
+  return [m * Math.cos(a[1]), m * Math.sin(a[1])];
+};
+const cLog = (a: Complex): Complex => [Math.log(Math.hypot(a[0], a[1])), Math.atan2(a[1], a[0])];
+const cSqrt = (a: Complex): Complex => {
+  const m = Math.sqrt(Math.hypot(a[0], a[1]));
+  const arg = Math.atan2(a[1], a[0]) / 2;
+  return [m * Math.cos(arg), m * Math.sin(arg)];
+};
+
+/**
+ * Characteristic function of ln(S_T / S) at complex u, in the
+ * "little Heston trap" form that avoids branch-cut discontinuities.
+ */
+const hestonCf = (u: Complex, T: number, p: HestonParams, r: number): Complex => {
+  const iu: Complex = [-u[1], u[0]];
+  const xi2 = p.xi * p.xi;
+  const b = cSub([p.kappa, 0], cMul([p.rho * p.xi, 0], iu));
+  const d = cSqrt(cAdd(cMul(b, b), cMul([xi2, 0], cAdd(iu, cMul(u, u)))));
+  const g = cDiv(cSub(b, d), cAdd(b, d));
+  const edT = cExp(cMul(d, [-T, 0]));
+  const one: Complex = [1, 0];
+
+  const C = cAdd(
+    cMul(iu, [r * T, 0]),
+    cMul([(p.kappa * p.theta) / xi2, 0], cSub(cMul(cSub(b, d), [T, 0]), cMul([2, 0], cLog(cDiv(cSub(one, cMul(g, edT)), cSub(one, g))))))
+  );
+  const D = cMul(cDiv(cSub(b, d), [xi2, 0]), cDiv(cSub(one, edT), cSub(one, cMul(g, edT))));
+  return cExp(cAdd(C, cMul(D, [p.v0, 0])));
+};
+
+/**
+ * Gil-Pelaez probabilities: P2 = P(S_T > K), P1 the same under the stock measure.
+ * Simpson's rule on [0, uMax], with uMax scaled to the total variance.
+ */
+const hestonProbabilities = (S: number, K: number, T: number, p: HestonParams, r: number): { p1: number; p2: number } => {
+  const x = Math.log(S / K);
+  const variance = Math.max(1e-6, Math.max(p.v0, p.theta) * T);
+  const uMax = Math.max(50, 12 / Math.sqrt(variance));
+  const steps = 128;
+  const h = uMax / steps;
+  const forwardCf = hestonCf([0, -1], T, p, r); // E[S_T / S]
+
+  let sum1 = 0;
+  let sum2 = 0;
+  for (let i = 0; i <= steps; i++) {
+    const u = Math.max(1e-8, i * h);
+    const weight = i === 0 || i === steps ? 1 : i % 2 === 1 ? 4 : 2;
+    const phase: Complex = [Math.cos(u * x), Math.sin(u * x)];
+    const iu: Complex = [0, u];
+    const f2 = cDiv(cMul(phase, hestonCf([u, 0], T, p, r)), iu);
+    const f1 = cDiv(cMul(phase, hestonCf([u, -1], T, p, r)), cMul(iu, forwardCf));
+    sum1 += weight * f1[0];
+    sum2 += weight * f2[0];
+  }
+
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return {
+    p1: clamp(0.5 + ((h / 3) * sum1) / Math.PI),
+    p2: clamp(0.5 + ((h / 3) * sum2) / Math.PI)
+  };
+};
+
+export const hestonDigitalProb = (S: number, K: number, T: number, p: HestonParams, r: number = 0.04): number => {
+  if (T <= 0) return S > K ? 1 : 0;
+  return hestonProbabilities(S, K, T, p, r).p2;
+};
+
+export const hestonCallPrice = (S: number, K: number, T: number, p: HestonParams, r: number = 0.04): number => {
+  const { p1, p2 } = hestonProbabilities(S, K, T, p, r);
+  return Math.max(0, S * p1 - K * Math.exp(-r * T) * p2);
+};
+
+// ---------------------------------------------------------------------------
+// Calibration
+// ---------------------------------------------------------------------------
+
+/**
+ * Nelder-Mead simplex minimiser over unconstrained coordinates.
+ */
+const nelderMead = (f: (x: number[]) => number, start: number[], step: number = 0.5, maxIter: number = 250): number[] => {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step : v)))].map(x => ({ x, fx: f(x) }));
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    simplex.sort((a, b) => a.fx - b.fx);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.fx - best.fx) < 1e-10) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((s, p) => s + p.x[j], 0) / n);
+    const towards = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = towards(-1);
+    const fr = f(reflected);
+    if (fr < best.fx) {
+      const expanded = towards(-2);
+      const fe = f(expanded);
+      simplex[n] = fe < fr ? { x: expanded, fx: fe } : { x: reflected, fx: fr };
+    } else if (fr < simplex[n - 1].fx) {
+      simplex[n] = { x: reflected, fx: fr };
+    } else {
+      const contracted = towards(0.5);
+      const fc = f(contracted);
+      if (fc < worst.fx) {
+        simplex[n] = { x: contracted, fx: fc };
+      } else {
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = p.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+          return { x, fx: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.fx - b.fx);
+  return simplex[0].x;
+};
+
+interface CalibrationTarget {
+  strike: number;
+  price: number; // Forward call price at the market IV
+  vega: number; // Per 1.00 of vol
+}
+
+/**
+ * OTM smile points of one expiry as forward call prices (r = 0 on the forward),
+ * so inverse and linear chains calibrate the same way.
+ */
+const buildTargets = (options: OptionQuote[], spot: number, now: number) => {
+  const smile = fitVolSmile(options, spot);
+  if (!smile || smile.points.length < 3) return null;
+  const T = (options[0].expiryTimestamp - now) / MS_PER_YEAR;
+  if (T <= 0) return null;
+
+  const F = smile.forward;
+  const targets: CalibrationTarget[] = smile.points.map(pt => {
+    const sigma = pt.iv / 100;
+    const price = calculateBlackScholesCall(F, pt.strike, T, sigma, 0);
+    const bump = calculateBlackScholesCall(F, pt.strike, T, sigma + 0.01, 0);
+    return { strike: pt.strike, price, vega: Math.max(1e-8, (bump - price) / 0.01) };
+  });
+  const atmIv = smile.ivAt(F) / 100;
+  return { F, T, targets, atmIv };
+};
+
+// Vega-weighted price error ≈ IV error, in vol points
+const rmseVolPts = (targets: CalibrationTarget[], modelPrice: (K: number) => number): number =>
+  100 * Math.sqrt(targets.reduce((s, t) => s + ((modelPrice(t.strike) - t.price) / t.vega) ** 2, 0) / targets.length);
+
+export const calibrateMerton = (options: OptionQuote[], spot: number, now: number = Date.now()): ModelCalibration<MertonParams> | null => {
+  const data = buildTargets(options, spot, now);
+  if (!data) return null;
+  const { F, T, targets, atmIv } = data;
+
+  // Unconstrained coordinates: logs for positive params
+  const toParams = (x: number[]): MertonParams => ({
+    sigma: Math.exp(x[0]),
+    lambda: Math.exp(x[1]),
+    muJ: x[2],
+    deltaJ: Math.exp(x[3])
+  });
+  const fromParams = (p: MertonParams) => [Math.log(p.sigma), Math.log(p.lambda), p.muJ, Math.log(p.deltaJ)];
+  const objective = (x: number[]) => {
+    const p = toParams(x);
+    if (p.lambda > 200 || p.deltaJ > 1) return 1e6;
+    return rmseVolPts(targets, K => mertonCallPrice(F, K, T, p, 0));
+  };
+
+  const best = toParams(nelderMead(objective, fromParams({ sigma: atmIv * 0.8, lambda: 10, muJ: -0.02, deltaJ: 0.05 })));
+  return { params: best, rmseVolPts: objective(fromParams(best)), points: targets.length, expiryT: T, calibratedAt: now };
+};
+
+export const calibrateHeston = (options: OptionQuote[], spot: number, now: number = Date.now()): ModelCalibration<HestonParams> | null => {
+  const data = buildTargets(options, spot, now);
+  if (!data) return null;
+  const { F, T, targets, atmIv } = data;
+
+  const toParams = (x: number[]): HestonParams => ({
+    v0: Math.exp(x[0]),
+    kappa: HESTON_KAPPA,
+    theta: Math.exp(x[1]),
+    xi: Math.exp(x[2]),
+    rho: Math.tanh(x[3])
+  });
+  const fromParams = (p: HestonParams) => [Math.log(p.v0), Math.log(p.theta), Math.log(p.xi), Math.atanh(p.rho)];
+  const objective = (x: number[]) => {
+    const p = toParams(x);
+    if (p.xi > 10) return 1e6;
+    return rmseVolPts(targets, K => hestonCallPrice(F, K, T, p, 0));
+  };
+
+  const v = atmIv * atmIv;
+  // Fewer iterations than Merton: each Heston price is a numerical integral
+  const best = toParams(nelderMead(objective, fromParams({ v0: v, kappa: HESTON_KAPPA, theta: v, xi: 1.5, rho: -0.3 }), 0.5, 150));
+  return { params: best, rmseVolPts: objective(fromParams(best)), points: targets.length, expiryT: T, calibratedAt: now };
+};
+
+// ---------------------------------------------------------------------------
+// Contract pricing
+// ---------------------------------------------------------------------------
+
+export type AltModel = { type: 'MERTON'; params: MertonParams } | { type: 'HESTON'; params: HestonParams };
+
+/**
+ * Path simulation for touch contracts under jumps or stochastic vol.
+ * Six steps a day, so short-dated barriers see intraday moves.
+ */
+const simulateTouch = (
+  model: AltModel,
+  S: number,
+  K: number,
+  T: number,
+  direction: 'up' | 'down',
+  r: number,
+  iterations: number,
+  seed: number
+): number => {
+  if (direction === 'up' ? S >= K : S <= K) return 1;
+  if (T <= 0) return 0;
+
+  const steps = Math.min(1000, Math.max(24, Math.ceil(T * 365 * 6)));
+  const dt = T / steps;
+  const logK = Math.log(K / S);
+  const randn = createSeededNormal(seed);
+  const uniform = createSeededRng(seed + 1);
+  let hits = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    let x = 0;
+    if (model.type === 'MERTON') {
+      const p = model.params;
+      const k = Math.exp(p.muJ + 0.5 * p.deltaJ * p.deltaJ) - 1;
+      const drift = (r - p.lambda * k - 0.5 * p.sigma * p.sigma) * dt;
+      const noJumpProb = Math.exp(-p.lambda * dt);
+      for (let j = 0; j < steps; j++) {
+        x += drift + p.sigma * Math.sqrt(dt) * randn();
+        // Poisson jump count by inversion; almost always 0 or 1 per step
+        let u = uniform();
+        let pk = noJumpProb;
+        let jumps = 0;
+        while (u > pk && jumps < 10) {
+          u -= pk;
+          jumps++;
+          pk *= (p.lambda * dt) / jumps;
+        }
+        if (jumps > 0) x += jumps * p.muJ + Math.sqrt(jumps) * p.deltaJ * randn();
+        if (direction === 'up' ? x >= logK : x <= logK) { hits++; break; }
+      }
+    } else {
+      const p = model.params;
+      let v = p.v0;
+      for (let j = 0; j < steps; j++) {
+        const vPos = Math.max(0, v);
+        const z1 = randn();
+        const z2 = p.rho * z1 + Math.sqrt(1 - p.rho * p.rho) * randn();
+        x += (r - 0.5 * vPos) * dt + Math.sqrt(vPos * dt) * z1;
+        v += p.kappa * (p.theta - vPos) * dt + p.xi * Math.sqrt(vPos * dt) * z2;
+        if (direction === 'up' ? x >= logK : x <= logK) { hits++; break; }
+      }
+    }
+  }
+  return hits / iterations;
+};
+
+/**
+ * Model probability that a contract resolves "Yes" under a calibrated model.
+ * Close/range use closed forms; touch contracts are simulated.
+ */
+export const priceContractWithModel = (
+  spec: ContractSpec,
+  model: AltModel,
+  spot: number,
+  T: number,
+  r: number = 0.04,
+  iterations: number = 10000,
+  seed: number = DEFAULT_MC_SEED
+): number | null => {
+  const digitalAbove = (K: number) =>
+    model.type === 'MERTON' ? mertonDigitalProb(spot, K, T, model.params, r) : hestonDigitalProb(spot, K, T, model.params, r);
+
+  switch (spec.type) {
+    case 'range':
+      if (spec.lowerBound === null || spec.upperBound === null) return null;
+      return Math.max(0, digitalAbove(spec.lowerBound) - digitalAbove(spec.upperBound));
+    case 'touch-up':
+      if (spec.lowerBound === null) return null;
+      return simulateTouch(model, spot, spec.lowerBound, T, 'up', r, iterations, seed);
+    case 'touch-down':
+      if (spec.upperBound === null) return null;
+      return simulateTouch(model, spot, spec.upperBound, T, 'down', r, iterations, seed);
+    case 'close':
+    default:
+      if (spec.direction === 'below' && spec.upperBound !== null) return 1 - digitalAbove(spec.upperBound);
+      if (spec.lowerBound !== null) return digitalAbove(spec.lowerBound);
+      return null;
+  }
+};
+
+/**
+ * Work for the model worker: calibrating both models to a chain, or pricing
+ * a contract under one of them (touch contracts simulate paths).
+ */
+export type ModelJob =
+  | { kind: 'calibrate'; options: OptionQuote[]; spot: number; now: number }
+  | { kind: 'price'; spec: ContractSpec; model: AltModel; spot: number; T: number };
+
+export type ModelJobResult<J extends ModelJob> = J extends { kind: 'calibrate' } ? ModelCalibrations : number | null;
+
+export const executeModelJob = <J extends ModelJob>(job: J): ModelJobResult<J> =>
+  (job.kind === 'calibrate'
+    ? { merton: calibrateMerton(job.options, job.spot, job.now), heston: calibrateHeston(job.options, job.spot, job.now) }
+    : priceContractWithModel(job.spec, job.model, job.spot, job.T)) as ModelJobResult<J>;
@@ -0,0 +1,54 @@
+import { FillEstimate, OrderBookLevel } from '../types';
+
+/**
+ * Walks the ask side to estimate the fill for a USD-notional market buy.
+ * Asks must be sorted best (lowest) first.
+ */
+export const estimateBuyFill = (asks: OrderBookLevel[], usdSize: number): FillEstimate => {
+  let remaining = usdSize;
+  let shares = 0;
+  let levelsUsed = 0;
+
+  for (const level of asks) {
+    if (remaining <= 0) break;
+    const levelCost = level.price * level.size;
+    const spend = Math.min(remaining, levelCost);
+    shares += spend / level.price;
+    remaining -= spend;
+    levelsUsed++;
+  }
+
+  const filledUsd = usdSize - remaining;
+  const bestPrice = asks.length > 0 ? asks[0].price : null;
+  const avgPrice = shares > 0 ? filledUsd / shares : null;
+
+  return {
+    avgPrice,
+    bestPrice,
+    slippage: avgPrice !== null && bestPrice !== null ? avgPrice - bestPrice : null,
+    shares,
+    filledUsd,
+    unfilledUsd: Math.max(0, remaining),
+    levelsUsed
+  };
+};
+
+/**
+ * Total USD resting on a book side (price x size).
+ */
+export const getBookDepthUsd = (levels: OrderBookLevel[]): number =>
+  levels.reduce((sum, l) => sum + l.price * l.size, 0);
+
+/**
+ * Parses the market's clobTokenIds JSON string into [yesTokenId, noTokenId].
+ */
+export const parseClobTokenIds = (clobTokenIds?: string): string[] => {
+  if (!clobTokenIds) return [];
+  try {
+    const ids = JSON.parse(clobTokenIds);
+    return Array.isArray(ids) ? ids.map(String) : [];
+  } catch (e) {
+    console.warn("Error parsing clobTokenIds", e);
+    return [];
+  }
+};
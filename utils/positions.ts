@@ -0,0 +1,215 @@
+import {
+  AssetQuotes, DeribitPositionLeg, ExpiryLadderRow, MarkedPosition, PolyPositionLeg, PortfolioSummary, PositionLeg
+} from '../types';
+import { detectAsset, getAssetConfigForInstrument } from './assets';
+import { getMonitoringMinutes, parseContract } from './contractParser';
+import { computeContractGreeks } from './greeks';
+import { optionPriceUsd } from './hedge';
+import { parseDeribitExpiry, parseDeribitInstrument, parsePolymarketOutcomes } from './helpers';
+import { calculateVanillaGreeks } from './math';
+import { createIvLookup, priceContract } from './pricing';
+import { findExpiryBracket, getPrimarySlice } from './termStructure';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const CSV_HEADER = 'venue,id,outcome,size,entry';
+
+const unmarked = (leg: PositionLeg, asset: string | null, expiry: number | null): MarkedPosition => ({
+  leg, asset, expiry,
+  markPrice: null, modelPrice: null, valueUsd: null, pnlUsd: null, modelPnlUsd: null, delta: null, vegaUsd: null
+});
+
+/**
+ * Marks a Polymarket leg at the outcome's last price, and against the model
+ * probability from the asset's Deribit chain (closed-form, touch contracts
+ * with the analytic barrier formula). Delta and vega come from the contract
+ * Greeks, signed for the side held.
+ */
+const markPolyLeg = (leg: PolyPositionLeg, quotes: Record<string, AssetQuotes>, now: number): MarkedPosition => {
+  const { market } = leg;
+  if (!market) return unmarked(leg, null, null);
+
+  const asset = detectAsset(market.question, leg.description);
+  const expiry = new Date(market.endDate).getTime();
+  const outcomes: { name: string; price: number }[] = parsePolymarketOutcomes(market.outcomes || '[]', market.outcomePrices || '[]');
+  const idx = outcomes.findIndex(o => o.name.toLowerCase() === leg.outcome.toLowerCase());
+  const markPrice = idx >= 0 ? outcomes[idx].price : null;
+  // "Yes" (or the first listed outcome) pays when the contract resolves true
+  const yesIdx = Math.max(0, outcomes.findIndex(o => o.name.toLowerCase() === 'yes'));
+  const sign = idx === yesIdx ? 1 : -1;
+
+  let modelPrice: number | null = null;
+  let delta: number | null = null;
+  let vegaUsd: number | null = null;
+  const data = asset ? quotes[asset] : undefined;
+  if (data && data.options.length > 0 && !isNaN(expiry)) {
+    const spec = parseContract({ question: market.question, description: leg.description, endDate: market.endDate, spotPrice: data.spotPrice });
+    const bracket = findExpiryBracket(data.options, market.endDate, now);
+    const ivAt = createIvLookup(bracket ? getPrimarySlice(bracket).options : data.options, bracket, data.spotPrice, expiry);
+    const params = {
+      spot: data.spotPrice,
+      T: Math.max(0, (expiry - now) / MS_PER_YEAR),
+      ivAt: (K: number) => ivAt(K) ?? 0,
+      model: 'BARRIER' as const,
+      monitoringMinutes: getMonitoringMinutes(spec) ?? 1
+    };
+    const yesProb = priceContract(spec, params);
+    if (yesProb !== null) modelPrice = sign > 0 ? yesProb : 1 - yesProb;
+    const greeks = computeContractGreeks(spec, params);
+    if (greeks) {
+      delta = sign * leg.shares * greeks.delta;
+      vegaUsd = sign * leg.shares * greeks.vega;
+    }
+  }
+
+  return {
+    leg, asset, expiry,
+    markPrice,
+    modelPrice,
+    valueUsd: markPrice !== null ? leg.shares * markPrice : null,
+    pnlUsd: markPrice !== null ? leg.shares * (markPrice - leg.entryPrice) : null,
+    modelPnlUsd: modelPrice !== null ? leg.shares * (modelPrice - leg.entryPrice) : null,
+    delta,
+    vegaUsd
+  };
+};
+
+/**
+ * Marks a Deribit leg at the option's mark price in USD.
+ * Delta and vega are Black-Scholes at the mark IV on the expiry's forward.
+ */
+const markDeribitLeg = (leg: DeribitPositionLeg, quotes: Record<string, AssetQuotes>, now: number): MarkedPosition => {
+  const parsed = parseDeribitInstrument(leg.instrumentName);
+  const asset = getAssetConfigForInstrument(leg.instrumentName)?.symbol || null;
+  const expiry = parsed ? parseDeribitExpiry(parsed.expiry) : null;
+  const { option } = leg;
+  const markPrice = option ? optionPriceUsd(option.mark, option) : null;
+  if (!parsed || !option || markPrice === null) return unmarked(leg, asset, expiry);
+
+  const forward = option.underlyingPrice || (asset ? quotes[asset]?.spotPrice : 0) || 0;
+  const T = expiry !== null ? Math.max(0, (expiry - now) / MS_PER_YEAR) : 0;
+  const greeks = forward > 0 ? calculateVanillaGreeks(forward, parsed.strike, T, option.iv / 100, 0, parsed.type) : null;
+  const pnlUsd = leg.contracts * (markPrice - leg.entryPriceUsd);
+
+  return {
+    leg, asset, expiry,
+    markPrice,
+    modelPrice: markPrice,
+    valueUsd: leg.contracts * markPrice,
+    pnlUsd,
+    modelPnlUsd: pnlUsd,
+    delta: greeks ? leg.contracts * greeks.delta : null,
+    vegaUsd: greeks ? leg.contracts * greeks.vega : null
+  };
+};
+
+/**
+ * Marks one leg against the latest quotes. Legs keep their last fetched
+ * market/option, so quotes only need the spot and chain per asset.
+ */
+export const markPosition = (leg: PositionLeg, quotes: Record<string, AssetQuotes>, now: number = Date.now()): MarkedPosition =>
+  leg.venue === 'polymarket' ? markPolyLeg(leg, quotes, now) : markDeribitLeg(leg, quotes, now);
+
+/**
+ * Portfolio totals and an expiry ladder bucketed by UTC day.
+ */
+export const summarizePositions = (marked: MarkedPosition[]): PortfolioSummary => {
+  const addDelta = (target: Record<string, number>, m: MarkedPosition) => {
+    if (m.asset && m.delta !== null) target[m.asset] = (target[m.asset] || 0) + m.delta;
+  };
+
+  const summary: PortfolioSummary = { valueUsd: 0, pnlUsd: 0, modelPnlUsd: 0, deltaByAsset: {}, vegaUsd: 0, ladder: [], unmarked: 0 };
+  const rungs: Record<number, ExpiryLadderRow> = {};
+
+  marked.forEach(m => {
+    if (m.markPrice === null) summary.unmarked++;
+    summary.valueUsd += m.valueUsd ?? 0;
+    summary.pnlUsd += m.pnlUsd ?? 0;
+    summary.modelPnlUsd += m.modelPnlUsd ?? 0;
+    summary.vegaUsd += m.vegaUsd ?? 0;
+    addDelta(summary.deltaByAsset, m);
+
+    if (m.expiry === null || isNaN(m.expiry)) return;
+    const day = Math.floor(m.expiry / MS_PER_DAY) * MS_PER_DAY;
+    const rung = rungs[day] || (rungs[day] = { expiry: day, legs: 0, valueUsd: 0, pnlUsd: 0, deltaByAsset: {}, vegaUsd: 0 });
+    rung.legs++;
+    rung.valueUsd += m.valueUsd ?? 0;
+    rung.pnlUsd += m.pnlUsd ?? 0;
+    rung.vegaUsd += m.vegaUsd ?? 0;
+    addDelta(rung.deltaByAsset, m);
+  });
+
+  summary.ladder = Object.values(rungs).sort((a, b) => a.expiry - b.expiry);
+  return summary;
+};
+
+/**
+ * Parses legs from a spreadsheet export with columns `venue,id,outcome,size,entry`:
+ *  - polymarket,<market id>,Yes,<shares>,<entry 0-1 or cents>
+ *  - deribit,<instrument name>,,<contracts, negative = short>,<entry USD per contract>
+ * Rows that don't parse are reported by line number and skipped.
+ */
+export const parsePositionsCsv = (text: string, now: number = Date.now()): { legs: PositionLeg[]; errors: string[] } => {
+  const legs: PositionLeg[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const cells = line.split(',').map(c => c.trim());
+    if (!line.trim() || cells.join(',').toLowerCase() === CSV_HEADER) return;
+    const [venue, id, outcome, sizeStr, entryStr] = cells;
+    const size = parseFloat(sizeStr);
+    const entry = parseFloat(entryStr);
+    if (!id || isNaN(size) || size === 0 || isNaN(entry)) {
+      errors.push(`Line ${i + 1}: expected ${CSV_HEADER}`);
+      return;
+    }
+
+    if (venue?.toLowerCase() === 'polymarket') {
+      if (size < 0) {
+        errors.push(`Line ${i + 1}: Polymarket shares can't be negative; hold the other outcome instead`);
+        return;
+      }
+      legs.push({
+        id: `pos-${now}-${i}`,
+        venue: 'polymarket',
+        marketId: id,
+        outcome: outcome || 'Yes',
+        shares: size,
+        entryPrice: entry > 1 ? entry / 100 : entry,
+        market: null,
+        description: '',
+        openedAt: now
+      });
+    } else if (venue?.toLowerCase() === 'deribit') {
+      if (!parseDeribitInstrument(id)) {
+        errors.push(`Line ${i + 1}: unknown Deribit instrument "${id}"`);
+        return;
+      }
+      legs.push({
+        id: `pos-${now}-${i}`,
+        venue: 'deribit',
+        instrumentName: id,
+        contracts: size,
+        entryPriceUsd: entry,
+        option: null,
+        openedAt: now
+      });
+    } else {
+      errors.push(`Line ${i + 1}: venue must be "polymarket" or "deribit"`);
+    }
+  });
+
+  return { legs, errors };
+};
+
+/**
+ * Legs in the import format, for round-tripping through a spreadsheet.
+ */
+export const positionsToCsv = (legs: PositionLeg[]): string =>
+  [
+    CSV_HEADER,
+    ...legs.map(leg => leg.venue === 'polymarket'
+      ? `polymarket,${leg.marketId},${leg.outcome},${leg.shares},${leg.entryPrice}`
+      : `deribit,${leg.instrumentName},,${leg.contracts},${leg.entryPriceUsd}`)
+  ].join('\n');
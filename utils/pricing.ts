@@ -0,0 +1,181 @@
+import { ContractSpec, ExpiryBracket, MonteCarloParams, OptionQuote, RiskNeutralDensity } from '../types';
+import { densityCdf, extractRiskNeutralDensity } from './density';
+import { calculateBlackScholesProb, calculateOneTouchProb, runMonteCarloSimulation } from './math';
+import { priceDigitalFromCallSpread } from './replication';
+import { fitVolSmile } from './smile';
+import { createImpliedVolInterpolator } from './termStructure';
+
+export interface PricingParams {
+  spot: number;
+  T: number; // Years to resolution
+  ivAt: (strike: number) => number; // Implied vol (percent) at a strike
+  model: 'BS' | 'MC' | 'BARRIER' | 'DENSITY'; // BARRIER: analytic one-touch; DENSITY: Breeden-Litzenberger. Others as BS
+  monitoringMinutes?: number | null; // Touch monitoring interval for BARRIER; null/0 = continuous
+  volMultiplier?: number;
+  iterations?: number;
+  r?: number;
+}
+
+/**
+ * Builds an IV lookup (percent) for a resolution time.
+ * Order of preference: term-structure interpolation between two expiries,
+ * the fitted smile of the matched expiry, then the nearest-strike mark IV.
+ */
+export const createIvLookup = (
+  options: OptionQuote[],
+  expiryBracket: ExpiryBracket | null | undefined,
+  spot: number,
+  targetTimestamp: number
+): ((strike: number) => number | null) => {
+  const isInterpolated = !!expiryBracket && expiryBracket.lower !== expiryBracket.upper;
+  // Smiles are fitted here, once; lookups only evaluate them
+  const smile = fitVolSmile(options, spot);
+  const termVol = expiryBracket && isInterpolated ? createImpliedVolInterpolator(expiryBracket, spot) : null;
+
+  return (strike: number) => {
+    if (termVol) {
+      const iv = termVol(strike, targetTimestamp);
+      if (iv !== null) return iv;
+    }
+    if (smile) return smile.ivAt(strike);
+
+    let nearest: OptionQuote | null = null;
+    let nearestDist = Infinity;
+    for (const opt of options) {
+      const dist = Math.abs(opt.strike - strike);
+      if (dist < nearestDist) {
+        nearest = opt;
+        nearestDist = dist;
+      }
+    }
+    return nearest ? nearest.iv || 0 : null;
+  };
+};
+
+/**
+ * Model probability that a contract spec resolves "Yes".
+ * Close/range contracts are built from digital calls at each bound, each
+ * priced with its own smile vol, or read off the smile's risk-neutral density
+ * with the DENSITY model. Touch contracts go through Monte Carlo, or the
+ * closed-form one-touch formula with the BARRIER model.
+ */
+export const priceContract = (spec: ContractSpec, params: PricingParams): number | null => {
+  const { spot, T, ivAt, model, monitoringMinutes, volMultiplier = 1.0, iterations = 50000, r = 0.04 } = params;
+
+  // Built on first use; null when the smile has no usable vol
+  let rnd: RiskNeutralDensity | null | undefined;
+
+  // P(S_T > K)
+  const digitalAbove = (K: number): number => {
+    if (model === 'DENSITY') {
+      if (rnd === undefined) rnd = extractRiskNeutralDensity(ivAt, spot * Math.exp(r * T), T);
+      if (rnd) return 1 - densityCdf(rnd, K);
+    }
+    const sigma = ivAt(K) / 100;
+    return model !== 'MC'
+      ? calculateBlackScholesProb(spot, K, T, sigma, r)
+      : runMonteCarloSimulation(spot, K, T, sigma, r, iterations, volMultiplier, false);
+  };
+
+  const touch = (H: number, direction: 'up' | 'down'): number => {
+    const sigma = ivAt(H) / 100;
+    if (model === 'BARRIER') {
+      return calculateOneTouchProb(spot, H, T, sigma, r, direction, (monitoringMinutes || 0) / (60 * 24 * 365));
+    }
+    return runMonteCarloSimulation(spot, H, T, sigma, r, iterations, volMultiplier, true, direction);
+  };
+
+  switch (spec.type) {
+    case 'range':
+      if (spec.lowerBound === null || spec.upperBound === null) return null;
+      return Math.max(0, digitalAbove(spec.lowerBound) - digitalAbove(spec.upperBound));
+    case 'touch-up':
+      if (spec.lowerBound === null) return null;
+      return touch(spec.lowerBound, 'up');
+    case 'touch-down':
+      if (spec.upperBound === null) return null;
+      return touch(spec.upperBound, 'down');
+    case 'close':
+    default:
+      if (spec.direction === 'below' && spec.upperBound !== null) return 1 - digitalAbove(spec.upperBound);
+      if (spec.lowerBound !== null) return digitalAbove(spec.lowerBound);
+      return null;
+  }
+};
+
+/**
+ * Whether priceContract would simulate paths for this spec and model
+ * (Monte Carlo, or a touch contract without the analytic barrier).
+ */
+export const needsSimulation = (spec: ContractSpec, model: PricingParams['model']): boolean =>
+  model === 'MC' || ((spec.type === 'touch-up' || spec.type === 'touch-down') && model !== 'BARRIER');
+
+/**
+ * Decomposes a contract into Monte Carlo runs: Yes = offset + Σ weight × leg.
+ * Same structure as priceContract, for running the legs off the main thread.
+ */
+export const getMonteCarloLegs = (
+  spec: ContractSpec,
+  params: PricingParams,
+  options: { seed: number; antithetic: boolean; controlVariate: boolean }
+): { offset: number; legs: { weight: number; params: MonteCarloParams }[] } | null => {
+  const { spot, T, ivAt, volMultiplier = 1.0, iterations = 50000, r = 0.04 } = params;
+  const leg = (K: number, isTouch: boolean, barrierDirection: 'up' | 'down' = 'up'): MonteCarloParams => ({
+    S: spot, K, T, sigma: ivAt(K) / 100, r, volMultiplier, isTouch, barrierDirection, iterations, ...options
+  });
+
+  switch (spec.type) {
+    case 'range':
+      if (spec.lowerBound === null || spec.upperBound === null) return null;
+      return { offset: 0, legs: [{ weight: 1, params: leg(spec.lowerBound, false) }, { weight: -1, params: leg(spec.upperBound, false) }] };
+    case 'touch-up':
+      if (spec.lowerBound === null) return null;
+      return { offset: 0, legs: [{ weight: 1, params: leg(spec.lowerBound, true, 'up') }] };
+    case 'touch-down':
+      if (spec.upperBound === null) return null;
+      return { offset: 0, legs: [{ weight: 1, params: leg(spec.upperBound, true, 'down') }] };
+    case 'close':
+    default:
+      if (spec.direction === 'below' && spec.upperBound !== null) return { offset: 1, legs: [{ weight: -1, params: leg(spec.upperBound, false) }] };
+      if (spec.lowerBound !== null) return { offset: 0, legs: [{ weight: 1, params: leg(spec.lowerBound, false) }] };
+      return null;
+  }
+};
+
+/**
+ * Executable probability range for a close/range spec from listed call spreads.
+ * Touch contracts cannot be replicated statically and return null.
+ */
+export const priceContractFromCallSpreads = (spec: ContractSpec, options: OptionQuote[]) => {
+  if (spec.type === 'touch-up' || spec.type === 'touch-down') return null;
+
+  const bound = spec.type === 'range' || spec.direction !== 'below' ? spec.lowerBound : spec.upperBound;
+  if (bound === null) return null;
+  const first = priceDigitalFromCallSpread(options, bound);
+  if (!first) return null;
+
+  if (spec.type === 'range') {
+    if (spec.upperBound === null) return null;
+    const second = priceDigitalFromCallSpread(options, spec.upperBound);
+    if (!second) return null;
+    // Long the lower digital, short the upper digital
+    return {
+      legs: [first, second],
+      midProb: Math.max(0, first.midProb - second.midProb),
+      askProb: first.askProb !== null && second.bidProb !== null ? Math.max(0, first.askProb - second.bidProb) : null,
+      bidProb: first.bidProb !== null && second.askProb !== null ? Math.max(0, first.bidProb - second.askProb) : null
+    };
+  }
+
+  if (spec.direction === 'below') {
+    // "Below" pays 1 - digital: buying it means selling the spread
+    return {
+      legs: [first],
+      midProb: 1 - first.midProb,
+      askProb: first.bidProb !== null ? 1 - first.bidProb : null,
+      bidProb: first.askProb !== null ? 1 - first.askProb : null
+    };
+  }
+
+  return { legs: [first], midProb: first.midProb, askProb: first.askProb, bidProb: first.bidProb };
+};
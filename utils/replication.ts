@@ -0,0 +1,58 @@
+import { CallSpreadQuote, OptionQuote } from '../types';
+
+const clampProb = (p: number): number => Math.min(1, Math.max(0, p));
+
+/**
+ * Converts an option price to USD.
+ * Inverse options are quoted in the underlying (e.g. BTC); USDC-settled ones already are USD.
+ */
+const toUsd = (price: number | null, opt: OptionQuote): number | null => {
+  if (price === null || price === undefined) return null;
+  if (!opt.isInverse) return price;
+  if (!opt.underlyingPrice) return null;
+  return price * opt.underlyingPrice;
+};
+
+/**
+ * Model-free digital price from a call spread.
+ * Long 1/(K2-K1) calls at K1, short 1/(K2-K1) calls at K2 pays ~$1 if S_T > K.
+ * K1 is the highest listed strike <= K, K2 the lowest listed strike > K.
+ * Returns null if the chain has no calls bracketing the strike.
+ */
+export const priceDigitalFromCallSpread = (
+  options: OptionQuote[],
+  strike: number
+): CallSpreadQuote | null => {
+  if (!strike) return null;
+
+  const calls = options
+    .filter(opt => opt.type === 'C')
+    .map(opt => ({ opt, strike: opt.strike }))
+    .sort((a, b) => a.strike - b.strike);
+
+  const lower = [...calls].reverse().find(c => c.strike <= strike);
+  const upper = calls.find(c => c.strike > strike);
+  if (!lower || !upper) return null;
+
+  const width = upper.strike - lower.strike;
+
+  // Buying the spread: pay the ask on K1, receive the bid on K2
+  const lowerAsk = toUsd(lower.opt.ask, lower.opt);
+  const upperBid = toUsd(upper.opt.bid, upper.opt);
+  // Selling the spread: receive the bid on K1, pay the ask on K2
+  const lowerBid = toUsd(lower.opt.bid, lower.opt);
+  const upperAsk = toUsd(upper.opt.ask, upper.opt);
+
+  const lowerMark = toUsd(lower.opt.mark, lower.opt) || 0;
+  const upperMark = toUsd(upper.opt.mark, upper.opt) || 0;
+
+  return {
+    lowerCall: lower.opt,
+    upperCall: upper.opt,
+    lowerStrike: lower.strike,
+    upperStrike: upper.strike,
+    askProb: lowerAsk !== null && upperBid !== null ? clampProb((lowerAsk - upperBid) / width) : null,
+    bidProb: lowerBid !== null && upperAsk !== null ? clampProb((lowerBid - upperAsk) / width) : null,
+    midProb: clampProb((lowerMark - upperMark) / width)
+  };
+};
@@ -0,0 +1,83 @@
+import { ArbitrageOpportunity, CostSettings, ScanRow } from '../types';
+import { getContractStrike, getMonitoringMinutes, parseContract } from './contractParser';
+import { computeNetEdge } from './costs';
+import { calculateSpread } from './math';
+import { createIvLookup, priceContract, priceContractFromCallSpreads } from './pricing';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Runs the probability engine headlessly for every market of an event.
+ * Uses the same parser, vol lookup, pricing and cost model as AnalysisPanel
+ * (Black-Scholes for close/range, the closed-form barrier for touch,
+ * monitored at the resolution source's candle interval).
+ */
+export const scanOpportunity = (
+  opportunity: ArbitrageOpportunity,
+  query: string,
+  costSettings: CostSettings,
+  now: number = Date.now()
+): ScanRow[] => {
+  const { polyEvent, matchedOptions, expiryBracket, spotPrice, isAssetSupported } = opportunity;
+
+  return polyEvent.markets.map(market => {
+    const endDate = market.endDate || polyEvent.endDate;
+    const resolution = new Date(endDate).getTime();
+    const T = Math.max(0, (resolution - now) / MS_PER_YEAR);
+
+    const spec = parseContract({
+      question: market.question,
+      description: polyEvent.description,
+      eventTitle: polyEvent.title,
+      startDate: polyEvent.startDate,
+      endDate,
+      spotPrice
+    });
+
+    const polyYesPrice = market.bestAsk || 0;
+    let modelProb: number | null = null;
+    let iv: number | null = null;
+    let netEdge: number | null = null;
+    let annualizedReturn: number | null = null;
+
+    if (isAssetSupported && matchedOptions.length > 0) {
+      const ivAt = createIvLookup(matchedOptions, expiryBracket, spotPrice, resolution);
+      const strike = getContractStrike(spec);
+      iv = strike !== null ? ivAt(strike) : null;
+      modelProb = priceContract(spec, {
+        spot: spotPrice,
+        T,
+        ivAt: (K) => ivAt(K) ?? 0,
+        model: 'BARRIER',
+        monitoringMinutes: getMonitoringMinutes(spec) ?? 1
+      });
+
+      if (modelProb !== null && polyYesPrice > 0) {
+        const hedge = priceContractFromCallSpreads(spec, matchedOptions);
+        const breakdown = computeNetEdge(modelProb, polyYesPrice, T, costSettings, hedge ? hedge.legs : null);
+        netEdge = breakdown.netEdge * 100;
+        annualizedReturn = breakdown.annualizedReturn;
+      }
+    }
+
+    return {
+      key: `${polyEvent.id}:${market.id}`,
+      opportunity,
+      market,
+      query,
+      spec,
+      polyYesPrice,
+      modelProb,
+      iv,
+      edge: modelProb !== null && polyYesPrice > 0 ? (modelProb - polyYesPrice) * 100 : null,
+      netEdge,
+      annualizedReturn,
+      daysToExpiry: Math.max(0, (resolution - now) / MS_PER_DAY),
+      liquidity: market.liquidity || 0,
+      volume: Number(market.volume) || 0,
+      spread: calculateSpread(market.bestBid, market.bestAsk),
+      scannedAt: now
+    };
+  });
+};
@@ -0,0 +1,95 @@
+import { OptionQuote, SmilePoint, VolSmile } from '../types';
+
+/**
+ * Natural cubic spline through (xs, ys). xs must be strictly increasing.
+ * Outside [x0, xn] the curve is extrapolated flat, which avoids
+ * exploding wings where a venue lists few strikes.
+ */
+const buildNaturalSpline = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  if (n === 1) return () => ys[0];
+
+  const h: number[] = [];
+  for (let i = 0; i < n - 1; i++) h.push(xs[i + 1] - xs[i]);
+
+  // Solve tridiagonal system for second derivatives (m[0] = m[n-1] = 0)
+  const m = new Array(n).fill(0);
+  if (n > 2) {
+    const diag: number[] = [];
+    const rhs: number[] = [];
+    for (let i = 1; i < n - 1; i++) {
+      diag.push(2 * (h[i - 1] + h[i]));
+      rhs.push(6 * ((ys[i + 1] - ys[i]) / h[i] - (ys[i] - ys[i - 1]) / h[i - 1]));
+    }
+    // Thomas algorithm; off-diagonals are h[i]
+    for (let i = 1; i < diag.length; i++) {
+      const w = h[i] / diag[i - 1];
+      diag[i] -= w * h[i];
+      rhs[i] -= w * rhs[i - 1];
+    }
+    for (let i = diag.length - 1; i >= 0; i--) {
+      const next = i < diag.length - 1 ? m[i + 2] : 0;
+      m[i + 1] = (rhs[i] - h[i + 1] * next) / diag[i];
+    }
+  }
+
+  return (x: number): number => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+
+    let i = 0;
+    while (i < n - 2 && x > xs[i + 1]) i++;
+
+    const a = xs[i + 1] - x;
+    const b = x - xs[i];
+    return (
+      (m[i] * a * a * a + m[i + 1] * b * b * b) / (6 * h[i]) +
+      (ys[i] / h[i] - (m[i] * h[i]) / 6) * a +
+      (ys[i + 1] / h[i] - (m[i + 1] * h[i]) / 6) * b
+    );
+  };
+};
+
+/**
+ * Fits a volatility smile for a single expiry.
+ * Uses out-of-the-money options only (puts below the forward, calls above),
+ * since their marks are the most liquid and reliable, then interpolates IV
+ * with a natural cubic spline in log-moneyness.
+ * Returns null if fewer than two usable points exist.
+ */
+export const fitVolSmile = (options: OptionQuote[], spotFallback: number = 0): VolSmile | null => {
+  // underlyingPrice is the forward (future) for the option's expiry
+  const forward = options.find(o => o.underlyingPrice > 0)?.underlyingPrice || spotFallback;
+  if (!forward) return null;
+
+  const byStrike: Record<number, SmilePoint> = {};
+
+  options.forEach(opt => {
+    if (!opt.iv || opt.iv <= 0) return;
+
+    const isOtm = opt.type === 'C' ? opt.strike >= forward : opt.strike < forward;
+    if (!isOtm) return;
+
+    byStrike[opt.strike] = {
+      strike: opt.strike,
+      logMoneyness: Math.log(opt.strike / forward),
+      iv: opt.iv,
+      type: opt.type,
+      instrumentName: opt.instrument
+    };
+  });
+
+  const points = Object.values(byStrike).sort((a, b) => a.strike - b.strike);
+  if (points.length < 2) return null;
+
+  const spline = buildNaturalSpline(
+    points.map(p => p.logMoneyness),
+    points.map(p => p.iv)
+  );
+
+  return {
+    forward,
+    points,
+    ivAt: (strike: number) => Math.max(0, spline(Math.log(strike / forward)))
+  };
+};
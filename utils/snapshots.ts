@@ -0,0 +1,57 @@
+import { MarketSnapshot, ScanRow } from '../types';
+import { getYesPrice } from './buckets';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const CSV_COLUMNS: (keyof MarketSnapshot)[] = [
+  'timestamp', 'marketKey', 'question', 'endDate', 'polyBid', 'polyAsk', 'polyPrice', 'spot', 'iv', 'modelProb', 'edge'
+];
+
+/**
+ * Converts a priced scanner row into a storable snapshot.
+ */
+export const buildSnapshot = (row: ScanRow): MarketSnapshot => ({
+  marketKey: row.key,
+  timestamp: row.scannedAt,
+  question: row.market.question,
+  endDate: row.market.endDate || row.opportunity.polyEvent.endDate,
+  polyBid: Number(row.market.bestBid) || 0,
+  polyAsk: Number(row.market.bestAsk) || 0,
+  polyPrice: getYesPrice(row.market.outcomes, row.market.outcomePrices),
+  spot: row.opportunity.spotPrice,
+  iv: row.iv,
+  modelProb: row.modelProb,
+  edge: row.edge
+});
+
+export const snapshotsToCsv = (snapshots: MarketSnapshot[]): string => {
+  const escape = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const lines = snapshots.map(s => CSV_COLUMNS.map(c => escape(s[c])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+};
+
+/**
+ * How long the current gap has held: walks back from the latest snapshot
+ * while the edge keeps the same sign and stays at least `minEdge` points.
+ * Returns null when the latest snapshot has no meaningful edge.
+ */
+export const getEdgeStreak = (snapshots: MarketSnapshot[], minEdge: number = 1) => {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest || latest.edge === null || Math.abs(latest.edge) < minEdge) return null;
+
+  const sign = Math.sign(latest.edge);
+  let since = latest.timestamp;
+  let count = 0;
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    const edge = snapshots[i].edge;
+    if (edge === null || Math.sign(edge) !== sign || Math.abs(edge) < minEdge) break;
+    since = snapshots[i].timestamp;
+    count++;
+  }
+
+  return { sign, since, count, days: (latest.timestamp - since) / MS_PER_DAY };
+};
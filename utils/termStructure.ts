@@ -0,0 +1,131 @@
+import { ExpiryBracket, ExpirySlice, OptionQuote, PolyEvent } from '../types';
+import { fitVolSmile } from './smile';
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365;
+
+/**
+ * Groups a full option chain into expiry slices, sorted by expiry time.
+ */
+export const groupOptionsByExpiry = (options: OptionQuote[]): ExpirySlice[] => {
+  const slices: Record<string, ExpirySlice> = {};
+
+  options.forEach(opt => {
+    if (!slices[opt.expiryCode]) {
+      slices[opt.expiryCode] = { code: opt.expiryCode, expiryTimestamp: opt.expiryTimestamp, options: [] };
+    }
+    slices[opt.expiryCode].options.push(opt);
+  });
+
+  return Object.values(slices).sort((a, b) => a.expiryTimestamp - b.expiryTimestamp);
+};
+
+/**
+ * The resolution time an event is matched and priced at: its main market's
+ * end date, falling back to the event's. Bracket, weights, primary slice and
+ * the card's expiry label all use this one timestamp.
+ */
+export const getEventResolutionIso = (polyEvent: PolyEvent): string =>
+  polyEvent.markets[0]?.endDate || polyEvent.endDate;
+
+/**
+ * Finds the two live listed expiries bracketing a Polymarket resolution time.
+ * If the target is before the first or after the last expiry, both sides of
+ * the bracket are the nearest slice (flat-vol extrapolation).
+ */
+export const findExpiryBracket = (
+  options: OptionQuote[],
+  targetIso: string,
+  now: number = Date.now()
+): ExpiryBracket | null => {
+  const targetTimestamp = new Date(targetIso).getTime();
+  if (isNaN(targetTimestamp)) return null;
+
+  const slices = groupOptionsByExpiry(options).filter(s => s.expiryTimestamp > now);
+  if (slices.length === 0) return null;
+
+  const upperIdx = slices.findIndex(s => s.expiryTimestamp >= targetTimestamp);
+  if (upperIdx === -1) {
+    const last = slices[slices.length - 1];
+    return { lower: last, upper: last, targetTimestamp };
+  }
+  if (upperIdx === 0 || slices[upperIdx].expiryTimestamp === targetTimestamp) {
+    return { lower: slices[upperIdx], upper: slices[upperIdx], targetTimestamp };
+  }
+  return { lower: slices[upperIdx - 1], upper: slices[upperIdx], targetTimestamp };
+};
+
+/**
+ * Weight (0-1) on the upper expiry when interpolating total variance linearly in time.
+ */
+export const getUpperExpiryWeight = (bracket: ExpiryBracket, targetTimestamp: number = bracket.targetTimestamp): number => {
+  const { lower, upper } = bracket;
+  if (upper.expiryTimestamp === lower.expiryTimestamp) return 1;
+  const w = (targetTimestamp - lower.expiryTimestamp) / (upper.expiryTimestamp - lower.expiryTimestamp);
+  return Math.min(1, Math.max(0, w));
+};
+
+/**
+ * The slice that carries most of the interpolation weight.
+ * Used where a single chain is needed (chain display, spread replication).
+ */
+export const getPrimarySlice = (bracket: ExpiryBracket): ExpirySlice =>
+  getUpperExpiryWeight(bracket) >= 0.5 ? bracket.upper : bracket.lower;
+
+/**
+ * Fits both bracketing smiles once and returns the implied vol (percent) at a
+ * strike for an arbitrary resolution time. Total variance w = sigma^2 * t is
+ * interpolated linearly in time between the two expiries, then converted
+ * back to a vol for the target time.
+ */
+export const createImpliedVolInterpolator = (
+  bracket: ExpiryBracket,
+  spotFallback: number = 0
+): ((strike: number, targetTimestamp?: number, now?: number) => number | null) => {
+  const sliceVol = (slice: ExpirySlice): ((strike: number) => number | null) => {
+    const smile = fitVolSmile(slice.options, spotFallback);
+    if (smile) return strike => smile.ivAt(strike) / 100;
+    // Single-strike slices: use the only IV available
+    const iv = slice.options.find(o => o.iv > 0)?.iv;
+    return () => (iv ? iv / 100 : null);
+  };
+  const lowerVol = sliceVol(bracket.lower);
+  const upperVol = bracket.upper === bracket.lower ? lowerVol : sliceVol(bracket.upper);
+
+  return (strike, targetTimestamp = bracket.targetTimestamp, now = Date.now()) =>
+    interpolateVariance(bracket, lowerVol(strike), upperVol(strike), targetTimestamp, now);
+};
+
+const interpolateVariance = (
+  bracket: ExpiryBracket,
+  sigmaLower: number | null,
+  sigmaUpper: number | null,
+  targetTimestamp: number,
+  now: number
+): number | null => {
+  if (sigmaLower === null || sigmaUpper === null) return null;
+
+  const tTarget = (targetTimestamp - now) / MS_PER_YEAR;
+  if (tTarget <= 0) return sigmaUpper * 100;
+
+  // Flat-vol extrapolation outside the listed expiries
+  if (bracket.upper.expiryTimestamp === bracket.lower.expiryTimestamp) return sigmaUpper * 100;
+
+  const tLower = (bracket.lower.expiryTimestamp - now) / MS_PER_YEAR;
+  const tUpper = (bracket.upper.expiryTimestamp - now) / MS_PER_YEAR;
+  const weight = getUpperExpiryWeight(bracket, targetTimestamp);
+
+  const totalVariance = (1 - weight) * sigmaLower * sigmaLower * tLower + weight * sigmaUpper * sigmaUpper * tUpper;
+  return Math.sqrt(Math.max(0, totalVariance) / tTarget) * 100;
+};
+
+/**
+ * Implied vol (percent) at a single strike for an arbitrary resolution time.
+ * Refits both smiles; build createImpliedVolInterpolator once for repeated lookups.
+ */
+export const interpolateImpliedVol = (
+  bracket: ExpiryBracket,
+  strike: number,
+  targetTimestamp: number = bracket.targetTimestamp,
+  spotFallback: number = 0,
+  now: number = Date.now()
+): number | null => createImpliedVolInterpolator(bracket, spotFallback)(strike, targetTimestamp, now);
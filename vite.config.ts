@@ -4,15 +4,27 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the gateway the Gemini key stays server-side; otherwise it ships in the bundle
+    const browserGeminiKey = env.API_MODE === 'gateway' ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The data gateway runs next to the app (npm run gateway)
+        proxy: {
+          '/gateway': {
+            target: `http://${env.GATEWAY_HOST || '127.0.0.1'}:${env.GATEWAY_PORT || 8787}`,
+            rewrite: (p) => p.replace(/^\/gateway/, '')
+          }
+        }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(browserGeminiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(browserGeminiKey),
+        'process.env.DERIBIT_WS_URL': JSON.stringify(env.DERIBIT_WS_URL || ''),
+        'process.env.API_MODE': JSON.stringify(env.API_MODE || 'proxy'),
+        'process.env.GATEWAY_URL': JSON.stringify(env.GATEWAY_URL || '')
       },
       resolve: {
         alias: {
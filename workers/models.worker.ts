@@ -0,0 +1,6 @@
+import { executeModelJob, ModelJob } from '../utils/models';
+
+// One job per worker; the caller terminates it after the reply
+self.onmessage = (e: MessageEvent<ModelJob>) => {
+  self.postMessage(executeModelJob(e.data));
+};
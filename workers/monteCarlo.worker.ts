@@ -0,0 +1,8 @@
+import { MonteCarloParams } from '../types';
+import { simulateMonteCarlo } from '../utils/math';
+
+// One message per chunk of paths; the pool merges the running sums
+self.onmessage = (e: MessageEvent<{ chunkId: number; params: MonteCarloParams }>) => {
+  const { chunkId, params } = e.data;
+  self.postMessage({ chunkId, stats: simulateMonteCarlo(params) });
+};